@@ -0,0 +1,48 @@
+require("dotenv").config();
+const path = require("path");
+
+const BunqClientPool = require("../dist/BunqClientPool").default;
+const customStore = require("../dist/Stores/JSONFileStore").default;
+
+const storageBasePath = `${__dirname}${path.sep}setup_files${path.sep}`;
+
+/**
+ * This example runs multiple api keys in a single process using a BunqClientPool.
+ *
+ * All clients share a single storage file, the request limiters and a limit
+ * on the amount of requests which are sent at the same time.
+ */
+const pool = new BunqClientPool(customStore(`${storageBasePath}storage-pool.json`), undefined, {
+    environment: "SANDBOX",
+    encryption_key: process.env.ENCRYPTION_KEY,
+    device_name: process.env.DEVICE_NAME,
+    max_concurrent_requests: 5
+});
+
+const example = async () => {
+    // tenants are only installed once their client is requested
+    pool.addTenant("first", { api_key: process.env.API_KEY });
+
+    const bunqClient = await pool.getClient("first");
+    const users = await bunqClient.getUsers(true);
+    const userInfo = users[Object.keys(users)[0]];
+
+    const events = await bunqClient.api.event.list(userInfo.id);
+    console.log(`Received ${events.length} events`);
+
+    console.log(pool.getAllHealth());
+};
+
+example()
+    .then(() => {})
+    .catch(error => {
+        if (error.response) {
+            console.log(error.response.data);
+        } else {
+            console.log(error);
+        }
+    })
+    .finally(() => {
+        pool.close();
+        process.exit();
+    });
@@ -23,24 +23,16 @@ const setup = async () => {
     // setup a bunqClient
     const BunqClient = new BunqJSClient(customStoreInstance);
 
-    // load and refresh bunq client
-    await BunqClient.run(process.env.API_KEY, permittedIps, process.env.ENVIRONMENT, process.env.ENCRYPTION_KEY).catch(
-        exception => {
-            throw exception;
-        }
-    );
-
-    // disable keep-alive since the server will stay online without the need for a constant active session
-    BunqClient.setKeepAlive(false);
-
-    // create/re-use a system installation
-    await BunqClient.install().catch(defaultErrorLogger);
-
-    // create/re-use a device installation
-    await BunqClient.registerDevice(process.env.DEVICE_NAME).catch(defaultErrorLogger);
-
-    // create/re-use a bunq session installation
-    await BunqClient.registerSession().catch(defaultErrorLogger);
+    // runs the client and creates or re-uses the installation, device and session
+    // keep-alive is disabled since the server will stay online without the need for a constant active session
+    await BunqClient.connect({
+        api_key: process.env.API_KEY,
+        encryption_key: process.env.ENCRYPTION_KEY,
+        allowed_ips: permittedIps,
+        environment: process.env.ENVIRONMENT,
+        device_name: process.env.DEVICE_NAME,
+        keep_alive: false
+    }).catch(defaultErrorLogger);
 
     return BunqClient;
 };
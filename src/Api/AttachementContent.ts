@@ -23,16 +23,15 @@ export default class AttachementContent implements ApiEndpointInterface {
     public async get(attachmendUUID: string, options: any = { base64: true }) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/attachment-public/content", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/attachment-public/${attachmendUUID}/content`,
-                {},
-                {
-                    axiosOptions: {
-                        responseType: "arraybuffer"
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/attachment-public/${attachmendUUID}/content`,
+            {},
+            {
+                axiosOptions: {
+                    responseType: "arraybuffer"
+                },
+                limiter: limiter
+            }
         );
 
         // return data as base64
@@ -18,18 +18,17 @@ export default class AttachmentPublic implements ApiEndpointInterface {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/attachment-public", "POST");
 
         // do the actual call
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/attachment-public`,
-                buffer,
-                {
-                    "Content-Type": contentType,
-                    "X-Bunq-Attachment-Description": "Default description"
-                },
-                {
-                    includesFile: true
-                }
-            )
+        const response = await this.ApiAdapter.post(
+            `/v1/attachment-public`,
+            buffer,
+            {
+                "Content-Type": contentType,
+                "X-Bunq-Attachment-Description": "Default description"
+            },
+            {
+                includesFile: true,
+                limiter: limiter
+            }
         );
 
         return response.Response[0].Uuid.uuid;
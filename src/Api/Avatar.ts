@@ -18,10 +18,13 @@ export default class Avatar implements ApiEndpointInterface {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/avatar", "POST");
 
         // do the actual call
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/avatar`, {
+        const response = await this.ApiAdapter.post(
+            `/v1/avatar`,
+            {
                 attachment_public_uuid: attachmentUuid
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0].Uuid.uuid;
@@ -2,6 +2,9 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
 
 export default class BillingContractSubscription implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -29,6 +32,25 @@ export default class BillingContractSubscription implements ApiEndpointInterface
             older_id: false
         }
     ) {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -43,18 +65,37 @@ export default class BillingContractSubscription implements ApiEndpointInterface
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/billing-contract-subscription", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/billing-contract-subscription`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/billing-contract-subscription`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<any>}
+     */
+    public iterate(userId: number, options: PaginationIteratorOptions = {}): AsyncIterableIterator<any> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<any[]>}
+     */
+    public async listAll(userId: number, options: PaginationIteratorOptions = {}): Promise<any[]> {
+        return collectAll(this.iterate(userId, options));
     }
 }
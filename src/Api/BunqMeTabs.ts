@@ -2,7 +2,13 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import Amount from "../Types/Amount";
+import Money, { toAmount } from "../Helpers/Money";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { BunqMeTabResponse } from "../Types/BunqMeTab";
+import IdResponse from "../Types/IdResponse";
 
 export default class BunqMeTabs implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -21,13 +27,20 @@ export default class BunqMeTabs implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {number} paymentId
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<BunqMeTabResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, tabId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        monetaryAccountId: number,
+        tabId: number,
+        options: any = {}
+    ): Promise<BunqMeTabResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/bunqme-tab", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab/${tabId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab/${tabId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -37,7 +50,7 @@ export default class BunqMeTabs implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<BunqMeTabResponse[]>}
      */
     public async list(
         userId: number,
@@ -47,7 +60,27 @@ export default class BunqMeTabs implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<BunqMeTabResponse[]> {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<BunqMeTabResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<BunqMeTabResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -62,39 +95,68 @@ export default class BunqMeTabs implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/bunqme-tab", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<BunqMeTabResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<BunqMeTabResponse>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<BunqMeTabResponse> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<BunqMeTabResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<BunqMeTabResponse[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {string} description
-     * @param {Amount} amount
+     * @param {Amount | Money} amount
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
         monetaryAccountId: number,
         description: string,
-        amount: Amount,
+        amount: Amount | Money,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const params: any = {
             description: description,
-            amount_inquired: amount
+            amount_inquired: toAmount(amount)
         };
 
         if (options.redirect_url) {
@@ -103,10 +165,13 @@ export default class BunqMeTabs implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/bunqme-tab", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab`, {
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab`,
+            {
                 bunqme_tab_entry: params
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -117,15 +182,23 @@ export default class BunqMeTabs implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {number} bunqMeTabId
      * @param {string} status
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
-    public async put(userId: number, monetaryAccountId: number, bunqMeTabId: number, status: string = "CANCELLED") {
+    public async put(
+        userId: number,
+        monetaryAccountId: number,
+        bunqMeTabId: number,
+        status: string = "CANCELLED"
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/bunqme-tab", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab/${bunqMeTabId}`, {
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/bunqme-tab/${bunqMeTabId}`,
+            {
                 status: status
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
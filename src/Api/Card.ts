@@ -6,7 +6,12 @@ import CountryPermissionCollection from "../Types/CountryPermissionCollection";
 import LimitCollection from "../Types/LimitCollection";
 import PinCodeAssignmentCollection from "../Types/PinCodeAssignmentCollection";
 import Amount from "../Types/Amount";
+import Money, { toAmount } from "../Helpers/Money";
 import MagStripePermission from "../Types/MagStripePermission";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { CardResponse } from "../Types/Card";
 
 export default class Card implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -23,12 +28,12 @@ export default class Card implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<CardResponse[]>}
      */
-    public async get(userId: number, cardId: number, options: any = {}) {
+    public async get(userId: number, cardId: number, options: any = {}): Promise<CardResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/card", "GET");
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(`/v1/user/${userId}/card/${cardId}`));
+        const response = await this.ApiAdapter.get(`/v1/user/${userId}/card/${cardId}`, {}, { limiter: limiter });
 
         return response.Response;
     }
@@ -36,7 +41,7 @@ export default class Card implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {CardListOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<CardResponse[]>}
      */
     public async list(
         userId: number,
@@ -45,7 +50,25 @@ export default class Card implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<CardResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {CardListOptions} options
+     * @returns {Promise<PaginatedResponse<CardResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 25,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<CardResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -60,19 +83,38 @@ export default class Card implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/card", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/card`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/card`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<CardResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<CardResponse>}
+     */
+    public iterate(userId: number, options: PaginationIteratorOptions = {}): AsyncIterableIterator<CardResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<CardResponse[]>}
+     */
+    public async listAll(userId: number, options: PaginationIteratorOptions = {}): Promise<CardResponse[]> {
+        return collectAll(this.iterate(userId, options));
     }
 
     /**
@@ -81,7 +123,7 @@ export default class Card implements ApiEndpointInterface {
      * @param {string} pinCode
      * @param {string} activationCode
      * @param {string} status
-     * @param {Amount} cardLimit
+     * @param {Amount | Money} cardLimit
      * @param {Limit} limits
      * @param {MagStripePermission} magStripePermission
      * @param {CountryPermissionCollection} countryPermissions
@@ -96,7 +138,7 @@ export default class Card implements ApiEndpointInterface {
         pinCode: string = null,
         activationCode: string = null,
         status: string = null,
-        cardLimit: Amount = null,
+        cardLimit: Amount | Money = null,
         limits: LimitCollection = null,
         countryPermissions: CountryPermissionCollection = null,
         pinCodeAssignment: PinCodeAssignmentCollection = null,
@@ -109,14 +151,17 @@ export default class Card implements ApiEndpointInterface {
         if (pinCode) data.pin_code = pinCode;
         if (activationCode) data.activation_code = activationCode;
         if (status) data.status = status;
-        if (cardLimit) data.card_limit = cardLimit;
+        if (cardLimit) data.card_limit = toAmount(cardLimit);
         if (limits) data.limits = limits;
         if (countryPermissions) data.country_permissions = countryPermissions;
         if (pinCodeAssignment) data.pin_code_assignment = pinCodeAssignment;
         if (monetaryAccountIdFallback) data.monetary_account_id_fallback = monetaryAccountIdFallback;
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/card/${cardId}`, data, {}, { isEncrypted: true })
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/card/${cardId}`,
+            data,
+            {},
+            { isEncrypted: true, limiter: limiter }
         );
 
         return response.Response;
@@ -23,15 +23,13 @@ export default class CardBatch implements ApiEndpointInterface {
     public async post(userId: number, cards: any[], options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/card-batch", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/user/${userId}/card-batch`,
-                {
-                    cards: cards
-                },
-                {},
-                { isEncrypted: true }
-            )
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/card-batch`,
+            {
+                cards: cards
+            },
+            {},
+            { isEncrypted: true, limiter: limiter }
         );
 
         return response.Response;
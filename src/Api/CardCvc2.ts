@@ -1,6 +1,8 @@
 import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import { CardGeneratedCvc2Response } from "../Types/CardGeneratedCvc2";
+import IdResponse from "../Types/IdResponse";
 
 export default class CardCvc2 implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -18,13 +20,15 @@ export default class CardCvc2 implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {number} requestResponseId
-     * @returns {Promise<any>}
+     * @returns {Promise<CardGeneratedCvc2Response>}
      */
-    public async get(userId: number, cardId: number, cvc2Id: number) {
+    public async get(userId: number, cardId: number, cvc2Id: number): Promise<CardGeneratedCvc2Response> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/generated-cvc2", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/card/${cardId}/generated-cvc2/${cvc2Id}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/card/${cardId}/generated-cvc2/${cvc2Id}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -34,13 +38,15 @@ export default class CardCvc2 implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} cardId
      * @param {any} options
-     * @returns {Promise<any>}
+     * @returns {Promise<CardGeneratedCvc2Response[]>}
      */
-    public async list(userId: number, cardId: number, options: any = {}) {
+    public async list(userId: number, cardId: number, options: any = {}): Promise<CardGeneratedCvc2Response[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/generated-cvc2", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/card/${cardId}/generated-cvc2`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/card/${cardId}/generated-cvc2`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -50,20 +56,23 @@ export default class CardCvc2 implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} cardId
      * @param {"STATIC" | "GENERATED"} type
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse>}
      */
-    public async post(userId: number, cardId: number, type: "STATIC" | "GENERATED" = "GENERATED", options: any = {}) {
+    public async post(
+        userId: number,
+        cardId: number,
+        type: "STATIC" | "GENERATED" = "GENERATED",
+        options: any = {}
+    ): Promise<IdResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/generated-cvc2", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/user/${userId}/card/${cardId}/generated-cvc2`,
-                {
-                    type: type
-                },
-                {},
-                { isEncrypted: true }
-            )
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/card/${cardId}/generated-cvc2`,
+            {
+                type: type
+            },
+            {},
+            { isEncrypted: true, limiter: limiter }
         );
 
         return response.Response[0];
@@ -40,20 +40,18 @@ export default class CardDebit implements ApiEndpointInterface {
     ) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/card-debit", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/user/${userId}/card-debit`,
-                {
-                    second_line: description,
-                    name_on_card: name,
-                    alias: alias,
-                    type: cardType,
-                    pin_code_assignment: assignments,
-                    monetary_account_id_fallback: monetaryAccountIdFallback
-                },
-                {},
-                { isEncrypted: true }
-            )
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/card-debit`,
+            {
+                second_line: description,
+                name_on_card: name,
+                alias: alias,
+                type: cardType,
+                pin_code_assignment: assignments,
+                monetary_account_id_fallback: monetaryAccountIdFallback
+            },
+            {},
+            { isEncrypted: true, limiter: limiter }
         );
 
         return response.Response;
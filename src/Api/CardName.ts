@@ -22,7 +22,7 @@ export default class CardName implements ApiEndpointInterface {
     public async get(userId: number, options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/card-name", "GET");
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(`/v1/user/${userId}/card-name`));
+        const response = await this.ApiAdapter.get(`/v1/user/${userId}/card-name`, {}, { limiter: limiter });
 
         return response.Response;
     }
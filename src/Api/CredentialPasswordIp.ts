@@ -2,6 +2,9 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
 
 export default class CredentialPasswordIp implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -24,8 +27,10 @@ export default class CredentialPasswordIp implements ApiEndpointInterface {
     public async get(userId: number, credentialPasswordIpId: number, options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -44,6 +49,24 @@ export default class CredentialPasswordIp implements ApiEndpointInterface {
             older_id: false
         }
     ) {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -58,18 +81,37 @@ export default class CredentialPasswordIp implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/credential-password-ip`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/credential-password-ip`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<any>}
+     */
+    public iterate(userId: number, options: PaginationIteratorOptions = {}): AsyncIterableIterator<any> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<any[]>}
+     */
+    public async listAll(userId: number, options: PaginationIteratorOptions = {}): Promise<any[]> {
+        return collectAll(this.iterate(userId, options));
     }
 }
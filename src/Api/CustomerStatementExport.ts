@@ -1,6 +1,8 @@
 import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
 
 export default class CustomerStatementExport implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -35,13 +37,16 @@ export default class CustomerStatementExport implements ApiEndpointInterface {
     ) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/customer-statement-export", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${accountId}/customer-statement/`, {
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${accountId}/customer-statement/`,
+            {
                 statement_format: statement_format,
                 date_start: date_start,
                 date_end: date_end,
                 regional_format: options.regional_format
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -57,10 +62,10 @@ export default class CustomerStatementExport implements ApiEndpointInterface {
     public async get(userId: number, accountId: number, customerStatementId: number, options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/customer-statement-export", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${accountId}/customer-statement/${customerStatementId}`
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${accountId}/customer-statement/${customerStatementId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -76,10 +81,10 @@ export default class CustomerStatementExport implements ApiEndpointInterface {
     public async delete(userId: number, accountId: number, customerStatementId: number, options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/customer-statement-export", "DELETE");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.delete(
-                `/v1/user/${userId}/monetary-account/${accountId}/customer-statement/${customerStatementId}`
-            )
+        const response = await this.ApiAdapter.delete(
+            `/v1/user/${userId}/monetary-account/${accountId}/customer-statement/${customerStatementId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -92,12 +97,57 @@ export default class CustomerStatementExport implements ApiEndpointInterface {
      * @returns {Promise}
      */
     public async list(userId: number, accountId: number, options: any = {}) {
+        const params: any = {};
+
+        if (options.count !== undefined) {
+            params.count = options.count;
+        }
+        if (options.newer_id !== false && options.newer_id !== undefined) {
+            params.newer_id = options.newer_id;
+        }
+        if (options.older_id !== false && options.older_id !== undefined) {
+            params.older_id = options.older_id;
+        }
+
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/customer-statement-export", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account/${accountId}/customer-statement`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${accountId}/customer-statement`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
         return response.Response;
     }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<any>}
+     */
+    public iterate(
+        userId: number,
+        accountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<any> {
+        return paginate(pageOptions => this.list(userId, accountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<any[]>}
+     */
+    public async listAll(userId: number, accountId: number, options: PaginationIteratorOptions = {}): Promise<any[]> {
+        return collectAll(this.iterate(userId, accountId, options));
+    }
 }
@@ -27,16 +27,15 @@ export default class CustomerStatementExportContent implements ApiEndpointInterf
     ): Promise<Blob> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/customer-statement-export/content", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${accountId}/customer-statement/${customerStatementId}/content`,
-                {},
-                {
-                    axiosOptions: {
-                        responseType: "arraybuffer"
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${accountId}/customer-statement/${customerStatementId}/content`,
+            {},
+            {
+                axiosOptions: {
+                    responseType: "arraybuffer"
+                },
+                limiter: limiter
+            }
         );
 
         const blob = new Blob([response]);
@@ -1,6 +1,7 @@
 import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import { DeviceServerResponse } from "../Types/DeviceServer";
 
 export default class DeviceRegistration implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -17,9 +18,9 @@ export default class DeviceRegistration implements ApiEndpointInterface {
     /**
      *
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<number>} the id of the new device
      */
-    public async add(options: any = { description: "My Device", permitted_ips: [] }) {
+    public async add(options: any = { description: "My Device", permitted_ips: [] }): Promise<number> {
         const postData = {
             description: options.description,
             secret: this.Session.apiKey
@@ -44,16 +45,15 @@ export default class DeviceRegistration implements ApiEndpointInterface {
     /**
      *
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<DeviceServerResponse>}
      */
-    public async get(options: any = { deviceId: null }) {
+    public async get(options: any = { deviceId: null }): Promise<DeviceServerResponse> {
         if (options.deviceId === null) {
             // if none is set we default to our current deviceId
             options.deviceId = this.Session.deviceId;
         }
         const response = await this.ApiAdapter.get(`/v1/device-server/${options.deviceId}`);
 
-        // return the device id
-        return response.Response[0].Id.id;
+        return response.Response[0];
     }
 }
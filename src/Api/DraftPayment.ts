@@ -2,9 +2,16 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import Amount from "../Types/Amount";
+import Money, { toAmount } from "../Helpers/Money";
+import { validateCounterpartyAlias } from "../Helpers/AliasValidator";
 import CounterpartyAlias from "../Types/CounterpartyAlias";
 import PaginationOptions from "../Types/PaginationOptions";
 import CounterPartyAliasCollection from "../Types/CounterPartyAliasCollection";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { DraftPaymentResponse } from "../Types/DraftPayment";
+import IdResponse from "../Types/IdResponse";
 
 export default class DraftPayment implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -23,13 +30,20 @@ export default class DraftPayment implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {number} paymentId
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<DraftPaymentResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, paymentId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        monetaryAccountId: number,
+        paymentId: number,
+        options: any = {}
+    ): Promise<DraftPaymentResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/draft-payment");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment/${paymentId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment/${paymentId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -39,7 +53,7 @@ export default class DraftPayment implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<DraftPaymentResponse[]>}
      */
     public async list(
         userId: number,
@@ -49,7 +63,27 @@ export default class DraftPayment implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<DraftPaymentResponse[]> {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<DraftPaymentResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<DraftPaymentResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -64,62 +98,99 @@ export default class DraftPayment implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/draft-payment", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<DraftPaymentResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<DraftPaymentResponse>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<DraftPaymentResponse> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<DraftPaymentResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<DraftPaymentResponse[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {string} description
-     * @param {Amount} amount
+     * @param {Amount | Money} amount
      * @param {CounterpartyAlias|CounterPartyAliasCollection} counterpartyAlias
-     * @param options
-     * @returns {Promise<void>}
+     * @param options - set idempotencyKey to make sure the request is only processed once, even when sent again,
+     *                  the key is only used as merchant_reference when the options don't contain one
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
         monetaryAccountId: number,
         description: string,
-        amount: Amount,
+        amount: Amount | Money,
         counterparty: CounterpartyAlias | CounterPartyAliasCollection,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
+        validateCounterpartyAlias(counterparty);
+
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/draft-payment", "POST");
 
-        const entries = [];
-        if (Array.isArray(counterparty)) {
-            counterparty.map(counterpartyAlias => {
-                entries.push({
-                    counterparty_alias: counterpartyAlias,
-                    description: description,
-                    amount: amount
-                });
-            });
-        } else {
-            entries.push({
-                counterparty_alias: counterparty,
-                description: description,
-                amount: amount
-            });
-        }
+        const url = `/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment`;
+        const idempotencyKey = options.idempotencyKey || false;
+        // an existing merchant reference is used to find an earlier attempt instead of the idempotency key
+        const merchantReference = options.merchant_reference || idempotencyKey;
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment`, {
-                entries: entries,
-                number_of_required_accepts: 1
-            })
+        const counterpartyAliases = Array.isArray(counterparty) ? counterparty : [counterparty];
+        const entries = counterpartyAliases.map(counterpartyAlias => {
+            const entry: any = {
+                counterparty_alias: counterpartyAlias,
+                description: description,
+                amount: toAmount(amount)
+            };
+            if (merchantReference !== false) entry.merchant_reference = merchantReference;
+            return entry;
+        });
+        const requestObject = {
+            entries: entries,
+            number_of_required_accepts: 1
+        };
+
+        const response = await this.ApiAdapter.IdempotencyHandler.send(
+            idempotencyKey,
+            merchantReference,
+            url,
+            requestObject,
+            searchOptions => this.listAll(userId, monetaryAccountId, searchOptions),
+            headers => this.ApiAdapter.post(url, requestObject, headers, { limiter: limiter })
         );
 
         return response.Response;
@@ -130,16 +201,24 @@ export default class DraftPayment implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {any[]} entries
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
-    public async postRaw(userId: number, monetaryAccountId: number, entries: any[], options: any = {}) {
+    public async postRaw(
+        userId: number,
+        monetaryAccountId: number,
+        entries: any[],
+        options: any = {}
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/draft-payment", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment`, {
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/draft-payment`,
+            {
                 entries: entries,
                 number_of_required_accepts: 1
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -2,6 +2,10 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { EventResponse } from "../Types/Event";
 
 interface EventFilterOptions extends PaginationOptions {
     monetary_account_id?: number | false;
@@ -25,12 +29,12 @@ export default class Event implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} eventId
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<EventResponse>}
      */
-    public async get(userId: number, eventId: number, options: any = {}) {
+    public async get(userId: number, eventId: number, options: any = {}): Promise<EventResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/event");
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(`/v1/user/${userId}/event/${eventId}`));
+        const response = await this.ApiAdapter.get(`/v1/user/${userId}/event/${eventId}`, {}, { limiter: limiter });
 
         return response.Response[0];
     }
@@ -38,7 +42,7 @@ export default class Event implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<EventResponse[]>}
      */
     public async list(
         userId: number,
@@ -47,7 +51,25 @@ export default class Event implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<EventResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<EventResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: EventFilterOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<EventResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -71,18 +93,43 @@ export default class Event implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/event", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/event`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/event`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<EventResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<EventResponse>}
+     */
+    public iterate(
+        userId: number,
+        options: EventFilterOptions & PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<EventResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<EventResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        options: EventFilterOptions & PaginationIteratorOptions = {}
+    ): Promise<EventResponse[]> {
+        return collectAll(this.iterate(userId, options));
     }
 }
@@ -2,6 +2,10 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { InvoiceResponse } from "../Types/Invoice";
 
 export default class Invoice implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -19,12 +23,17 @@ export default class Invoice implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} invoiceId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<InvoiceResponse[]>}
      */
-    public async get(userId: number, invoiceId: number, options: any = {}) {
+    public async get(userId: number, invoiceId: number, options: any = {}): Promise<InvoiceResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/invoice", "GET");
 
-        const response = await limiter.run(async () => this.ApiAdapter.post(`/v1/user/${userId}/invoice/${invoiceId}`));
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/invoice/${invoiceId}`,
+            {},
+            {},
+            { limiter: limiter }
+        );
 
         return response.Response;
     }
@@ -32,7 +41,7 @@ export default class Invoice implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {PaginationOptions} options
-     * @returns {Promise<any>}
+     * @returns {Promise<InvoiceResponse[]>}
      */
     public async list(
         userId: number,
@@ -41,7 +50,25 @@ export default class Invoice implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<InvoiceResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<InvoiceResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 25,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<InvoiceResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -56,32 +83,60 @@ export default class Invoice implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/invoice", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/invoice`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/invoice`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<InvoiceResponse>(response, this.ApiAdapter, limiter);
     }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<InvoiceResponse>}
+     */
+    public iterate(userId: number, options: PaginationIteratorOptions = {}): AsyncIterableIterator<InvoiceResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<InvoiceResponse[]>}
+     */
+    public async listAll(userId: number, options: PaginationIteratorOptions = {}): Promise<InvoiceResponse[]> {
+        return collectAll(this.iterate(userId, options));
+    }
+
     /**
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {number} invoiceId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<InvoiceResponse[]>}
      */
-    public async getMonetaryAccount(userId: number, monetaryAccountId: number, invoiceId: number, options: any = {}) {
+    public async getMonetaryAccount(
+        userId: number,
+        monetaryAccountId: number,
+        invoiceId: number,
+        options: any = {}
+    ): Promise<InvoiceResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account/invoice", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/invoice/${invoiceId}`)
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/invoice/${invoiceId}`,
+            {},
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -91,7 +146,7 @@ export default class Invoice implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<any>}
+     * @returns {Promise<InvoiceResponse[]>}
      */
     public async listMonetaryAccount(
         userId: number,
@@ -101,7 +156,27 @@ export default class Invoice implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<InvoiceResponse[]> {
+        const page = await this.listMonetaryAccountPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<InvoiceResponse>>}
+     */
+    public async listMonetaryAccountPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 25,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<InvoiceResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -116,18 +191,47 @@ export default class Invoice implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account/invoice", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/invoice`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/invoice`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<InvoiceResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the listMonetaryAccount endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<InvoiceResponse>}
+     */
+    public iterateMonetaryAccount(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<InvoiceResponse> {
+        return paginate(pageOptions => this.listMonetaryAccount(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the listMonetaryAccount endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<InvoiceResponse[]>}
+     */
+    public async listAllMonetaryAccount(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<InvoiceResponse[]> {
+        return collectAll(this.iterateMonetaryAccount(userId, monetaryAccountId, options));
     }
 }
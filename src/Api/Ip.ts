@@ -2,6 +2,11 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { PermittedIpResponse } from "../Types/PermittedIp";
+import IdResponse from "../Types/IdResponse";
 
 export default class Ip implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -20,13 +25,20 @@ export default class Ip implements ApiEndpointInterface {
      * @param {number} credentialPasswordIpId
      * @param {number} ipId
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<PermittedIpResponse>}
      */
-    public async get(userId: number, credentialPasswordIpId: number, ipId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        credentialPasswordIpId: number,
+        ipId: number,
+        options: any = {}
+    ): Promise<PermittedIpResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip/ip", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip/${ipId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip/${ipId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -36,7 +48,7 @@ export default class Ip implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} credentialPasswordIpId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<PermittedIpResponse[]>}
      */
     public async list(
         userId: number,
@@ -46,7 +58,27 @@ export default class Ip implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<PermittedIpResponse[]> {
+        const page = await this.listPage(userId, credentialPasswordIpId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} credentialPasswordIpId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<PermittedIpResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        credentialPasswordIpId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<PermittedIpResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -61,19 +93,48 @@ export default class Ip implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip/ip", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<PermittedIpResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} credentialPasswordIpId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<PermittedIpResponse>}
+     */
+    public iterate(
+        userId: number,
+        credentialPasswordIpId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<PermittedIpResponse> {
+        return paginate(pageOptions => this.list(userId, credentialPasswordIpId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} credentialPasswordIpId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<PermittedIpResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        credentialPasswordIpId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<PermittedIpResponse[]> {
+        return collectAll(this.iterate(userId, credentialPasswordIpId, options));
     }
 
     /**
@@ -82,7 +143,7 @@ export default class Ip implements ApiEndpointInterface {
      * @param {string} ip
      * @param {"ACTIVE" | "INACTIVE"} status
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
@@ -90,15 +151,18 @@ export default class Ip implements ApiEndpointInterface {
         ip: string,
         status: "ACTIVE" | "INACTIVE",
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const data: any = {
             ip: ip,
             status: status
         };
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip/ip", "POST");
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip`, data)
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip`,
+            data,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -111,7 +175,7 @@ export default class Ip implements ApiEndpointInterface {
      * @param {string} ip
      * @param {"ACTIVE" | "INACTIVE"} status
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         userId: number,
@@ -120,15 +184,18 @@ export default class Ip implements ApiEndpointInterface {
         ip: string,
         status: "ACTIVE" | "INACTIVE",
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const data: any = {
             ip: ip,
             status: status
         };
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip/ip", "PUT");
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip/${ipId}`, data)
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/credential-password-ip/${credentialPasswordIpId}/ip/${ipId}`,
+            data,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
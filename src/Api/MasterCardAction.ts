@@ -2,6 +2,10 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { MasterCardActionResponse } from "../Types/MasterCardAction";
 
 export default class MasterCardAction implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -19,15 +23,19 @@ export default class MasterCardAction implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {number} requestResponseId
-     * @returns {Promise<any>}
+     * @returns {Promise<MasterCardActionResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, masterCardActionId: number) {
+    public async get(
+        userId: number,
+        monetaryAccountId: number,
+        masterCardActionId: number
+    ): Promise<MasterCardActionResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/mastercard-action", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/mastercard-action/${masterCardActionId}`
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/mastercard-action/${masterCardActionId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -37,7 +45,7 @@ export default class MasterCardAction implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<any>}
+     * @returns {Promise<MasterCardActionResponse[]>}
      */
     public async list(
         userId: number,
@@ -47,7 +55,27 @@ export default class MasterCardAction implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<MasterCardActionResponse[]> {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<MasterCardActionResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<MasterCardActionResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -62,18 +90,47 @@ export default class MasterCardAction implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/mastercard-action", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/mastercard-action`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/mastercard-action`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<MasterCardActionResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<MasterCardActionResponse>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<MasterCardActionResponse> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<MasterCardActionResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<MasterCardActionResponse[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 }
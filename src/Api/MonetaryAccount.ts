@@ -2,6 +2,10 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { MonetaryAccountResponse } from "../Types/MonetaryAccount";
 
 export default class MonetaryAccount implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -18,13 +22,15 @@ export default class MonetaryAccount implements ApiEndpointInterface {
     /**
      *
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<MonetaryAccountResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, options: any = {}) {
+    public async get(userId: number, monetaryAccountId: number, options: any = {}): Promise<MonetaryAccountResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account/${monetaryAccountId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -33,7 +39,7 @@ export default class MonetaryAccount implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {MonetaryAccountListOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<MonetaryAccountResponse[]>}
      */
     public async list(
         userId: number,
@@ -42,7 +48,25 @@ export default class MonetaryAccount implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<MonetaryAccountResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {MonetaryAccountListOptions} options
+     * @returns {Promise<PaginatedResponse<MonetaryAccountResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 25,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<MonetaryAccountResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -57,18 +81,40 @@ export default class MonetaryAccount implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<MonetaryAccountResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<MonetaryAccountResponse>}
+     */
+    public iterate(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<MonetaryAccountResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<MonetaryAccountResponse[]>}
+     */
+    public async listAll(userId: number, options: PaginationIteratorOptions = {}): Promise<MonetaryAccountResponse[]> {
+        return collectAll(this.iterate(userId, options));
     }
 }
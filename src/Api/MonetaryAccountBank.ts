@@ -3,7 +3,13 @@ import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
 import AmountValue from "../Types/AmountValue";
+import Money, { toAmountValue } from "../Helpers/Money";
 import MonetaryAccountPutRequest from "../Types/MonetaryAccountPutRequest";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { MonetaryAccountBankResponse } from "../Types/MonetaryAccount";
+import IdResponse from "../Types/IdResponse";
 
 export default class MonetaryAccountBank implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -21,13 +27,19 @@ export default class MonetaryAccountBank implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountBankId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<MonetaryAccountBankResponse>}
      */
-    public async get(userId: number, monetaryAccountBankId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        monetaryAccountBankId: number,
+        options: any = {}
+    ): Promise<MonetaryAccountBankResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-bank", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account-bank/${monetaryAccountBankId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account-bank/${monetaryAccountBankId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -36,7 +48,7 @@ export default class MonetaryAccountBank implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<MonetaryAccountBankResponse[]>}
      */
     public async list(
         userId: number,
@@ -45,46 +57,114 @@ export default class MonetaryAccountBank implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<MonetaryAccountBankResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<MonetaryAccountBankResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 25,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<MonetaryAccountBankResponse>> {
+        const params: any = {};
+
+        if (options.count !== undefined) {
+            params.count = options.count;
+        }
+        if (options.newer_id !== false && options.newer_id !== undefined) {
+            params.newer_id = options.newer_id;
+        }
+        if (options.older_id !== false && options.older_id !== undefined) {
+            params.older_id = options.older_id;
+        }
+
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-bank", "LIST");
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(`/v1/user/${userId}/monetary-account-bank`));
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account-bank`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
+        );
 
-        return response.Response;
+        return new PaginatedResponse<MonetaryAccountBankResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<MonetaryAccountBankResponse>}
+     */
+    public iterate(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<MonetaryAccountBankResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<MonetaryAccountBankResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<MonetaryAccountBankResponse[]> {
+        return collectAll(this.iterate(userId, options));
     }
 
     /**
      * @param {number} userId
      * @param {string} currency
      * @param {string} description
-     * @param {AmountValue} dailyLimit
+     * @param {AmountValue | number | Money} dailyLimit
      * @param {string} color
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
         currency: string,
         description: string,
-        dailyLimit: AmountValue,
+        dailyLimit: AmountValue | number | Money,
         color: string,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-bank", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account-bank`, {
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account-bank`,
+            {
                 currency: currency,
                 description: description,
                 daily_limit: {
-                    value: dailyLimit + "",
+                    value: toAmountValue(dailyLimit),
                     currency: currency
                 },
                 setting: {
                     color: color,
                     default_avatar_status: "AVATAR_DEFAULT"
                 }
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -95,18 +175,21 @@ export default class MonetaryAccountBank implements ApiEndpointInterface {
      * @param {number} accountId
      * @param {monetaryAccountPutRequest} MonetaryAccountPutRequest
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         userId: number,
         accountId: number,
         monetaryAccountPutRequest: MonetaryAccountPutRequest,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-bank", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/monetary-account-bank/${accountId}`, monetaryAccountPutRequest)
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account-bank/${accountId}`,
+            monetaryAccountPutRequest,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -119,7 +202,7 @@ export default class MonetaryAccountBank implements ApiEndpointInterface {
      * @param {"REDEMPTION_VOLUNTARY"} sub_status
      * @param {string} reason
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async putCancel(
         userId: number,
@@ -128,16 +211,19 @@ export default class MonetaryAccountBank implements ApiEndpointInterface {
         sub_status: "REDEMPTION_VOLUNTARY",
         reason: string,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-bank", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/monetary-account-bank/${accountId}`, {
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account-bank/${accountId}`,
+            {
                 status: status,
                 sub_status: sub_status,
                 reason: "OTHER",
                 reason_description: reason
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -4,6 +4,11 @@ import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
 import Amount from "../Types/Amount";
 import MonetaryAccountPutRequest from "../Types/MonetaryAccountPutRequest";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { MonetaryAccountJointResponse } from "../Types/MonetaryAccount";
+import IdResponse from "../Types/IdResponse";
 
 export default class MonetaryAccountJoint implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -21,13 +26,19 @@ export default class MonetaryAccountJoint implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountJointId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<MonetaryAccountJointResponse>}
      */
-    public async get(userId: number, monetaryAccountJointId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        monetaryAccountJointId: number,
+        options: any = {}
+    ): Promise<MonetaryAccountJointResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-joint", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account-joint/${monetaryAccountJointId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account-joint/${monetaryAccountJointId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -36,7 +47,7 @@ export default class MonetaryAccountJoint implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<MonetaryAccountJointResponse[]>}
      */
     public async list(
         userId: number,
@@ -45,14 +56,77 @@ export default class MonetaryAccountJoint implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<MonetaryAccountJointResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<MonetaryAccountJointResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 25,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<MonetaryAccountJointResponse>> {
+        const params: any = {};
+
+        if (options.count !== undefined) {
+            params.count = options.count;
+        }
+        if (options.newer_id !== false && options.newer_id !== undefined) {
+            params.newer_id = options.newer_id;
+        }
+        if (options.older_id !== false && options.older_id !== undefined) {
+            params.older_id = options.older_id;
+        }
+
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-joint", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account-joint`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account-joint`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<MonetaryAccountJointResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<MonetaryAccountJointResponse>}
+     */
+    public iterate(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<MonetaryAccountJointResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<MonetaryAccountJointResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<MonetaryAccountJointResponse[]> {
+        return collectAll(this.iterate(userId, options));
     }
 
     /**
@@ -60,18 +134,21 @@ export default class MonetaryAccountJoint implements ApiEndpointInterface {
      * @param {number} accountId
      * @param {monetaryAccountPutRequest} MonetaryAccountPutRequest
      * @param op¶tions
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         userId: number,
         accountId: number,
         monetaryAccountPutRequest: MonetaryAccountPutRequest,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-joint", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/monetary-account-joint/${accountId}`, monetaryAccountPutRequest)
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account-joint/${accountId}`,
+            monetaryAccountPutRequest,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -3,7 +3,13 @@ import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
 import AmountValue from "../Types/AmountValue";
+import Money, { toAmountValue } from "../Helpers/Money";
 import MonetaryAccountPutRequest from "../Types/MonetaryAccountPutRequest";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { MonetaryAccountSavingsResponse } from "../Types/MonetaryAccount";
+import IdResponse from "../Types/IdResponse";
 
 export default class MonetaryAccountSavings implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -21,13 +27,19 @@ export default class MonetaryAccountSavings implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountSavingsId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<MonetaryAccountSavingsResponse>}
      */
-    public async get(userId: number, monetaryAccountSavingsId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        monetaryAccountSavingsId: number,
+        options: any = {}
+    ): Promise<MonetaryAccountSavingsResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-savings", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account-savings/${monetaryAccountSavingsId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account-savings/${monetaryAccountSavingsId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -36,7 +48,7 @@ export default class MonetaryAccountSavings implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<MonetaryAccountSavingsResponse[]>}
      */
     public async list(
         userId: number,
@@ -45,42 +57,105 @@ export default class MonetaryAccountSavings implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<MonetaryAccountSavingsResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<MonetaryAccountSavingsResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 25,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<MonetaryAccountSavingsResponse>> {
+        const params: any = {};
+
+        if (options.count !== undefined) {
+            params.count = options.count;
+        }
+        if (options.newer_id !== false && options.newer_id !== undefined) {
+            params.newer_id = options.newer_id;
+        }
+        if (options.older_id !== false && options.older_id !== undefined) {
+            params.older_id = options.older_id;
+        }
+
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-savings", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account-savings`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account-savings`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<MonetaryAccountSavingsResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<MonetaryAccountSavingsResponse>}
+     */
+    public iterate(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<MonetaryAccountSavingsResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<MonetaryAccountSavingsResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<MonetaryAccountSavingsResponse[]> {
+        return collectAll(this.iterate(userId, options));
     }
 
     /**
      * @param {number} userId
      * @param {string} currency
      * @param {string} description
-     * @param {AmountValue} dailyLimit
+     * @param {AmountValue | number | Money} dailyLimit
      * @param {string} color
-     * @param {AmountValue} savingsGoal
+     * @param {AmountValue | number | Money} savingsGoal
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
         currency: string,
         description: string,
-        dailyLimit: AmountValue,
+        dailyLimit: AmountValue | number | Money,
         color: string,
-        savingsGoal: AmountValue,
+        savingsGoal: AmountValue | number | Money,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-savings", "POST");
 
         const requestBody = {
             currency: currency,
             description: description,
             daily_limit: {
-                value: dailyLimit + "",
+                value: toAmountValue(dailyLimit),
                 currency: currency
             },
             setting: {
@@ -89,12 +164,15 @@ export default class MonetaryAccountSavings implements ApiEndpointInterface {
             },
             savings_goal: {
                 currency: currency,
-                value: savingsGoal + ""
+                value: toAmountValue(savingsGoal)
             }
         };
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account-savings`, requestBody)
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account-savings`,
+            requestBody,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -105,18 +183,21 @@ export default class MonetaryAccountSavings implements ApiEndpointInterface {
      * @param {number} accountId
      * @param {monetaryAccountPutRequest} MonetaryAccountPutRequest
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         userId: number,
         accountId: number,
         monetaryAccountPutRequest: MonetaryAccountPutRequest,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-savings", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/monetary-account-savings/${accountId}`, monetaryAccountPutRequest)
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account-savings/${accountId}`,
+            monetaryAccountPutRequest,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -129,7 +210,7 @@ export default class MonetaryAccountSavings implements ApiEndpointInterface {
      * @param {"REDEMPTION_VOLUNTARY"} sub_status
      * @param {string} reason
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async putCancel(
         userId: number,
@@ -138,16 +219,19 @@ export default class MonetaryAccountSavings implements ApiEndpointInterface {
         sub_status: "REDEMPTION_VOLUNTARY",
         reason: string,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account-savings", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/monetary-account-savings/${accountId}`, {
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account-savings/${accountId}`,
+            {
                 status: status,
                 sub_status: sub_status,
                 reason: "OTHER",
                 reason_description: reason
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -2,6 +2,10 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import NoteEventType from "../Types/NoteEventType";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import { NoteAttachmentResponse } from "../Types/Note";
+import IdResponse from "../Types/IdResponse";
 
 export default class NoteAttachment implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -45,7 +49,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
      * @param {number} noteTextId
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<NoteAttachmentResponse>}
      */
     public async get(
         eventType: NoteEventType,
@@ -55,7 +59,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
         noteTextId: number,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<NoteAttachmentResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create(`/${eventType}/note-attachment`);
 
         // default base
@@ -68,7 +72,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
             secondaryEventId
         )}/note-attachment/${noteTextId}`;
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(fullEndpoint));
+        const response = await this.ApiAdapter.get(fullEndpoint, {}, { limiter: limiter });
 
         return response.Response[0];
     }
@@ -80,7 +84,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
      * @param {number} eventId
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<NoteAttachmentResponse[]>}
      */
     public async list(
         eventType: NoteEventType,
@@ -89,7 +93,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
         eventId: number,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<NoteAttachmentResponse[]> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -114,19 +118,65 @@ export default class NoteAttachment implements ApiEndpointInterface {
             secondaryEventId
         )}/note-attachment`;
 
-        const response = await limiter.run(
-            async () => this.ApiAdapter.get(fullEndpoint),
+        const response = await this.ApiAdapter.get(
+            fullEndpoint,
             {},
             {
                 axiosOptions: {
                     params: params
-                }
+                },
+                limiter: limiter
             }
         );
 
         return response.Response;
     }
 
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {NoteEventType} eventType
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {number} eventId
+     * @param {false | number} secondaryEventId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<NoteAttachmentResponse>}
+     */
+    public iterate(
+        eventType: NoteEventType,
+        userId: number,
+        monetaryAccountId: number,
+        eventId: number,
+        secondaryEventId: false | number = false,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<NoteAttachmentResponse> {
+        return paginate(
+            pageOptions => this.list(eventType, userId, monetaryAccountId, eventId, secondaryEventId, pageOptions),
+            options
+        );
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {NoteEventType} eventType
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {number} eventId
+     * @param {false | number} secondaryEventId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<NoteAttachmentResponse[]>}
+     */
+    public async listAll(
+        eventType: NoteEventType,
+        userId: number,
+        monetaryAccountId: number,
+        eventId: number,
+        secondaryEventId: false | number = false,
+        options: PaginationIteratorOptions = {}
+    ): Promise<NoteAttachmentResponse[]> {
+        return collectAll(this.iterate(eventType, userId, monetaryAccountId, eventId, secondaryEventId, options));
+    }
+
     /**
      * @param {NoteEventType} eventType
      * @param {number} userId
@@ -136,7 +186,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
      * @param {false | string} description
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         eventType: NoteEventType,
@@ -147,7 +197,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
         description: false | string = false,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create(`/${eventType}/note-attachment`, "POST");
 
         // default base
@@ -166,7 +216,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
         };
         if (description) bodyData.description = description;
 
-        const response = await limiter.run(async () => this.ApiAdapter.post(fullEndpoint, bodyData));
+        const response = await this.ApiAdapter.post(fullEndpoint, bodyData, {}, { limiter: limiter });
 
         return response.Response;
     }
@@ -181,7 +231,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
      * @param {false | string} description
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         eventType: NoteEventType,
@@ -193,7 +243,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
         description: false | string = false,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create(`/${eventType}/note-attachment`, "PUT");
 
         // default base
@@ -212,7 +262,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
         };
         if (description) bodyData.description = description;
 
-        const response = await limiter.run(async () => this.ApiAdapter.put(fullEndpoint, bodyData));
+        const response = await this.ApiAdapter.put(fullEndpoint, bodyData, {}, { limiter: limiter });
 
         return response.Response;
     }
@@ -248,7 +298,7 @@ export default class NoteAttachment implements ApiEndpointInterface {
             secondaryEventId
         )}/note-attachment/${noteTextId}`;
 
-        const response = await limiter.run(async () => this.ApiAdapter.delete(fullEndpoint));
+        const response = await this.ApiAdapter.delete(fullEndpoint, {}, { limiter: limiter });
 
         return response.Response;
     }
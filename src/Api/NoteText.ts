@@ -2,6 +2,10 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import NoteEventType from "../Types/NoteEventType";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import { NoteTextResponse } from "../Types/Note";
+import IdResponse from "../Types/IdResponse";
 
 export default class NoteText implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -45,7 +49,7 @@ export default class NoteText implements ApiEndpointInterface {
      * @param {number} noteTextId
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<NoteTextResponse>}
      */
     public async get(
         eventType: NoteEventType,
@@ -55,7 +59,7 @@ export default class NoteText implements ApiEndpointInterface {
         noteTextId: number,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<NoteTextResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create(`/${eventType}/note-text`);
 
         // default base
@@ -68,7 +72,7 @@ export default class NoteText implements ApiEndpointInterface {
             secondaryEventId
         )}/note-text/${noteTextId}`;
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(fullEndpoint));
+        const response = await this.ApiAdapter.get(fullEndpoint, {}, { limiter: limiter });
 
         return response.Response[0];
     }
@@ -80,7 +84,7 @@ export default class NoteText implements ApiEndpointInterface {
      * @param {number} eventId
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<NoteTextResponse[]>}
      */
     public async list(
         eventType: NoteEventType,
@@ -89,7 +93,7 @@ export default class NoteText implements ApiEndpointInterface {
         eventId: number,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<NoteTextResponse[]> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -110,19 +114,65 @@ export default class NoteText implements ApiEndpointInterface {
         // full endpoint url
         const fullEndpoint = `${endpointBase}/${this.createEndpoint(eventType, eventId, secondaryEventId)}/note-text`;
 
-        const response = await limiter.run(
-            async () => this.ApiAdapter.get(fullEndpoint),
+        const response = await this.ApiAdapter.get(
+            fullEndpoint,
             {},
             {
                 axiosOptions: {
                     params: params
-                }
+                },
+                limiter: limiter
             }
         );
 
         return response.Response;
     }
 
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {NoteEventType} eventType
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {number} eventId
+     * @param {false | number} secondaryEventId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<NoteTextResponse>}
+     */
+    public iterate(
+        eventType: NoteEventType,
+        userId: number,
+        monetaryAccountId: number,
+        eventId: number,
+        secondaryEventId: false | number = false,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<NoteTextResponse> {
+        return paginate(
+            pageOptions => this.list(eventType, userId, monetaryAccountId, eventId, secondaryEventId, pageOptions),
+            options
+        );
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {NoteEventType} eventType
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {number} eventId
+     * @param {false | number} secondaryEventId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<NoteTextResponse[]>}
+     */
+    public async listAll(
+        eventType: NoteEventType,
+        userId: number,
+        monetaryAccountId: number,
+        eventId: number,
+        secondaryEventId: false | number = false,
+        options: PaginationIteratorOptions = {}
+    ): Promise<NoteTextResponse[]> {
+        return collectAll(this.iterate(eventType, userId, monetaryAccountId, eventId, secondaryEventId, options));
+    }
+
     /**
      * @param {NoteEventType} eventType
      * @param {number} userId
@@ -131,7 +181,7 @@ export default class NoteText implements ApiEndpointInterface {
      * @param {string} content
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         eventType: NoteEventType,
@@ -141,7 +191,7 @@ export default class NoteText implements ApiEndpointInterface {
         content: string,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create(`/${eventType}/note-text`, "POST");
 
         // default base
@@ -150,10 +200,13 @@ export default class NoteText implements ApiEndpointInterface {
         // full endpoint url
         const fullEndpoint = `${endpointBase}/${this.createEndpoint(eventType, eventId, secondaryEventId)}/note-text`;
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(fullEndpoint, {
+        const response = await this.ApiAdapter.post(
+            fullEndpoint,
+            {
                 content: content
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -168,7 +221,7 @@ export default class NoteText implements ApiEndpointInterface {
      * @param {string} content
      * @param {false | number} secondaryEventId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         eventType: NoteEventType,
@@ -179,7 +232,7 @@ export default class NoteText implements ApiEndpointInterface {
         content: string,
         secondaryEventId: false | number = false,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create(`/${eventType}/note-text`, "PUT");
 
         // default base
@@ -192,10 +245,13 @@ export default class NoteText implements ApiEndpointInterface {
             secondaryEventId
         )}/note-text/${noteTextId}`;
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(fullEndpoint, {
+        const response = await this.ApiAdapter.put(
+            fullEndpoint,
+            {
                 content: content
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -232,7 +288,7 @@ export default class NoteText implements ApiEndpointInterface {
             secondaryEventId
         )}/note-text/${noteTextId}`;
 
-        const response = await limiter.run(async () => this.ApiAdapter.delete(fullEndpoint));
+        const response = await this.ApiAdapter.delete(fullEndpoint, {}, { limiter: limiter });
 
         return response.Response;
     }
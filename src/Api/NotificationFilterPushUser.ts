@@ -0,0 +1,99 @@
+import ApiAdapter from "../ApiAdapter";
+import Session from "../Session";
+import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import { NotificationFilterPushObject, NotificationFilterPushResponse } from "../Types/NotificationFilterPush";
+import {
+    getNotificationFilters,
+    mergeNotificationFilters,
+    removeNotificationFilters
+} from "../Helpers/NotificationFilters";
+
+export default class NotificationFilterPushUser implements ApiEndpointInterface {
+    ApiAdapter: ApiAdapter;
+    Session: Session;
+
+    /**
+     * @param {ApiAdapter} ApiAdapter
+     */
+    constructor(ApiAdapter: ApiAdapter) {
+        this.ApiAdapter = ApiAdapter;
+        this.Session = ApiAdapter.Session;
+    }
+
+    /**
+     * @param {number} userId
+     * @param options
+     * @returns {Promise<NotificationFilterPushResponse[]>}
+     */
+    public async list(userId: number, options: any = {}): Promise<NotificationFilterPushResponse[]> {
+        const limiter = this.ApiAdapter.RequestLimitFactory.create("/notification-filter-push", "LIST");
+
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/notification-filter-push`,
+            {},
+            { limiter: limiter }
+        );
+
+        return response.Response;
+    }
+
+    /**
+     * Replaces all push notification filters for the user, an empty list removes all filters
+     * @param {number} userId
+     * @param {NotificationFilterPushObject[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterPushResponse[]>}
+     */
+    public async replace(
+        userId: number,
+        notificationFilters: NotificationFilterPushObject[],
+        options: any = {}
+    ): Promise<NotificationFilterPushResponse[]> {
+        const limiter = this.ApiAdapter.RequestLimitFactory.create("/notification-filter-push", "POST");
+
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/notification-filter-push`,
+            {
+                notification_filters: notificationFilters
+            },
+            {},
+            { limiter: limiter }
+        );
+
+        return response.Response;
+    }
+
+    /**
+     * Adds the filters to the existing filters
+     * @param {number} userId
+     * @param {NotificationFilterPushObject[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterPushResponse[]>}
+     */
+    public async add(
+        userId: number,
+        notificationFilters: NotificationFilterPushObject[],
+        options: any = {}
+    ): Promise<NotificationFilterPushResponse[]> {
+        const existingFilters = getNotificationFilters<NotificationFilterPushObject>(await this.list(userId));
+
+        return this.replace(userId, mergeNotificationFilters(existingFilters, notificationFilters));
+    }
+
+    /**
+     * Removes the matching filters
+     * @param {number} userId
+     * @param {NotificationFilterPushObject[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterPushResponse[]>}
+     */
+    public async remove(
+        userId: number,
+        notificationFilters: NotificationFilterPushObject[],
+        options: any = {}
+    ): Promise<NotificationFilterPushResponse[]> {
+        const existingFilters = getNotificationFilters<NotificationFilterPushObject>(await this.list(userId));
+
+        return this.replace(userId, removeNotificationFilters(existingFilters, notificationFilters));
+    }
+}
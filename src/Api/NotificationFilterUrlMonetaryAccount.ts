@@ -0,0 +1,115 @@
+import ApiAdapter from "../ApiAdapter";
+import Session from "../Session";
+import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import { NotificationFilterUrlObject, NotificationFilterUrlResponse } from "../Types/NotificationFilterUrl";
+import {
+    getNotificationFilters,
+    mergeNotificationFilters,
+    NotificationFilterMatch,
+    removeNotificationFilters
+} from "../Helpers/NotificationFilters";
+
+export default class NotificationFilterUrlMonetaryAccount implements ApiEndpointInterface {
+    ApiAdapter: ApiAdapter;
+    Session: Session;
+
+    /**
+     * @param {ApiAdapter} ApiAdapter
+     */
+    constructor(ApiAdapter: ApiAdapter) {
+        this.ApiAdapter = ApiAdapter;
+        this.Session = ApiAdapter.Session;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async list(
+        userId: number,
+        monetaryAccountId: number,
+        options: any = {}
+    ): Promise<NotificationFilterUrlResponse[]> {
+        const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account/notification-filter-url", "LIST");
+
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/notification-filter-url`,
+            {},
+            { limiter: limiter }
+        );
+
+        return response.Response;
+    }
+
+    /**
+     * Replaces all URL notification filters for the monetary account, an empty list removes all filters
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {NotificationFilterUrlObject[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async replace(
+        userId: number,
+        monetaryAccountId: number,
+        notificationFilters: NotificationFilterUrlObject[],
+        options: any = {}
+    ): Promise<NotificationFilterUrlResponse[]> {
+        const limiter = this.ApiAdapter.RequestLimitFactory.create("/monetary-account/notification-filter-url", "POST");
+
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/notification-filter-url`,
+            {
+                notification_filters: notificationFilters
+            },
+            {},
+            { limiter: limiter }
+        );
+
+        return response.Response;
+    }
+
+    /**
+     * Adds the filters to the existing filters
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {NotificationFilterUrlObject[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async add(
+        userId: number,
+        monetaryAccountId: number,
+        notificationFilters: NotificationFilterUrlObject[],
+        options: any = {}
+    ): Promise<NotificationFilterUrlResponse[]> {
+        const existingFilters = getNotificationFilters<NotificationFilterUrlObject>(
+            await this.list(userId, monetaryAccountId)
+        );
+
+        return this.replace(userId, monetaryAccountId, mergeNotificationFilters(existingFilters, notificationFilters));
+    }
+
+    /**
+     * Removes the matching filters, filters without a notification_target remove all targets for that category
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {NotificationFilterMatch[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async remove(
+        userId: number,
+        monetaryAccountId: number,
+        notificationFilters: NotificationFilterMatch[],
+        options: any = {}
+    ): Promise<NotificationFilterUrlResponse[]> {
+        const existingFilters = getNotificationFilters<NotificationFilterUrlObject>(
+            await this.list(userId, monetaryAccountId)
+        );
+
+        return this.replace(userId, monetaryAccountId, removeNotificationFilters(existingFilters, notificationFilters));
+    }
+}
@@ -0,0 +1,100 @@
+import ApiAdapter from "../ApiAdapter";
+import Session from "../Session";
+import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import { NotificationFilterUrlObject, NotificationFilterUrlResponse } from "../Types/NotificationFilterUrl";
+import {
+    getNotificationFilters,
+    mergeNotificationFilters,
+    NotificationFilterMatch,
+    removeNotificationFilters
+} from "../Helpers/NotificationFilters";
+
+export default class NotificationFilterUrlUser implements ApiEndpointInterface {
+    ApiAdapter: ApiAdapter;
+    Session: Session;
+
+    /**
+     * @param {ApiAdapter} ApiAdapter
+     */
+    constructor(ApiAdapter: ApiAdapter) {
+        this.ApiAdapter = ApiAdapter;
+        this.Session = ApiAdapter.Session;
+    }
+
+    /**
+     * @param {number} userId
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async list(userId: number, options: any = {}): Promise<NotificationFilterUrlResponse[]> {
+        const limiter = this.ApiAdapter.RequestLimitFactory.create("/notification-filter-url", "LIST");
+
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/notification-filter-url`,
+            {},
+            { limiter: limiter }
+        );
+
+        return response.Response;
+    }
+
+    /**
+     * Replaces all URL notification filters for the user, an empty list removes all filters
+     * @param {number} userId
+     * @param {NotificationFilterUrlObject[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async replace(
+        userId: number,
+        notificationFilters: NotificationFilterUrlObject[],
+        options: any = {}
+    ): Promise<NotificationFilterUrlResponse[]> {
+        const limiter = this.ApiAdapter.RequestLimitFactory.create("/notification-filter-url", "POST");
+
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/notification-filter-url`,
+            {
+                notification_filters: notificationFilters
+            },
+            {},
+            { limiter: limiter }
+        );
+
+        return response.Response;
+    }
+
+    /**
+     * Adds the filters to the existing filters
+     * @param {number} userId
+     * @param {NotificationFilterUrlObject[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async add(
+        userId: number,
+        notificationFilters: NotificationFilterUrlObject[],
+        options: any = {}
+    ): Promise<NotificationFilterUrlResponse[]> {
+        const existingFilters = getNotificationFilters<NotificationFilterUrlObject>(await this.list(userId));
+
+        return this.replace(userId, mergeNotificationFilters(existingFilters, notificationFilters));
+    }
+
+    /**
+     * Removes the matching filters, filters without a notification_target remove all targets for that category
+     * @param {number} userId
+     * @param {NotificationFilterMatch[]} notificationFilters
+     * @param options
+     * @returns {Promise<NotificationFilterUrlResponse[]>}
+     */
+    public async remove(
+        userId: number,
+        notificationFilters: NotificationFilterMatch[],
+        options: any = {}
+    ): Promise<NotificationFilterUrlResponse[]> {
+        const existingFilters = getNotificationFilters<NotificationFilterUrlObject>(await this.list(userId));
+
+        return this.replace(userId, removeNotificationFilters(existingFilters, notificationFilters));
+    }
+}
@@ -2,8 +2,15 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import Amount from "../Types/Amount";
+import Money, { toAmount } from "../Helpers/Money";
+import { validateCounterpartyAlias } from "../Helpers/AliasValidator";
 import CounterpartyAlias from "../Types/CounterpartyAlias";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { PaymentResponse } from "../Types/Payment";
+import IdResponse from "../Types/IdResponse";
 
 export default class Payment implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -22,13 +29,20 @@ export default class Payment implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {number} paymentId
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<PaymentResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, paymentId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        monetaryAccountId: number,
+        paymentId: number,
+        options: any = {}
+    ): Promise<PaymentResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/payment");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment/${paymentId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment/${paymentId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -38,7 +52,7 @@ export default class Payment implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<PaymentResponse[]>}
      */
     public async list(
         userId: number,
@@ -48,7 +62,27 @@ export default class Payment implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<PaymentResponse[]> {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<PaymentResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<PaymentResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -63,46 +97,90 @@ export default class Payment implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/payment", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<PaymentResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<PaymentResponse>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<PaymentResponse> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<PaymentResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<PaymentResponse[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {string} description
-     * @param {Amount} amount
+     * @param {Amount | Money} amount
      * @param {CounterpartyAlias} counterpartyAlias
-     * @param options
-     * @returns {Promise<void>}
+     * @param options - set idempotencyKey to make sure the request is only processed once, even when sent again,
+     *                  the key is only used as merchant_reference when the options don't contain one
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
         monetaryAccountId: number,
         description: string,
-        amount: Amount,
+        amount: Amount | Money,
         counterpartyAlias: CounterpartyAlias,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
+        validateCounterpartyAlias(counterpartyAlias);
+
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/payment", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment`, {
-                counterparty_alias: counterpartyAlias,
-                description: description,
-                amount: amount
-            })
+        const url = `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment`;
+        const idempotencyKey = options.idempotencyKey || false;
+        // an existing merchant reference is used to find an earlier attempt instead of the idempotency key
+        const merchantReference = options.merchant_reference || idempotencyKey;
+        const requestObject: any = {
+            counterparty_alias: counterpartyAlias,
+            description: description,
+            amount: toAmount(amount)
+        };
+        if (merchantReference !== false) requestObject.merchant_reference = merchantReference;
+
+        const response = await this.ApiAdapter.IdempotencyHandler.send(
+            idempotencyKey,
+            merchantReference,
+            url,
+            requestObject,
+            searchOptions => this.listAll(userId, monetaryAccountId, searchOptions),
+            headers => this.ApiAdapter.post(url, requestObject, headers, { limiter: limiter })
         );
 
         return response.Response;
@@ -2,8 +2,15 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import Amount from "../Types/Amount";
+import Money, { toAmount } from "../Helpers/Money";
+import { validateCounterpartyAlias } from "../Helpers/AliasValidator";
 import CounterPartyAliasCollection from "../Types/CounterPartyAliasCollection";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { PaymentBatchResponse } from "../Types/PaymentBatch";
+import IdResponse from "../Types/IdResponse";
 
 export default class PaymentBatch implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -22,13 +29,20 @@ export default class PaymentBatch implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {number} paymentId
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<PaymentBatchResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, paymentId: number, options: any = {}) {
+    public async get(
+        userId: number,
+        monetaryAccountId: number,
+        paymentId: number,
+        options: any = {}
+    ): Promise<PaymentBatchResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/payment-batch");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch/${paymentId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch/${paymentId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -38,7 +52,7 @@ export default class PaymentBatch implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<PaymentBatchResponse[]>}
      */
     public async list(
         userId: number,
@@ -48,7 +62,27 @@ export default class PaymentBatch implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<PaymentBatchResponse[]> {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<PaymentBatchResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<PaymentBatchResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -63,52 +97,96 @@ export default class PaymentBatch implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/payment-batch", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<PaymentBatchResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<PaymentBatchResponse>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<PaymentBatchResponse> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<PaymentBatchResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<PaymentBatchResponse[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {string} description
-     * @param {Amount} amount
+     * @param {Amount | Money} amount
      * @param {CounterPartyAliasCollection} counterpartyAliasCollection
-     * @param options
-     * @returns {Promise<void>}
+     * @param options - set idempotencyKey to make sure the request is only processed once, even when sent again,
+     *                  the key is only used as merchant_reference when the options don't contain one
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
         monetaryAccountId: number,
         description: string,
-        amount: Amount,
+        amount: Amount | Money,
         counterpartyAliasCollection: CounterPartyAliasCollection,
         options: any = {}
-    ) {
+    ): Promise<IdResponse[]> {
+        validateCounterpartyAlias(counterpartyAliasCollection);
+
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/payment-batch", "POST");
 
+        const url = `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch`;
+        const idempotencyKey = options.idempotencyKey || false;
+        // an existing merchant reference is used to find an earlier attempt instead of the idempotency key
+        const merchantReference = options.merchant_reference || idempotencyKey;
+
+        const bunqAmount = toAmount(amount);
         const payments = counterpartyAliasCollection.map(counterpartyAlias => {
-            return {
+            const payment: any = {
                 counterparty_alias: counterpartyAlias,
                 description: description,
-                amount: amount
+                amount: bunqAmount
             };
+            if (merchantReference !== false) payment.merchant_reference = merchantReference;
+            return payment;
         });
-
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch`, {
-                payments: payments
-            })
+        const requestObject = { payments: payments };
+
+        const response = await this.ApiAdapter.IdempotencyHandler.send(
+            idempotencyKey,
+            merchantReference,
+            url,
+            requestObject,
+            searchOptions => this.listAll(userId, monetaryAccountId, searchOptions),
+            headers => this.ApiAdapter.post(url, requestObject, headers, { limiter: limiter })
         );
 
         return response.Response;
@@ -121,15 +199,23 @@ export default class PaymentBatch implements ApiEndpointInterface {
      * @param {Amount} amount
      * @param {CounterPartyAliasCollection} counterpartyAliasCollection
      * @param options
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
-    public async postRaw(userId: number, monetaryAccountId: number, payments: any[], options: any = {}) {
+    public async postRaw(
+        userId: number,
+        monetaryAccountId: number,
+        payments: any[],
+        options: any = {}
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/payment-batch", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch`, {
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/payment-batch`,
+            {
                 payments: payments
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
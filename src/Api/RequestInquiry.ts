@@ -2,9 +2,15 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import Amount from "../Types/Amount";
+import Money, { toAmount } from "../Helpers/Money";
+import { validateCounterpartyAlias } from "../Helpers/AliasValidator";
 import CounterpartyAlias from "../Types/CounterpartyAlias";
 import PaginationOptions from "../Types/PaginationOptions";
 import RequestInquiryPostOptions from "../Types/RequestInquiryPostOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { RequestInquiryResponse } from "../Types/RequestInquiry";
 
 export default class RequestInquiry implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -22,15 +28,19 @@ export default class RequestInquiry implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {number} requestInquiryId
-     * @returns {Promise<any>}
+     * @returns {Promise<RequestInquiryResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, requestInquiryId: number) {
+    public async get(
+        userId: number,
+        monetaryAccountId: number,
+        requestInquiryId: number
+    ): Promise<RequestInquiryResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry/${requestInquiryId}`
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry/${requestInquiryId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -40,7 +50,7 @@ export default class RequestInquiry implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<RequestInquiryResponse[]>}
      */
     public async list(
         userId: number,
@@ -50,7 +60,27 @@ export default class RequestInquiry implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<RequestInquiryResponse[]> {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<RequestInquiryResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<RequestInquiryResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -65,26 +95,55 @@ export default class RequestInquiry implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<RequestInquiryResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<RequestInquiryResponse>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<RequestInquiryResponse> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<RequestInquiryResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<RequestInquiryResponse[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {string} description
-     * @param {Amount} amount_inquired
+     * @param {Amount | Money} amount_inquired
      * @param {CounterpartyAlias} counterpartyAlias
      * @param {RequestInquiryPostOptions} options
      * @returns {Promise<void>}
@@ -93,10 +152,12 @@ export default class RequestInquiry implements ApiEndpointInterface {
         userId: number,
         monetaryAccountId: number,
         description: string,
-        amount_inquired: Amount,
+        amount_inquired: Amount | Money,
         counterpartyAlias: CounterpartyAlias,
         options: RequestInquiryPostOptions = {}
     ) {
+        validateCounterpartyAlias(counterpartyAlias);
+
         const defaultOptions = {
             status: false,
             minimum_age: false,
@@ -110,7 +171,7 @@ export default class RequestInquiry implements ApiEndpointInterface {
         const requestOptions: any = {
             counterparty_alias: counterpartyAlias,
             description: description,
-            amount_inquired: amount_inquired,
+            amount_inquired: toAmount(amount_inquired),
             allow_bunqme: defaultOptions.allow_bunqme,
             require_address: defaultOptions.require_address
         };
@@ -133,11 +194,11 @@ export default class RequestInquiry implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry`,
-                requestOptions
-            )
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry`,
+            requestOptions,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -153,13 +214,13 @@ export default class RequestInquiry implements ApiEndpointInterface {
     public async put(userId: number, monetaryAccountId: number, requestInquiryId: number, status: string = "REVOKED") {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry/${requestInquiryId}`,
-                {
-                    status: status
-                }
-            )
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry/${requestInquiryId}`,
+            {
+                status: status
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
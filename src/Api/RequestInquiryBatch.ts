@@ -2,10 +2,14 @@ import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import Amount from "../Types/Amount";
+import Money from "../Helpers/Money";
 import CounterpartyAlias from "../Types/CounterpartyAlias";
 import PaginationOptions from "../Types/PaginationOptions";
 import RequestInquiryPostOptions from "../Types/RequestInquiryPostOptions";
 import CounterPartyAliasCollection from "../Types/CounterPartyAliasCollection";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
 
 export default class RequestInquiryBatch implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -28,10 +32,10 @@ export default class RequestInquiryBatch implements ApiEndpointInterface {
     public async get(userId: number, monetaryAccountId: number, requestInquiryId: number) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry-batch", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch/${requestInquiryId}`
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch/${requestInquiryId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -52,6 +56,26 @@ export default class RequestInquiryBatch implements ApiEndpointInterface {
             older_id: false
         }
     ) {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -66,19 +90,48 @@ export default class RequestInquiryBatch implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry-batch", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<any>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<any> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<any[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<any[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
@@ -101,7 +154,6 @@ export default class RequestInquiryBatch implements ApiEndpointInterface {
         const requestData: any = {
             total_amount_inquired: 0
         };
-        let totalAmountInquired = 0;
         if (status !== false) {
             requestData.status = status;
         }
@@ -116,27 +168,23 @@ export default class RequestInquiryBatch implements ApiEndpointInterface {
                 }
             }
 
-            // update the total amount
-            totalAmountInquired += parseFloat(requestInquiry.amount_inquired.value);
-
             // inquiry is valid, add to the list
             requestInquiryList.push(requestInquiry);
         });
 
         // add the list of request inquiries to this batch and set the total amount
         requestData.request_inquiries = requestInquiries;
-        requestData.total_amount_inquired = {
-            value: totalAmountInquired + "",
-            currency: "EUR"
-        };
+        requestData.total_amount_inquired = Money.sum(
+            requestInquiries.map(requestInquiry => requestInquiry.amount_inquired)
+        ).toAmount();
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry-batch", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch`,
-                requestData
-            )
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch`,
+            requestData,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -152,13 +200,13 @@ export default class RequestInquiryBatch implements ApiEndpointInterface {
     public async put(userId: number, monetaryAccountId: number, requestInquiryId: number, status: string = "REVOKED") {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-inquiry-batch", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch/${requestInquiryId}`,
-                {
-                    status: status
-                }
-            )
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-inquiry-batch/${requestInquiryId}`,
+            {
+                status: status
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -3,6 +3,11 @@ import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaginationOptions from "../Types/PaginationOptions";
 import RequestResponsePutOptions from "../Types/RequestResponsePutOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import { RequestResponseResponse } from "../Types/RequestResponse";
+import IdResponse from "../Types/IdResponse";
 
 export default class RequestResponse implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -20,15 +25,19 @@ export default class RequestResponse implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {number} requestResponseId
-     * @returns {Promise<any>}
+     * @returns {Promise<RequestResponseResponse>}
      */
-    public async get(userId: number, monetaryAccountId: number, requestResponseId: number) {
+    public async get(
+        userId: number,
+        monetaryAccountId: number,
+        requestResponseId: number
+    ): Promise<RequestResponseResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-response", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-response/${requestResponseId}`
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-response/${requestResponseId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -38,7 +47,7 @@ export default class RequestResponse implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} monetaryAccountId
      * @param {PaginationOptions} options
-     * @returns {Promise<any>}
+     * @returns {Promise<RequestResponseResponse[]>}
      */
     public async list(
         userId: number,
@@ -48,7 +57,27 @@ export default class RequestResponse implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<RequestResponseResponse[]> {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<RequestResponseResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<RequestResponseResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -63,19 +92,48 @@ export default class RequestResponse implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-response", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-response`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-response`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<RequestResponseResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<RequestResponseResponse>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<RequestResponseResponse> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<RequestResponseResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<RequestResponseResponse[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
@@ -84,7 +142,7 @@ export default class RequestResponse implements ApiEndpointInterface {
      * @param {number} requestResponseId
      * @param {"ACCEPTED" | "REJECTED"} status
      * @param {RequestResponsePutOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         userId: number,
@@ -92,7 +150,7 @@ export default class RequestResponse implements ApiEndpointInterface {
         requestResponseId: number,
         status: "ACCEPTED" | "REJECTED",
         options: RequestResponsePutOptions = {}
-    ) {
+    ): Promise<IdResponse[]> {
         const defaultOptions = {
             status: status,
             amount_responded: false,
@@ -118,11 +176,11 @@ export default class RequestResponse implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/request-response", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-response/${requestResponseId}`,
-                requestOptions
-            )
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/request-response/${requestResponseId}`,
+            requestOptions,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -1,6 +1,7 @@
 import ApiAdapter from "../ApiAdapter";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
-import Session, { URL_ENVIROMENTS } from "../Session";
+import Session from "../Session";
+import { ENVIRONMENTS, getEnvironment } from "../Helpers/Environments";
 
 export default class SandboxUser implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -21,19 +22,22 @@ export default class SandboxUser implements ApiEndpointInterface {
     public async post(options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/sandbox-user", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `${URL_ENVIROMENTS.SANDBOX}/v1/sandbox-user`,
-                {},
-                {},
-                {
-                    // no signing and no authentication
-                    disableSigning: true,
-                    disableAuthentication: true,
-                    disableVerification: true,
-                    skipSessionCheck: true
-                }
-            )
+        // use the current environment if it is a sandbox, for example a local mock
+        const environment = getEnvironment(this.Session.environment);
+        const apiUrl = environment.sandbox ? environment.api_url : ENVIRONMENTS.SANDBOX.api_url;
+
+        const response = await this.ApiAdapter.post(
+            `${apiUrl}/v1/sandbox-user`,
+            {},
+            {},
+            {
+                // no signing and no authentication
+                disableSigning: true,
+                disableAuthentication: true,
+                disableVerification: true,
+                skipSessionCheck: true,
+                limiter: limiter
+            }
         );
 
         return response.Response[0].ApiKey.api_key;
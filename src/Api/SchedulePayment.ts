@@ -4,6 +4,9 @@ import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
 import PaymentRequestObject from "../Types/PaymentRequestObject";
 import Schedule from "../Types/Schedule";
 import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
 
 export default class SchedulePayment implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -27,10 +30,10 @@ export default class SchedulePayment implements ApiEndpointInterface {
     public async get(userId: number, monetaryAccountId: number, paymentId: number, options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/schedule-payment");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment/${paymentId}`
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment/${paymentId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response[0];
@@ -46,10 +49,10 @@ export default class SchedulePayment implements ApiEndpointInterface {
     public async delete(userId: number, monetaryAccountId: number, paymentId: number, options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/schedule-payment", "DELETE");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.delete(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment/${paymentId}`
-            )
+        const response = await this.ApiAdapter.delete(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment/${paymentId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -70,6 +73,26 @@ export default class SchedulePayment implements ApiEndpointInterface {
             older_id: false
         }
     ) {
+        const page = await this.listPage(userId, monetaryAccountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse>}
+     */
+    public async listPage(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -84,19 +107,48 @@ export default class SchedulePayment implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/schedule-payment", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<any>}
+     */
+    public iterate(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<any> {
+        return paginate(pageOptions => this.list(userId, monetaryAccountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} monetaryAccountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<any[]>}
+     */
+    public async listAll(
+        userId: number,
+        monetaryAccountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<any[]> {
+        return collectAll(this.iterate(userId, monetaryAccountId, options));
     }
 
     /**
@@ -104,7 +156,7 @@ export default class SchedulePayment implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {PaymentRequestObject} paymentRequestObject
      * @param {Schedule} schedule
-     * @param options
+     * @param options - set idempotencyKey to make sure the request is only processed once, even when sent again
      * @returns {Promise<void>}
      */
     public async post(
@@ -116,16 +168,25 @@ export default class SchedulePayment implements ApiEndpointInterface {
     ) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/schedule-payment", "POST");
 
+        const url = `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment`;
+        const idempotencyKey = options.idempotencyKey || false;
+
+        // an existing merchant reference is used to find an earlier attempt instead of the idempotency key
+        const payment = { ...paymentRequestObject };
+        if (idempotencyKey !== false && !payment.merchant_reference) payment.merchant_reference = idempotencyKey;
+
         const requestObject = {
-            payment: paymentRequestObject,
+            payment: payment,
             schedule: schedule
         };
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment`,
-                requestObject
-            )
+        const response = await this.ApiAdapter.IdempotencyHandler.send(
+            idempotencyKey,
+            payment.merchant_reference,
+            url,
+            requestObject,
+            searchOptions => this.listAll(userId, monetaryAccountId, searchOptions),
+            headers => this.ApiAdapter.post(url, requestObject, headers, { limiter: limiter })
         );
 
         return response.Response;
@@ -155,11 +216,11 @@ export default class SchedulePayment implements ApiEndpointInterface {
             schedule: schedule
         };
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment/${scheduledPaymentId}`,
-                requestObject
-            )
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment/${scheduledPaymentId}`,
+            requestObject,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -26,10 +26,10 @@ export default class SchedulePaymentBatch implements ApiEndpointInterface {
     public async delete(userId: number, monetaryAccountId: number, paymentId: number, options: any = {}) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/schedule-payment-batch", "DELETE");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.delete(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment-batch/${paymentId}`
-            )
+        const response = await this.ApiAdapter.delete(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment-batch/${paymentId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -52,11 +52,14 @@ export default class SchedulePaymentBatch implements ApiEndpointInterface {
     ) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/schedule-payment-batch", "POST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(`/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment-batch`, {
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/schedule-payment-batch`,
+            {
                 payments: paymentRequestObjectCollection,
                 schedule: schedule
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -6,8 +6,13 @@ import CounterpartyAlias from "../Types/CounterpartyAlias";
 import {
     ShareInviteBankInquiryPostOptions,
     ShareInviteBankInquiryPostShareDetail,
-    ShareInviteBankInquiryPostStatus
+    ShareInviteBankInquiryPostStatus,
+    ShareInviteBankInquiryResponse
 } from "../Types/ShareInviteBankInquiry";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import IdResponse from "../Types/IdResponse";
 
 export default class ShareInviteBankInquiry implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -25,7 +30,7 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} accountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<ShareInviteBankInquiryResponse[]>}
      */
     public async get(
         userId: number,
@@ -36,13 +41,13 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<ShareInviteBankInquiryResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-inquiry", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${accountId}/share-invite-bank-inquiry/${shareInviteBankInquiryId}`
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${accountId}/share-invite-bank-inquiry/${shareInviteBankInquiryId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -52,7 +57,7 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} accountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<ShareInviteBankInquiryResponse[]>}
      */
     public async list(
         userId: number,
@@ -62,7 +67,27 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<ShareInviteBankInquiryResponse[]> {
+        const page = await this.listPage(userId, accountId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<ShareInviteBankInquiryResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        accountId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<ShareInviteBankInquiryResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -77,19 +102,48 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-inquiry", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/monetary-account/${accountId}/share-invite-bank-inquiry`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/monetary-account/${accountId}/share-invite-bank-inquiry`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<ShareInviteBankInquiryResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<ShareInviteBankInquiryResponse>}
+     */
+    public iterate(
+        userId: number,
+        accountId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<ShareInviteBankInquiryResponse> {
+        return paginate(pageOptions => this.list(userId, accountId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<ShareInviteBankInquiryResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        accountId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<ShareInviteBankInquiryResponse[]> {
+        return collectAll(this.iterate(userId, accountId, options));
     }
 
     /**
@@ -99,7 +153,7 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
      * @param {ShareInviteBankInquiryPostShareDetail} shareDetail
      * @param {ShareInviteBankInquiryPostStatus} status
      * @param {ShareInviteBankInquiryPostOptions} options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async post(
         userId: number,
@@ -110,7 +164,7 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
         options: ShareInviteBankInquiryPostOptions = {
             share_type: "STANDARD"
         }
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-inquiry", "POST");
 
         const postData: any = {
@@ -129,11 +183,11 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
             postData.end_date = options.end_date;
         }
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/share-invite-bank-inquiry`,
-                postData
-            )
+        const response = await this.ApiAdapter.post(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/share-invite-bank-inquiry`,
+            postData,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -146,7 +200,7 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
      * @param {ShareInviteBankInquiryPostShareDetail} shareDetail
      * @param {ShareInviteBankInquiryPostStatus} status
      * @param {ShareInviteBankInquiryPostOptions} options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async put(
         userId: number,
@@ -158,7 +212,7 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
         options: ShareInviteBankInquiryPostOptions = {
             share_type: "STANDARD"
         }
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-inquiry", "PUT");
 
         const postData: any = {
@@ -177,11 +231,11 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
             postData.end_date = options.end_date;
         }
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/share-invite-bank-inquiry/${shareInviteBankInquiryId}`,
-                postData
-            )
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/share-invite-bank-inquiry/${shareInviteBankInquiryId}`,
+            postData,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -192,23 +246,23 @@ export default class ShareInviteBankInquiry implements ApiEndpointInterface {
      * @param {number} monetaryAccountId
      * @param {number} shareInviteBankInquiryId
      * @param {ShareInviteBankInquiryPostStatus} status
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
     public async putStatus(
         userId: number,
         monetaryAccountId: number,
         shareInviteBankInquiryId: number,
         status: ShareInviteBankInquiryPostStatus
-    ) {
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-inquiry", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(
-                `/v1/user/${userId}/monetary-account/${monetaryAccountId}/share-invite-bank-inquiry/${shareInviteBankInquiryId}`,
-                {
-                    status: status
-                }
-            )
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/monetary-account/${monetaryAccountId}/share-invite-bank-inquiry/${shareInviteBankInquiryId}`,
+            {
+                status: status
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -8,7 +8,11 @@ import {
     ShareInviteBankInquiryPostStatus
 } from "../Types/ShareInviteBankInquiry";
 import CounterpartyAlias from "../Types/CounterpartyAlias";
-import { ShareInviteBankResponsePutStatus } from "../Types/ShareInviteBankResponse";
+import { ShareInviteBankResponsePutStatus, ShareInviteBankResponseResponse } from "../Types/ShareInviteBankResponse";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import { paginate, collectAll } from "../Helpers/Paginator";
+import PaginatedResponse from "../HTTP/PaginatedResponse";
+import IdResponse from "../Types/IdResponse";
 
 export default class ShareInviteBankResponse implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -26,7 +30,7 @@ export default class ShareInviteBankResponse implements ApiEndpointInterface {
      * @param {number} userId
      * @param {number} accountId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<ShareInviteBankResponseResponse[]>}
      */
     public async get(
         userId: number,
@@ -36,11 +40,13 @@ export default class ShareInviteBankResponse implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<ShareInviteBankResponseResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-response", "GET");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(`/v1/user/${userId}/share-invite-bank-response/${shareInviteBankResponseId}`)
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/share-invite-bank-response/${shareInviteBankResponseId}`,
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
@@ -49,7 +55,7 @@ export default class ShareInviteBankResponse implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {PaginationOptions} options
-     * @returns {Promise<void>}
+     * @returns {Promise<ShareInviteBankResponseResponse[]>}
      */
     public async list(
         userId: number,
@@ -58,7 +64,25 @@ export default class ShareInviteBankResponse implements ApiEndpointInterface {
             newer_id: false,
             older_id: false
         }
-    ) {
+    ): Promise<ShareInviteBankResponseResponse[]> {
+        const page = await this.listPage(userId, options);
+
+        return page.items;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {PaginationOptions} options
+     * @returns {Promise<PaginatedResponse<ShareInviteBankResponseResponse>>}
+     */
+    public async listPage(
+        userId: number,
+        options: PaginationOptions = {
+            count: 200,
+            newer_id: false,
+            older_id: false
+        }
+    ): Promise<PaginatedResponse<ShareInviteBankResponseResponse>> {
         const params: any = {};
 
         if (options.count !== undefined) {
@@ -73,19 +97,44 @@ export default class ShareInviteBankResponse implements ApiEndpointInterface {
 
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-response", "LIST");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `/v1/user/${userId}/share-invite-bank-response`,
-                {},
-                {
-                    axiosOptions: {
-                        params: params
-                    }
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `/v1/user/${userId}/share-invite-bank-response`,
+            {},
+            {
+                axiosOptions: {
+                    params: params
+                },
+                limiter: limiter
+            }
         );
 
-        return response.Response;
+        return new PaginatedResponse<ShareInviteBankResponseResponse>(response, this.ApiAdapter, limiter);
+    }
+
+    /**
+     * Walks through all pages of the list endpoint and yields the items one by one
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {AsyncIterableIterator<ShareInviteBankResponseResponse>}
+     */
+    public iterate(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): AsyncIterableIterator<ShareInviteBankResponseResponse> {
+        return paginate(pageOptions => this.list(userId, pageOptions), options);
+    }
+
+    /**
+     * Fetches all pages of the list endpoint and returns the combined list of items
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<ShareInviteBankResponseResponse[]>}
+     */
+    public async listAll(
+        userId: number,
+        options: PaginationIteratorOptions = {}
+    ): Promise<ShareInviteBankResponseResponse[]> {
+        return collectAll(this.iterate(userId, options));
     }
 
     /**
@@ -95,15 +144,22 @@ export default class ShareInviteBankResponse implements ApiEndpointInterface {
      * @param {ShareInviteBankInquiryPostShareDetail} shareDetail
      * @param {ShareInviteBankInquiryPostStatus} status
      * @param {ShareInviteBankInquiryPostOptions} options
-     * @returns {Promise<any>}
+     * @returns {Promise<IdResponse[]>}
      */
-    public async put(userId: number, shareInviteBankResponseId: number, status: ShareInviteBankResponsePutStatus) {
+    public async put(
+        userId: number,
+        shareInviteBankResponseId: number,
+        status: ShareInviteBankResponsePutStatus
+    ): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/share-invite-bank-response", "PUT");
 
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.put(`/v1/user/${userId}/share-invite-bank-response/${shareInviteBankResponseId}`, {
+        const response = await this.ApiAdapter.put(
+            `/v1/user/${userId}/share-invite-bank-response/${shareInviteBankResponseId}`,
+            {
                 status: status
-            })
+            },
+            {},
+            { limiter: limiter }
         );
 
         return response.Response;
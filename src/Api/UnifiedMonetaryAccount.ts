@@ -0,0 +1,180 @@
+import ApiAdapter from "../ApiAdapter";
+import Session from "../Session";
+import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import MonetaryAccount from "./MonetaryAccount";
+import MonetaryAccountBank from "./MonetaryAccountBank";
+import MonetaryAccountJoint from "./MonetaryAccountJoint";
+import MonetaryAccountSavings from "./MonetaryAccountSavings";
+import MonetaryAccountPutRequest from "../Types/MonetaryAccountPutRequest";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+import NormalizedMonetaryAccount, { MonetaryAccountType } from "../Types/NormalizedMonetaryAccount";
+import { MonetaryAccountResponse } from "../Types/MonetaryAccount";
+import { unwrapObject } from "../Helpers/Utils";
+import IdResponse from "../Types/IdResponse";
+
+/**
+ * Combines the bank, joint and savings endpoints so all accounts can be used through one normalized type
+ */
+export default class UnifiedMonetaryAccount implements ApiEndpointInterface {
+    ApiAdapter: ApiAdapter;
+    Session: Session;
+
+    private monetaryAccount: MonetaryAccount;
+    private endpoints: {
+        MonetaryAccountBank: MonetaryAccountBank;
+        MonetaryAccountJoint: MonetaryAccountJoint;
+        MonetaryAccountSavings: MonetaryAccountSavings;
+    };
+
+    // remembers the account type for each account id so updates don't require an extra request
+    private accountTypes: { [accountId: number]: MonetaryAccountType } = {};
+
+    /**
+     * @param {ApiAdapter} ApiAdapter
+     */
+    constructor(ApiAdapter: ApiAdapter) {
+        this.ApiAdapter = ApiAdapter;
+        this.Session = ApiAdapter.Session;
+
+        this.monetaryAccount = new MonetaryAccount(ApiAdapter);
+        this.endpoints = {
+            MonetaryAccountBank: new MonetaryAccountBank(ApiAdapter),
+            MonetaryAccountJoint: new MonetaryAccountJoint(ApiAdapter),
+            MonetaryAccountSavings: new MonetaryAccountSavings(ApiAdapter)
+        };
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} accountId
+     * @returns {Promise<NormalizedMonetaryAccount>}
+     */
+    public async get(userId: number, accountId: number): Promise<NormalizedMonetaryAccount> {
+        const monetaryAccount = await this.monetaryAccount.get(userId, accountId);
+
+        return this.rememberType(UnifiedMonetaryAccount.normalize(monetaryAccount));
+    }
+
+    /**
+     * Returns all accounts for this user regardless of their type
+     * @param {number} userId
+     * @param {PaginationIteratorOptions} options
+     * @returns {Promise<NormalizedMonetaryAccount[]>}
+     */
+    public async list(userId: number, options: PaginationIteratorOptions = {}): Promise<NormalizedMonetaryAccount[]> {
+        const monetaryAccounts = await this.monetaryAccount.listAll(userId, options);
+
+        return monetaryAccounts.map(monetaryAccount =>
+            this.rememberType(UnifiedMonetaryAccount.normalize(monetaryAccount))
+        );
+    }
+
+    /**
+     * Updates the account through the endpoint that matches its type
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {MonetaryAccountPutRequest} monetaryAccountPutRequest
+     * @returns {Promise<IdResponse[]>}
+     */
+    public async update(
+        userId: number,
+        accountId: number,
+        monetaryAccountPutRequest: MonetaryAccountPutRequest
+    ): Promise<IdResponse[]> {
+        const accountType = await this.getAccountType(userId, accountId);
+
+        return this.endpoints[accountType].put(userId, accountId, monetaryAccountPutRequest);
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {string} description
+     * @returns {Promise<IdResponse[]>}
+     */
+    public async rename(userId: number, accountId: number, description: string): Promise<IdResponse[]> {
+        return this.update(userId, accountId, { description: description });
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} accountId
+     * @param {string} reason
+     * @returns {Promise<IdResponse[]>}
+     */
+    public async cancel(userId: number, accountId: number, reason: string): Promise<IdResponse[]> {
+        return this.update(userId, accountId, {
+            status: "CANCELLED",
+            sub_status: "REDEMPTION_VOLUNTARY",
+            reason: "OTHER",
+            reason_description: reason
+        });
+    }
+
+    /**
+     * @param {number} userId
+     * @param {number} accountId
+     * @returns {Promise<MonetaryAccountType>}
+     */
+    private async getAccountType(userId: number, accountId: number): Promise<MonetaryAccountType> {
+        if (!this.accountTypes[accountId]) {
+            await this.get(userId, accountId);
+        }
+        return this.accountTypes[accountId];
+    }
+
+    /**
+     * @param {NormalizedMonetaryAccount} account
+     * @returns {NormalizedMonetaryAccount}
+     */
+    private rememberType(account: NormalizedMonetaryAccount): NormalizedMonetaryAccount {
+        this.accountTypes[account.id] = account.type;
+        return account;
+    }
+
+    /**
+     * Turns a wrapped bank, joint or savings account into a NormalizedMonetaryAccount
+     * @param {MonetaryAccountResponse} monetaryAccountResponse
+     * @returns {NormalizedMonetaryAccount}
+     */
+    public static normalize(monetaryAccountResponse: MonetaryAccountResponse): NormalizedMonetaryAccount {
+        const account = unwrapObject(monetaryAccountResponse);
+        const { objectType, ...accountInfo } = account;
+
+        const ibanAlias = (account.alias || []).find(alias => alias.type === "IBAN");
+
+        let savingsGoal = null;
+        let savingsGoalProgress = null;
+        let coOwners = [];
+        switch (account.objectType) {
+            case "MonetaryAccountSavings":
+                savingsGoal = account.savings_goal || null;
+                savingsGoalProgress = account.savings_goal_progress;
+                coOwners = account.all_co_owner || [];
+                break;
+            case "MonetaryAccountJoint":
+                coOwners = account.all_co_owner || [];
+                break;
+            case "MonetaryAccountBank":
+            default:
+                break;
+        }
+
+        return {
+            id: account.id,
+            type: objectType,
+            user_id: account.user_id,
+            status: account.status,
+            sub_status: account.sub_status,
+            balance: account.balance,
+            iban: ibanAlias ? ibanAlias.value : null,
+            iban_name: ibanAlias && ibanAlias.name ? ibanAlias.name : null,
+            description: account.description,
+            color: account.setting && account.setting.color ? account.setting.color : null,
+            savings_goal: savingsGoal,
+            savings_goal_progress: savingsGoalProgress === undefined ? null : savingsGoalProgress,
+            co_owners: coOwners,
+            account: accountInfo
+        };
+    }
+}
@@ -1,6 +1,7 @@
 import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import { UserResponse } from "../Types/User";
 
 export default class User implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -17,24 +18,24 @@ export default class User implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<UserResponse>}
      */
-    public async get(userId: number, options: any = {}) {
+    public async get(userId: number, options: any = {}): Promise<UserResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/user", "GET");
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(`/v1/user/${userId}`));
+        const response = await this.ApiAdapter.get(`/v1/user/${userId}`, {}, { limiter: limiter });
 
         return response.Response[0];
     }
 
     /**
      * @param options
-     * @returns {Promise<any>}
+     * @returns {Promise<UserResponse>}
      */
-    public async list(options: any = {}) {
+    public async list(options: any = {}): Promise<UserResponse> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/user", "LIST");
 
-        const response = await limiter.run(async () => this.ApiAdapter.get(`/v1/user`));
+        const response = await this.ApiAdapter.get(`/v1/user`, {}, { limiter: limiter });
 
         return response.Response[0];
     }
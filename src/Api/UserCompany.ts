@@ -1,6 +1,7 @@
 import ApiAdapter from "../ApiAdapter";
 import Session from "../Session";
 import ApiEndpointInterface from "../Interfaces/ApiEndpointInterface";
+import IdResponse from "../Types/IdResponse";
 
 export default class UserCompany implements ApiEndpointInterface {
     ApiAdapter: ApiAdapter;
@@ -17,12 +18,12 @@ export default class UserCompany implements ApiEndpointInterface {
     /**
      * @param {number} userId
      * @param {any} userInfo
-     * @returns {Promise<void>}
+     * @returns {Promise<IdResponse[]>}
      */
-    public async put(userId: number, userInfo: any) {
+    public async put(userId: number, userInfo: any): Promise<IdResponse[]> {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/user-company", "PUT");
 
-        const response = await limiter.run(async () => this.ApiAdapter.put(`/v1/user-company/${userId}`, userInfo));
+        const response = await this.ApiAdapter.put(`/v1/user-company/${userId}`, userInfo, {}, { limiter: limiter });
 
         return response.Response;
     }
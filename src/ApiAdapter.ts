@@ -1,21 +1,31 @@
-import axios from "axios";
 import BunqJSClient from "./BunqJSClient";
 import Session from "./Session";
 import LoggerInterface from "./Interfaces/LoggerInterface";
-import CustomError from "./Interfaces/CustomError";
 import ApiAdapterOptions from "./Types/ApiAdapterOptions";
 import { Method } from "./Types/Method";
 import Headers from "./Types/Headers";
+import RetryPolicy from "./Types/RetryPolicy";
 import RequestLimitFactory from "./RequestLimitFactory";
+import MiddlewareContext from "./Types/MiddlewareContext";
 import Request from "./HTTP/Request";
+import AuthenticationHandler from "./HTTP/AuthenticationHandler";
 import SignRequestHandler from "./HTTP/SignRequestHandler";
 import EncryptRequestHandler from "./HTTP/EncryptRequestHandler";
 import VerifyResponseHandler from "./HTTP/VerifyResponseHandler";
-import ErrorCodes from "./Helpers/ErrorCodes";
+import IdempotencyHandler from "./HTTP/IdempotencyHandler";
+import CassetteHandler from "./HTTP/CassetteHandler";
+import InstrumentationHandler from "./HTTP/InstrumentationHandler";
+import AxiosTransport from "./HTTP/Transports/AxiosTransport";
+import HttpTransportInterface from "./Interfaces/HttpTransportInterface";
+import MiddlewareInterface, { MiddlewarePosition } from "./Interfaces/MiddlewareInterface";
+import BunqAuthenticationError from "./Errors/BunqAuthenticationError";
+import { parseRequestError } from "./Helpers/ErrorParser";
+import { DEFAULT_RETRY_POLICY, delay, getRetryDelay } from "./Helpers/Retry";
 
 export const BUNQ_SERVER_SIGNATURE_HEADER_KEY = "X-Bunq-Server-Signature";
 export const BUNQ_REQUEST_SIGNATURE_HEADER_KEY = "X-Bunq-Client-Signature";
 export const BUNQ_REQUEST_AUTHENTICATION_HEADER_KEY = "X-Bunq-Client-Authentication";
+export const BUNQ_REQUEST_ID_HEADER_KEY = "X-Bunq-Client-Request-Id";
 
 export default class ApiAdapter {
     public Session: Session;
@@ -23,23 +33,52 @@ export default class ApiAdapter {
     public BunqJSClient: BunqJSClient;
 
     public RequestLimitFactory: RequestLimitFactory;
+    public AuthenticationHandler: AuthenticationHandler;
     public SignRequestHandler: SignRequestHandler;
     public EncryptRequestHandler: EncryptRequestHandler;
     public VerifyResponseHandler: VerifyResponseHandler;
+    public IdempotencyHandler: IdempotencyHandler;
+    public CassetteHandler: CassetteHandler;
+    public InstrumentationHandler: InstrumentationHandler;
+
+    // sends the actual http requests, axios by default
+    public transport: HttpTransportInterface;
+
+    // custom middlewares which run before or after the request is signed
+    public middlewares: { [position in MiddlewarePosition]: MiddlewareInterface[] } = {
+        before_signing: [],
+        after_signing: []
+    };
 
     public language: string;
     public region: string;
     public geoLocation: string;
 
+    // POST requests aren't idempotent so they are only retried when explicitly allowed
+    public retryPolicies: { [method in Method]: RetryPolicy | false } = {
+        GET: DEFAULT_RETRY_POLICY,
+        PUT: DEFAULT_RETRY_POLICY,
+        DELETE: DEFAULT_RETRY_POLICY,
+        POST: false
+    };
+
+    // how often a single request creates a new session after its session was rejected, 0 disables this
+    public maxSessionRecoveries: number = 1;
+
     constructor(Session: Session, loggerInterface: LoggerInterface, BunqJSClient: BunqJSClient) {
         this.Session = Session;
         this.logger = loggerInterface;
         this.BunqJSClient = BunqJSClient;
 
         this.RequestLimitFactory = new RequestLimitFactory();
+        this.AuthenticationHandler = new AuthenticationHandler(this.Session, this.logger, this.BunqJSClient);
         this.SignRequestHandler = new SignRequestHandler(this.Session, this.logger, this.BunqJSClient);
         this.EncryptRequestHandler = new EncryptRequestHandler(this.Session, this.logger, this.BunqJSClient);
         this.VerifyResponseHandler = new VerifyResponseHandler(this.Session, this.logger, this.BunqJSClient);
+        this.IdempotencyHandler = new IdempotencyHandler(this.Session, this.logger, this.BunqJSClient);
+        this.CassetteHandler = new CassetteHandler(this.Session, this.logger, this.BunqJSClient);
+        this.InstrumentationHandler = new InstrumentationHandler(this.Session, this.logger, this.BunqJSClient);
+        this.transport = new AxiosTransport();
 
         this.language = "en_US";
         this.region = "nl_NL";
@@ -109,6 +148,130 @@ export default class ApiAdapter {
         data: any = {},
         headers: Headers = {},
         options: ApiAdapterOptions = {}
+    ) {
+        const retryPolicy = this.getRetryPolicy(method, options);
+
+        let attempt = 1;
+        let sessionRecoveries = 0;
+        while (true) {
+            // the token used for this attempt, other requests could replace the session while it is queued or sent
+            let sessionToken = this.Session.sessionToken;
+            const sendAttempt = (queueDuration: number = 0) => {
+                sessionToken = this.Session.sessionToken;
+                return this.sendRequest(url, method, data, headers, options, attempt, queueDuration);
+            };
+
+            try {
+                return await (options.limiter ? options.limiter.run(sendAttempt) : sendAttempt());
+            } catch (error) {
+                if (
+                    this.isSessionRejected(error, sessionToken, options) &&
+                    sessionRecoveries < this.maxSessionRecoveries
+                ) {
+                    // the request was refused before it was handled so it is safe to send it again
+                    sessionRecoveries++;
+                    await this.recreateSession(sessionToken);
+                    continue;
+                }
+
+                const retryDelay = getRetryDelay(error, attempt, retryPolicy, this.BunqJSClient.clock);
+                if (retryDelay === false) throw error;
+
+                // the next attempt waits for a new slot of the limiter so it counts towards the limit again
+                this.logger.debug(`Retrying ${method}: ${url} in ${retryDelay}ms after attempt ${attempt} failed`);
+                await delay(retryDelay, this.BunqJSClient.clock);
+                attempt++;
+            }
+        }
+    }
+
+    /**
+     * Overwrites the retry policy for a method, false disables retries completely
+     * @param {Method} method
+     * @param {Partial<RetryPolicy> | false} retryPolicy
+     */
+    public setRetryPolicy(method: Method, retryPolicy: Partial<RetryPolicy> | false) {
+        this.retryPolicies[method] = retryPolicy === false ? false : { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    }
+
+    /**
+     * Changes the transport used to send the requests, for example a FetchTransport
+     * @param {HttpTransportInterface} transport
+     */
+    public setHttpTransport(transport: HttpTransportInterface) {
+        this.transport = transport;
+    }
+
+    /**
+     * Adds a middleware which runs for every request, before or after the request is signed.
+     * Headers and data which are changed after signing aren't part of the signature.
+     * @param {MiddlewareInterface} middleware
+     * @param {MiddlewarePosition} position
+     */
+    public addMiddleware(middleware: MiddlewareInterface, position: MiddlewarePosition = "before_signing") {
+        this.middlewares[position].push(middleware);
+    }
+
+    /**
+     * Removes a custom middleware by its name or instance
+     * @param {string | MiddlewareInterface} middleware
+     */
+    public removeMiddleware(middleware: string | MiddlewareInterface) {
+        Object.keys(this.middlewares).forEach(position => {
+            this.middlewares[position] = this.middlewares[position].filter(
+                (item: MiddlewareInterface) => item !== middleware && item.name !== middleware
+            );
+        });
+    }
+
+    /**
+     * The built-in and custom middlewares in the order they are called before sending a request
+     * @returns {MiddlewareInterface[]}
+     */
+    public getMiddlewares(): MiddlewareInterface[] {
+        return [
+            this.InstrumentationHandler,
+            this.AuthenticationHandler,
+            this.EncryptRequestHandler,
+            ...this.middlewares.before_signing,
+            this.SignRequestHandler,
+            ...this.middlewares.after_signing,
+            this.VerifyResponseHandler
+        ];
+    }
+
+    /**
+     * @param {Method} method
+     * @param {ApiAdapterOptions} options
+     * @returns {RetryPolicy | false}
+     */
+    private getRetryPolicy(method: Method, options: ApiAdapterOptions): RetryPolicy | false {
+        if (options.retryPolicy === false) return false;
+        if (options.retryPolicy) {
+            return { ...DEFAULT_RETRY_POLICY, ...(this.retryPolicies[method] || {}), ...options.retryPolicy };
+        }
+        return this.retryPolicies[method];
+    }
+
+    /**
+     * Creates and sends a single attempt of the request through the middlewares
+     * @param {string} url
+     * @param {string} method
+     * @param data
+     * @param headers
+     * @param {ApiAdapterOptions} options
+     * @param {number} attempt
+     * @param {number} queueDuration
+     * @returns {Promise<any>}
+     */
+    private async sendRequest(
+        url: string,
+        method: Method,
+        data: any,
+        headers: Headers,
+        options: ApiAdapterOptions,
+        attempt: number = 1,
+        queueDuration: number = 0
     ) {
         this.logger.debug(`${method}: ${url}`);
         const request = new Request(url, method, data, headers, options.axiosOptions || {});
@@ -117,48 +280,67 @@ export default class ApiAdapter {
             await this.sessionValidationCheck();
         }
 
-        if (options.disableAuthentication !== true) {
-            // use session token or fallback to install taken if we have one
-            if (this.Session.sessionToken !== null) {
-                request.setAuthenticated(this.Session.sessionToken);
-            } else if (this.Session.installToken !== null) {
-                request.setAuthenticated(this.Session.installToken);
-            }
-        }
+        const context: MiddlewareContext = {
+            request: request,
+            url: url,
+            method: method,
+            data: data,
+            options: options,
+            attempt: attempt,
+            startTime: this.BunqJSClient.clock.now(),
+            queueDuration: queueDuration,
+            response: null,
+            error: null
+        };
+
+        // only the middlewares which ran before sending receive the response or error
+        const middlewares = this.getMiddlewares();
+        const calledMiddlewares: MiddlewareInterface[] = [];
 
-        if (options.isEncrypted === true) {
-            await this.EncryptRequestHandler.encryptRequest(request, options);
-        }
+        try {
+            for (const middleware of middlewares) {
+                calledMiddlewares.push(middleware);
+                if (middleware.beforeSend) await middleware.beforeSend(context);
 
-        if (options.disableSigning !== true) {
-            await this.SignRequestHandler.signRequest(request, options);
-        }
+                // a middleware answered the request, for example from a cache
+                if (context.response !== null) break;
+            }
 
-        // complete relative urls
-        if (request.url[0] === "/") {
-            request.setUrl(`${this.Session.environmentUrl}${request.url}`);
-        }
+            if (context.response === null) {
+                // complete relative urls
+                if (request.url[0] === "/") {
+                    request.setUrl(`${this.Session.environmentUrl}${request.url}`);
+                }
+
+                try {
+                    // recorded or replayed when a cassette is active, the unencrypted data is used to match requests
+                    context.response = await this.CassetteHandler.send(
+                        method,
+                        url,
+                        data,
+                        request.requestConfig,
+                        requestConfig => this.transport.request(requestConfig)
+                    );
+                } catch (error) {
+                    this.requestErrorHandler(error, url, method);
+                }
+            }
 
-        let response;
-        try {
-            response = await axios.request(request.requestConfig);
+            // also called when a middleware answered the request so hooks like the instrumentation can finish
+            for (const middleware of [...calledMiddlewares].reverse()) {
+                if (middleware.afterReceive) await middleware.afterReceive(context);
+            }
         } catch (error) {
-            this.requestErrorHandler(error);
-        }
+            context.error = error;
 
-        if (options.disableVerification !== true) {
-            const verifyResult = await this.VerifyResponseHandler.verifyResponse(response);
-
-            if (!verifyResult && (!process.env.ENV_CI || process.env.ENV_CI === "false")) {
-                // invalid response in a non-ci environment
-                throw new CustomError(
-                    "We couldn't verify the received response",
-                    response,
-                    ErrorCodes.INVALID_RESPONSE_RECEIVED
-                );
+            for (const middleware of [...calledMiddlewares].reverse()) {
+                if (middleware.onError) await middleware.onError(context);
             }
+
+            if (context.error !== null || context.response === null) throw context.error || error;
         }
 
+        const response = context.response;
         try {
             // attempt to turn string result back into json when possible
             response.data = JSON.parse(response.data);
@@ -193,8 +375,7 @@ export default class ApiAdapter {
             const extendByMilliseconds = this.BunqJSClient.calculateSessionExpiry(true);
 
             // add milliseconds to current time
-            const currentDate = new Date();
-            currentDate.setTime(currentDate.getTime() + extendByMilliseconds);
+            const currentDate = new Date(this.Session.clock.now() + extendByMilliseconds);
 
             // set updated session expiry time
             this.Session.sessionExpiryTime = currentDate;
@@ -205,21 +386,63 @@ export default class ApiAdapter {
     };
 
     /**
-     * Attempts to improve the error data and defaults to rethrowing it
+     * Checks if bunq refused the session token, for example because the key was revoked or another device logged in
      * @param error
+     * @param {string} sessionToken
+     * @param {ApiAdapterOptions} options
+     * @returns {boolean}
      */
-    private requestErrorHandler(error) {
-        // get the data from the request if it fails
-        if (error.response && error.response.data) {
-            // parse json response if possible
-            try {
-                // attempt to turn string result back into json when possible
-                error.response.data = JSON.parse(error.response.data);
+    private isSessionRejected(error: any, sessionToken: string, options: ApiAdapterOptions): boolean {
+        // requests which setup the installation or session don't use a session token
+        if (sessionToken === null || options.skipSessionCheck || options.disableAuthentication) return false;
+
+        return error instanceof BunqAuthenticationError && error.status === 401;
+    }
+
+    /**
+     * Replaces the rejected session, concurrent requests wait for the same new session
+     * @param {string} rejectedSessionToken
+     * @returns {Promise<void>}
+     */
+    private async recreateSession(rejectedSessionToken: string): Promise<void> {
+        if (this.BunqJSClient.fetchingNewSession) {
+            await this.BunqJSClient.fetchingNewSession;
+            return;
+        }
+        // another request already replaced the session
+        if (this.Session.sessionToken !== rejectedSessionToken) return;
+
+        this.logger.debug("Session was rejected by the api, creating a new session");
+        this.Session.lifecycle.emit({
+            type: "sessionExpired",
+            environment: this.Session.environment,
+            expiry_time: this.Session.sessionExpiryTime
+        });
+        this.BunqJSClient.clearExpiryTimer();
+
+        const recreatingSession = (async () => {
+            await this.Session.destroyApiSession(true);
+            return this.BunqJSClient.registerSession();
+        })();
+        this.BunqJSClient.fetchingNewSession = recreatingSession;
 
-                throw error;
-            } catch (error) {}
+        try {
+            await recreatingSession;
+        } finally {
+            // registerSession resets it when it finishes, unless removing the old session failed
+            if (this.BunqJSClient.fetchingNewSession === recreatingSession) {
+                this.BunqJSClient.fetchingNewSession = false;
+            }
         }
-        // rethrow if no json data could be found
-        throw error;
+    }
+
+    /**
+     * Turns bunq error responses into a typed BunqApiError and rethrows it
+     * @param error
+     * @param {string} url
+     * @param {string} method
+     */
+    private requestErrorHandler(error, url: string, method: string) {
+        throw parseRequestError(error, url, method);
     }
 }
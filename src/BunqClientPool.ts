@@ -0,0 +1,356 @@
+import BunqJSClient from "./BunqJSClient";
+import Logger from "./Helpers/Logger";
+import RequestLimitFactory from "./RequestLimitFactory";
+import SystemClock from "./Helpers/SystemClock";
+import NamespacedStore from "./Stores/NamespacedStore";
+import StorageInterface from "./Interfaces/StorageInterface";
+import LoggerInterface from "./Interfaces/LoggerInterface";
+import HttpTransportInterface from "./Interfaces/HttpTransportInterface";
+import BunqClientPoolOptions from "./Types/BunqClientPoolOptions";
+import ConnectOptions from "./Types/ConnectOptions";
+import PoolTenant from "./Types/PoolTenant";
+import PoolTenantHealth from "./Types/PoolTenantHealth";
+import HttpRequestConfig from "./Types/HttpRequestConfig";
+import HttpResponse from "./Types/HttpResponse";
+
+type TenantState = {
+    tenant: PoolTenant;
+    client: BunqJSClient | null;
+    // set while the client is being installed so concurrent calls wait for the same setup
+    starting: Promise<BunqJSClient> | null;
+    health: PoolTenantHealth;
+};
+
+// the shortest and longest delay between two checks for idle clients
+const MIN_IDLE_CHECK_INTERVAL = 1000;
+const MAX_IDLE_CHECK_INTERVAL = 60000;
+
+/**
+ * Manages a BunqJSClient for each api key or OAuth connection in a single process.
+ * Clients are installed when they are first used, share one storage with a namespace per tenant,
+ * share the request limiters and are removed from memory again when they have been idle for a while.
+ */
+export default class BunqClientPool {
+    public storageInterface: StorageInterface;
+    public logger: LoggerInterface;
+    public options: BunqClientPoolOptions;
+    public RequestLimitFactory: RequestLimitFactory;
+
+    private tenants: { [tenantId: string]: TenantState } = {};
+    private activeRequests: number = 0;
+    private requestQueue: Array<() => void> = [];
+    private idleTimer: any = null;
+
+    /**
+     * @param {StorageInterface} storageInterface - shared by all tenants
+     * @param {LoggerInterface} loggerInterface
+     * @param {BunqClientPoolOptions} options
+     */
+    constructor(
+        storageInterface: StorageInterface,
+        loggerInterface: LoggerInterface = Logger,
+        options: BunqClientPoolOptions = {}
+    ) {
+        this.storageInterface = storageInterface;
+        this.logger = loggerInterface;
+        this.options = {
+            environment: "SANDBOX",
+            encryption_key: false,
+            device_name: "My Device",
+            max_concurrent_requests: 10,
+            idle_timeout: 15 * 60 * 1000,
+            share_request_limits: true,
+            clock: SystemClock,
+            ...options
+        };
+        this.RequestLimitFactory = new RequestLimitFactory(this.options.clock);
+    }
+
+    /**
+     * The amount of requests which are being sent right now by all clients
+     * @returns {number}
+     */
+    get activeRequestCount(): number {
+        return this.activeRequests;
+    }
+
+    /**
+     * The amount of requests waiting for the concurrency limit
+     * @returns {number}
+     */
+    get queuedRequestCount(): number {
+        return this.requestQueue.length;
+    }
+
+    /**
+     * Registers a tenant, the client is only created when it is requested for the first time
+     * @param {string} tenantId
+     * @param {PoolTenant} tenant
+     */
+    public addTenant(tenantId: string, tenant: PoolTenant): void {
+        const existingState = this.tenants[tenantId];
+        if (existingState) {
+            // a changed api key, for example a refreshed OAuth token, requires a new client
+            if (existingState.tenant.api_key !== tenant.api_key) this.evictClient(existingState);
+            existingState.tenant = tenant;
+            return;
+        }
+
+        this.tenants[tenantId] = {
+            tenant: tenant,
+            client: null,
+            starting: null,
+            health: {
+                tenant_id: tenantId,
+                status: "inactive",
+                last_used: null,
+                session_expiry_time: null,
+                active_requests: 0,
+                total_requests: 0,
+                failed_requests: 0,
+                last_error: null
+            }
+        };
+    }
+
+    /**
+     * @param {string} tenantId
+     * @returns {boolean}
+     */
+    public hasTenant(tenantId: string): boolean {
+        return !!this.tenants[tenantId];
+    }
+
+    /**
+     * Removes a tenant from the pool
+     * @param {string} tenantId
+     * @param {boolean} destroySession - also removes the remote session and the stored installation
+     * @returns {Promise<void>}
+     */
+    public async removeTenant(tenantId: string, destroySession: boolean = false): Promise<void> {
+        const state = this.tenants[tenantId];
+        if (!state) return;
+        delete this.tenants[tenantId];
+
+        if (destroySession && state.client) {
+            await state.client.destroySession();
+        }
+        this.evictClient(state);
+    }
+
+    /**
+     * Returns the client for a tenant and installs it, registers the device and creates a session when required
+     * @param {string} tenantId
+     * @returns {Promise<BunqJSClient>}
+     */
+    public async getClient(tenantId: string): Promise<BunqJSClient> {
+        const state = this.tenants[tenantId];
+        if (!state) {
+            throw new Error(`No tenant found with id ${tenantId}`);
+        }
+        state.health.last_used = new Date(this.options.clock.now());
+
+        if (state.client) return state.client;
+        if (!state.starting) {
+            state.starting = this.startClient(tenantId, state);
+        }
+
+        try {
+            return await state.starting;
+        } finally {
+            state.starting = null;
+        }
+    }
+
+    /**
+     * @param {string} tenantId
+     * @returns {PoolTenantHealth}
+     */
+    public getHealth(tenantId: string): PoolTenantHealth {
+        const state = this.tenants[tenantId];
+        if (!state) {
+            throw new Error(`No tenant found with id ${tenantId}`);
+        }
+
+        const health = { ...state.health };
+        if (state.client && state.client.Session.sessionExpiryTime) {
+            health.session_expiry_time = new Date(state.client.Session.sessionExpiryTime.getTime());
+        }
+        return health;
+    }
+
+    /**
+     * @returns {PoolTenantHealth[]}
+     */
+    public getAllHealth(): PoolTenantHealth[] {
+        return Object.keys(this.tenants).map(tenantId => this.getHealth(tenantId));
+    }
+
+    /**
+     * Removes clients which haven't been used within the idle timeout from memory,
+     * their stored session is used again when the tenant becomes active
+     * @returns {number} the amount of evicted clients
+     */
+    public evictIdleClients(): number {
+        const now = this.options.clock.now();
+
+        const idleStates = Object.keys(this.tenants)
+            .map(tenantId => this.tenants[tenantId])
+            .filter(state => {
+                if (!state.client || state.health.active_requests > 0) return false;
+
+                const lastUsed = state.health.last_used ? state.health.last_used.getTime() : 0;
+                return now - lastUsed >= this.options.idle_timeout;
+            });
+
+        idleStates.forEach(state => this.evictClient(state));
+        if (idleStates.length > 0) {
+            this.logger.debug(`Evicted ${idleStates.length} idle clients`);
+        }
+        return idleStates.length;
+    }
+
+    /**
+     * Stops the idle timer and removes all clients from memory
+     */
+    public close(): void {
+        this.stopIdleTimer();
+        Object.keys(this.tenants).forEach(tenantId => this.evictClient(this.tenants[tenantId]));
+    }
+
+    /**
+     * @param {string} tenantId
+     * @param {TenantState} state
+     * @returns {Promise<BunqJSClient>}
+     */
+    private async startClient(tenantId: string, state: TenantState): Promise<BunqJSClient> {
+        const tenant = state.tenant;
+        state.health.status = "starting";
+
+        const client = new BunqJSClient(NamespacedStore(this.storageInterface, tenantId), this.logger);
+        // the pool evicts idle clients instead of keeping every session alive with its own timer
+        client.setKeepAlive(false);
+        client.setClock(this.options.clock);
+        if (this.options.share_request_limits) {
+            client.ApiAdapter.RequestLimitFactory = this.RequestLimitFactory;
+        }
+
+        const connectOptions: ConnectOptions = {
+            api_key: tenant.api_key,
+            encryption_key: tenant.encryption_key || this.options.encryption_key,
+            allowed_ips: tenant.allowed_ips || [],
+            environment: this.options.environment,
+            device_name: tenant.device_name || this.options.device_name,
+            // the hook receives a client which has loaded its stored session but hasn't sent any requests yet
+            after_run: async () => {
+                if (this.options.setup_client) {
+                    await this.options.setup_client(client, tenantId);
+                }
+                client.setHttpTransport(this.createTransport(client.ApiAdapter.transport, state));
+            }
+        };
+
+        try {
+            await client.connect(connectOptions);
+        } catch (error) {
+            state.health.status = "failed";
+            state.health.last_error = error.message;
+            throw error;
+        }
+
+        // the tenant was changed while connecting, for example with a refreshed OAuth token
+        if (state.tenant !== tenant) {
+            client.clearExpiryTimer();
+            return this.startClient(tenantId, state);
+        }
+
+        state.client = client;
+        state.health.status = "ready";
+        this.startIdleTimer();
+
+        return client;
+    }
+
+    /**
+     * Wraps the transport of a client to apply the global concurrency limit and to track the tenant's health
+     * @param {HttpTransportInterface} transport
+     * @param {TenantState} state
+     * @returns {HttpTransportInterface}
+     */
+    private createTransport(transport: HttpTransportInterface, state: TenantState): HttpTransportInterface {
+        return {
+            request: async (config: HttpRequestConfig): Promise<HttpResponse> => {
+                await this.acquireRequestSlot();
+
+                const health = state.health;
+                health.active_requests++;
+                health.total_requests++;
+                health.last_used = new Date(this.options.clock.now());
+                try {
+                    return await transport.request(config);
+                } catch (error) {
+                    health.failed_requests++;
+                    health.last_error = error.message;
+                    throw error;
+                } finally {
+                    health.active_requests--;
+                    health.last_used = new Date(this.options.clock.now());
+                    this.releaseRequestSlot();
+                }
+            }
+        };
+    }
+
+    /**
+     * Waits until less than the maximum amount of requests are active
+     * @returns {Promise<void>}
+     */
+    private async acquireRequestSlot(): Promise<void> {
+        if (this.activeRequests < this.options.max_concurrent_requests) {
+            this.activeRequests++;
+            return;
+        }
+        await new Promise<void>(resolve => this.requestQueue.push(resolve));
+    }
+
+    private releaseRequestSlot(): void {
+        const nextRequest = this.requestQueue.shift();
+        if (nextRequest) {
+            // the slot is handed over to the next request directly
+            nextRequest();
+            return;
+        }
+        this.activeRequests--;
+    }
+
+    /**
+     * @param {TenantState} state
+     */
+    private evictClient(state: TenantState): void {
+        if (state.client) {
+            state.client.clearExpiryTimer();
+        }
+        state.client = null;
+        state.health.status = "inactive";
+        state.health.session_expiry_time = null;
+    }
+
+    private startIdleTimer(): void {
+        if (this.idleTimer !== null) return;
+
+        const interval = Math.min(
+            Math.max(this.options.idle_timeout, MIN_IDLE_CHECK_INTERVAL),
+            MAX_IDLE_CHECK_INTERVAL
+        );
+        this.idleTimer = this.options.clock.setInterval(() => this.evictIdleClients(), interval);
+        // the idle check shouldn't keep a node process running
+        if (this.idleTimer.unref) this.idleTimer.unref();
+    }
+
+    private stopIdleTimer(): void {
+        if (this.idleTimer === null) return;
+
+        this.options.clock.clearInterval(this.idleTimer);
+        this.idleTimer = null;
+    }
+}
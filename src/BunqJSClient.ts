@@ -1,17 +1,36 @@
-import axios from "axios";
-
 import Logger from "./Helpers/Logger";
+import RedactingLogger from "./Helpers/RedactingLogger";
+import LifecycleEvents from "./Helpers/LifecycleEvents";
+import SystemClock from "./Helpers/SystemClock";
+import { getEnvironment, getOAuthEnvironment } from "./Helpers/Environments";
+import { encodeParams } from "./Helpers/Utils";
 import ErrorCodes from "./Helpers/ErrorCodes";
+import BunqApiError from "./Errors/BunqApiError";
 import { publicKeyFromPem } from "./Crypto/Rsa";
 import { validateKey } from "./Crypto/Aes";
 
 import ApiAdapter from "./ApiAdapter";
+import WebhookHandler from "./HTTP/WebhookHandler";
+import EventStream from "./EventStream";
 import Session from "./Session";
 import LocalstorageStore from "./Stores/LocalstorageStore";
 
 import StorageInteface from "./Interfaces/StorageInterface";
 import LoggerInterface from "./Interfaces/LoggerInterface";
 import ApiEndpointCollection from "./Interfaces/ApiEndpointCollection";
+import HttpTransportInterface from "./Interfaces/HttpTransportInterface";
+import MiddlewareInterface, { MiddlewarePosition } from "./Interfaces/MiddlewareInterface";
+import InstrumentationInterface from "./Interfaces/InstrumentationInterface";
+import ClockInterface from "./Interfaces/ClockInterface";
+
+import { Method } from "./Types/Method";
+import RetryPolicy from "./Types/RetryPolicy";
+import RedactionOptions from "./Types/RedactionOptions";
+import ConnectOptions from "./Types/ConnectOptions";
+import ConnectResult, { ConnectRecovery } from "./Types/ConnectResult";
+import EventStreamOptions from "./Types/EventStreamOptions";
+import LifecycleEvent, { LifecycleEventMap, LifecycleListener, SessionDestroyedReason } from "./Types/LifecycleEvent";
+import { UserCollection } from "./Types/User";
 
 import AttachementContent from "./Api/AttachementContent";
 import AttachmentPublic from "./Api/AttachementPublic";
@@ -39,6 +58,9 @@ import MonetaryAccountJoint from "./Api/MonetaryAccountJoint";
 import MonetaryAccountSavings from "./Api/MonetaryAccountSavings";
 import NoteAttachment from "./Api/NoteAttachment";
 import NoteText from "./Api/NoteText";
+import NotificationFilterPushUser from "./Api/NotificationFilterPushUser";
+import NotificationFilterUrlMonetaryAccount from "./Api/NotificationFilterUrlMonetaryAccount";
+import NotificationFilterUrlUser from "./Api/NotificationFilterUrlUser";
 import Payment from "./Api/Payment";
 import PaymentBatch from "./Api/PaymentBatch";
 import RequestInquiry from "./Api/RequestInquiry";
@@ -51,6 +73,7 @@ import SchedulePaymentBatch from "./Api/SchedulePaymentBatch";
 import SessionServer from "./Api/SessionServer";
 import ShareInviteBankInquiry from "./Api/ShareInviteBankInquiry";
 import ShareInviteBankResponse from "./Api/ShareInviteBankResponse";
+import UnifiedMonetaryAccount from "./Api/UnifiedMonetaryAccount";
 import User from "./Api/User";
 import UserCompany from "./Api/UserCompany";
 import UserPerson from "./Api/UserPerson";
@@ -59,12 +82,28 @@ const FIVE_MINUTES_MS = 300000;
 
 export default class BunqJSClient {
     public storageInterface: StorageInteface;
-    public logger: LoggerInterface;
+    // masks tokens, keys and personal data before they reach the given logger
+    public logger: RedactingLogger;
     public apiKey: string | false = false;
 
     public Session: Session;
     public ApiAdapter: ApiAdapter;
 
+    /**
+     * Verifies and dispatches the callbacks received for URL notification filters
+     */
+    public webhooks: WebhookHandler;
+
+    /**
+     * Emits the installation and session lifecycle events, shared with the Session
+     */
+    public lifecycle: LifecycleEvents;
+
+    /**
+     * Provides the current time and the timers for the session keep alive, expiry checks and request limits
+     */
+    public clock: ClockInterface = SystemClock;
+
     /**
      * Decides whether the session is kept alive (which will be slightly faster)
      * or creates a new session when required
@@ -78,6 +117,11 @@ export default class BunqJSClient {
      */
     public fetchingNewSession: Promise<boolean> | false = false;
 
+    /**
+     * Contains the promise of a running connect call so concurrent calls share the same result
+     */
+    private connecting: Promise<ConnectResult> | null = null;
+
     /**
      * Contains object with all API endpoints
      */
@@ -104,14 +148,18 @@ export default class BunqJSClient {
         } else {
             this.storageInterface = storageInterface;
         }
-        this.logger = loggerInterface;
+        this.logger = new RedactingLogger(loggerInterface);
+        this.lifecycle = new LifecycleEvents(this.logger);
 
         // create a new session instance
-        this.Session = new Session(this.storageInterface, this.logger);
+        this.Session = new Session(this.storageInterface, this.logger, this.lifecycle);
 
         // setup the api adapter using our session context
         this.ApiAdapter = new ApiAdapter(this.Session, this.logger, this);
 
+        // receives the callbacks and verifies them using the session's server public key
+        this.webhooks = new WebhookHandler(this.Session, this.logger, this);
+
         // register the endpoints
         this.api = {
             attachmentContent: new AttachementContent(this.ApiAdapter),
@@ -140,6 +188,9 @@ export default class BunqJSClient {
             monetaryAccountSavings: new MonetaryAccountSavings(this.ApiAdapter),
             noteAttachment: new NoteAttachment(this.ApiAdapter),
             noteText: new NoteText(this.ApiAdapter),
+            notificationFilterPushUser: new NotificationFilterPushUser(this.ApiAdapter),
+            notificationFilterUrlMonetaryAccount: new NotificationFilterUrlMonetaryAccount(this.ApiAdapter),
+            notificationFilterUrlUser: new NotificationFilterUrlUser(this.ApiAdapter),
             payment: new Payment(this.ApiAdapter),
             paymentBatch: new PaymentBatch(this.ApiAdapter),
             requestInquiry: new RequestInquiry(this.ApiAdapter),
@@ -152,6 +203,7 @@ export default class BunqJSClient {
             sessionServer: new SessionServer(this.ApiAdapter),
             shareInviteBankInquiry: new ShareInviteBankInquiry(this.ApiAdapter),
             shareInviteBankResponse: new ShareInviteBankResponse(this.ApiAdapter),
+            unifiedMonetaryAccount: new UnifiedMonetaryAccount(this.ApiAdapter),
             user: new User(this.ApiAdapter),
             userCompany: new UserCompany(this.ApiAdapter),
             userPerson: new UserPerson(this.ApiAdapter)
@@ -182,6 +234,25 @@ export default class BunqJSClient {
         await this.ApiAdapter.setup();
     }
 
+    /**
+     * Runs the client and creates the installation, device and session when they aren't stored yet.
+     * Calling it again only sends requests for missing or expired parts, a stored installation which is rejected
+     * or which already has a session is replaced by a new installation once.
+     * @param {ConnectOptions} options
+     * @returns {Promise<ConnectResult>}
+     */
+    public async connect(options: ConnectOptions): Promise<ConnectResult> {
+        if (this.connecting === null) {
+            this.connecting = this.runConnect(options);
+        }
+
+        try {
+            return await this.connecting;
+        } finally {
+            this.connecting = null;
+        }
+    }
+
     /**
      * If true, polling requests will be sent to try and keep the current session
      * alive instead of creating a new session when required
@@ -192,6 +263,115 @@ export default class BunqJSClient {
         this.keepAlive = keepAlive;
     }
 
+    /**
+     * Sets the retry policy used for failed requests with the given method, false disables retries.
+     * POST requests are not retried by default since they aren't idempotent
+     * @param {Method} method
+     * @param {Partial<RetryPolicy> | false} retryPolicy
+     */
+    public setRetryPolicy(method: Method, retryPolicy: Partial<RetryPolicy> | false) {
+        this.ApiAdapter.setRetryPolicy(method, retryPolicy);
+    }
+
+    /**
+     * Changes which fields and patterns are masked in the logs, false disables redaction completely
+     * @param {Partial<RedactionOptions> | false} options
+     */
+    public setLogRedaction(options: Partial<RedactionOptions> | false) {
+        this.logger.setOptions(options);
+    }
+
+    /**
+     * Sets the transport used to send all http requests for this client, axios is used by default
+     * @param {HttpTransportInterface} transport
+     */
+    public setHttpTransport(transport: HttpTransportInterface) {
+        this.ApiAdapter.setHttpTransport(transport);
+    }
+
+    /**
+     * Replaces the clock used for the session keep alive, expiry checks and request limits,
+     * for example a FakeClock in tests or a clock without timers in runtimes where timers don't survive
+     * @param {ClockInterface} clock
+     */
+    public setClock(clock: ClockInterface) {
+        this.clearExpiryTimer();
+
+        this.clock = clock;
+        this.Session.clock = clock;
+        this.ApiAdapter.RequestLimitFactory.setClock(clock);
+
+        this.setExpiryTimer();
+    }
+
+    /**
+     * Adds a middleware which is called for all requests, for example to add headers or to audit requests
+     * @param {MiddlewareInterface} middleware
+     * @param {MiddlewarePosition} position - "before_signing" or "after_signing"
+     */
+    public addMiddleware(middleware: MiddlewareInterface, position: MiddlewarePosition = "before_signing") {
+        this.ApiAdapter.addMiddleware(middleware, position);
+    }
+
+    /**
+     * @param {string | MiddlewareInterface} middleware - the middleware or its name
+     */
+    public removeMiddleware(middleware: string | MiddlewareInterface) {
+        this.ApiAdapter.removeMiddleware(middleware);
+    }
+
+    /**
+     * Receives an event when each request attempt starts and finishes, for example a PrometheusCollector
+     * @param {InstrumentationInterface} instrumentation
+     */
+    public addInstrumentation(instrumentation: InstrumentationInterface) {
+        this.ApiAdapter.InstrumentationHandler.addInstrumentation(instrumentation);
+    }
+
+    /**
+     * @param {InstrumentationInterface} instrumentation
+     */
+    public removeInstrumentation(instrumentation: InstrumentationInterface) {
+        this.ApiAdapter.InstrumentationHandler.removeInstrumentation(instrumentation);
+    }
+
+    /**
+     * Subscribes to a lifecycle event, for example to show a login screen when the session expired
+     * @param {K} type - the event type or "*" for all events
+     * @param {LifecycleListener<LifecycleEventMap[K]>} listener
+     * @returns {BunqJSClient}
+     */
+    public on<K extends keyof LifecycleEventMap>(
+        type: K,
+        listener: LifecycleListener<LifecycleEventMap[K]>
+    ): BunqJSClient {
+        this.lifecycle.on(type, listener);
+        return this;
+    }
+
+    /**
+     * @param {K} type
+     * @param {LifecycleListener<LifecycleEventMap[K]>} listener
+     * @returns {BunqJSClient}
+     */
+    public off<K extends keyof LifecycleEventMap>(
+        type: K,
+        listener: LifecycleListener<LifecycleEventMap[K]>
+    ): BunqJSClient {
+        this.lifecycle.off(type, listener);
+        return this;
+    }
+
+    /**
+     * Creates a stream which polls for new events, an alternative to callbacks when no public url is available
+     * @param {number} userId
+     * @param {EventStreamOptions} options
+     * @returns {EventStream}
+     */
+    public createEventStream(userId: number, options: EventStreamOptions = {}): EventStream {
+        return new EventStream(this, userId, options);
+    }
+
     /**
      * Installs this application
      * @returns {Promise<boolean>}
@@ -216,6 +396,8 @@ export default class BunqJSClient {
 
             // update storage
             await this.Session.storeSession();
+
+            this.lifecycle.emit({ type: "installationCreated", environment: this.Session.environment });
         }
         return true;
     }
@@ -238,6 +420,12 @@ export default class BunqJSClient {
 
                 // update storage
                 await this.Session.storeSession();
+
+                this.lifecycle.emit({
+                    type: "deviceRegistered",
+                    environment: this.Session.environment,
+                    device_id: deviceId
+                });
             } catch (error) {
                 if (!error.response) {
                     throw error;
@@ -257,6 +445,8 @@ export default class BunqJSClient {
 
                     // store the removed information
                     await this.Session.storeSession();
+
+                    this.emitSessionDestroyed("installation_reset");
                 }
 
                 // rethrow the error
@@ -292,6 +482,122 @@ export default class BunqJSClient {
         return true;
     }
 
+    /**
+     * @param {ConnectOptions} options
+     * @returns {Promise<ConnectResult>}
+     */
+    private async runConnect(options: ConnectOptions): Promise<ConnectResult> {
+        const result: ConnectResult = { installation: "stored", device: "stored", session: "stored", recovered: [] };
+        const previousApiKeyIdentifier = this.Session.apiKeyIdentifier;
+
+        // the stored session is loaded while running, the events it emits show what had to be discarded
+        const loadEvents: LifecycleEvent[] = [];
+        const recordLoadEvent = (event: LifecycleEvent) => {
+            loadEvents.push(event);
+        };
+
+        if (typeof options.keep_alive === "boolean") {
+            this.setKeepAlive(options.keep_alive);
+        }
+        this.on("*", recordLoadEvent);
+        try {
+            await this.run(
+                options.api_key,
+                options.allowed_ips || [],
+                options.environment || "SANDBOX",
+                options.encryption_key || false
+            );
+        } finally {
+            this.off("*", recordLoadEvent);
+        }
+        if (options.after_run) {
+            await options.after_run();
+        }
+
+        const storedApiKeyChanged = loadEvents.some(
+            event => event.type === "sessionDestroyed" && event.reason === "api_key_changed"
+        );
+        if (
+            storedApiKeyChanged ||
+            (previousApiKeyIdentifier && previousApiKeyIdentifier !== this.Session.apiKeyIdentifier)
+        ) {
+            result.recovered.push("api_key_changed");
+        } else if (loadEvents.some(event => event.type === "sessionExpired")) {
+            result.recovered.push("expired_session");
+        }
+
+        try {
+            await this.connectSteps(options, result);
+        } catch (error) {
+            const recovery = this.getConnectRecovery(error, result);
+            if (recovery === false) throw error;
+
+            this.logger.debug(`Recovering from ${recovery} with a new installation`);
+            result.recovered.push(recovery);
+            await this.resetInstallation();
+            await this.connectSteps(options, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * @param {ConnectOptions} options
+     * @param {ConnectResult} result
+     * @returns {Promise<void>}
+     */
+    private async connectSteps(options: ConnectOptions, result: ConnectResult): Promise<void> {
+        if (this.Session.verifyInstallation() === false) {
+            await this.install();
+            result.installation = "created";
+        }
+        if (this.Session.verifyDeviceInstallation() === false) {
+            await this.registerDevice(options.device_name);
+            result.device = "created";
+        }
+        if (this.Session.verifySessionInstallation() === false) {
+            await this.registerSession();
+            result.session = "created";
+        }
+    }
+
+    /**
+     * Checks if a failed connect can be fixed by creating a new installation
+     * @param error
+     * @param {ConnectResult} result
+     * @returns {ConnectRecovery | false}
+     */
+    private getConnectRecovery(error: any, result: ConnectResult): ConnectRecovery | false {
+        if (error && error.errorCode === ErrorCodes.INSTALLATION_HAS_SESSION) {
+            return "installation_has_session";
+        }
+
+        // only a stored installation and device can be stale, errors for new ones are returned as is
+        const status = error && error.response ? error.response.status : false;
+        if ((status === 400 || status === 401) && result.installation === "stored" && result.device === "stored") {
+            return "stale_installation";
+        }
+        return false;
+    }
+
+    /**
+     * Removes the installation, device and session and creates a new keypair for the next installation
+     * @returns {Promise<void>}
+     */
+    private async resetInstallation(): Promise<void> {
+        this.clearExpiryTimer();
+
+        await this.Session.destroyApiSession();
+        await this.Session.destroyApiInstallation();
+        await this.Session.destroyApiDeviceInstallation();
+
+        // force creation of a new keypair since the old one is no longer 'unique'
+        await this.Session.setupKeypair(true);
+        await this.Session.storeSession();
+
+        this.emitSessionDestroyed("installation_reset");
+    }
+
     /**
      * Send the actual request and handle it
      * @returns {Promise<boolean>}
@@ -303,22 +609,11 @@ export default class BunqJSClient {
 
             response = await this.api.sessionServer.add();
         } catch (error) {
-            if (error.response && error.response.data.Error) {
-                const responseError = error.response.data.Error[0];
-                const description = responseError.error_description;
-
-                this.logger.error("bunq API error: " + description);
-
-                if (description === "Authentication token already has a user session.") {
-                    // add custom error code
-                    throw {
-                        errorCode: this.errorCodes.INSTALLATION_HAS_SESSION,
-                        error: error
-                    };
-                }
+            if (error instanceof BunqApiError) {
+                this.logger.error("bunq API error: " + error.errorDescriptions.join(", "));
             }
 
-            // rethrow the exact error
+            // rethrow the exact error, errorCode is INSTALLATION_HAS_SESSION if a session already exists
             throw error;
         }
 
@@ -366,6 +661,13 @@ export default class BunqJSClient {
         // update storage
         await this.Session.storeSession();
 
+        this.lifecycle.emit({
+            type: "sessionCreated",
+            environment: this.Session.environment,
+            session_id: this.Session.sessionId,
+            expiry_time: this.Session.sessionExpiryTime
+        });
+
         // update the timer
         this.setExpiryTimer();
 
@@ -427,19 +729,19 @@ export default class BunqJSClient {
      */
     public async createCredentials() {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip-request", "POST");
+        const credentialRequestUrl = getEnvironment(this.Session.environment).credential_request_url;
 
         // send a unsigned request to the endpoint to create a new credential password ip
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.post(
-                `https://api.tinker.bunq.com/v1/credential-password-ip-request`,
-                {},
-                {},
-                {
-                    disableVerification: true,
-                    disableSigning: true,
-                    skipSessionCheck: true
-                }
-            )
+        const response = await this.ApiAdapter.post(
+            credentialRequestUrl,
+            {},
+            {},
+            {
+                disableVerification: true,
+                disableSigning: true,
+                skipSessionCheck: true,
+                limiter: limiter
+            }
         );
 
         return response.Response[0].UserCredentialPasswordIpRequest;
@@ -452,31 +754,31 @@ export default class BunqJSClient {
      */
     public async checkCredentialStatus(uuid: string) {
         const limiter = this.ApiAdapter.RequestLimitFactory.create("/credential-password-ip-request", "GET");
+        const credentialRequestUrl = getEnvironment(this.Session.environment).credential_request_url;
 
         // send a unsigned request to the endpoint to create a new credential password ip with the uuid
-        const response = await limiter.run(async () =>
-            this.ApiAdapter.get(
-                `https://api.tinker.bunq.com/v1/credential-password-ip-request/${uuid}`,
-                {},
-                {
-                    disableVerification: true,
-                    disableSigning: true,
-                    skipSessionCheck: true
-                }
-            )
+        const response = await this.ApiAdapter.get(
+            `${credentialRequestUrl}/${uuid}`,
+            {},
+            {
+                disableVerification: true,
+                disableSigning: true,
+                skipSessionCheck: true,
+                limiter: limiter
+            }
         );
 
         return response.Response[0].UserCredentialPasswordIpRequest;
     }
 
     /**
-     *
+     * Exchanges an authorization code, use an OAuthClient to also manage the state and store the tokens
      * @param {string} clientId
      * @param {string} clientSecret
      * @param {string} redirectUri
      * @param {string} code
      * @param {string|false} state
-     * @param {boolean} sandbox
+     * @param {boolean|string} environment - true for the sandbox or the name of a registered environment
      * @param {string} grantType
      * @returns {Promise<string>}
      */
@@ -486,17 +788,26 @@ export default class BunqJSClient {
         redirectUri: string,
         code: string,
         state: string | false = false,
-        sandbox: boolean = false,
+        environment: boolean | string = false,
         grantType: string = "authorization_code"
     ): Promise<string> {
-        const url = this.formatOAuthKeyExchangeUrl(clientId, clientSecret, redirectUri, code, sandbox, grantType);
-
-        // send the request
-        const response = await axios({
+        // the client secret is sent in the body so it doesn't end up in the logs of proxies and servers
+        const response = await this.ApiAdapter.transport.request({
             method: "POST",
-            url: url
+            url: getOAuthEnvironment(environment).oauth_token_url,
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                Accept: "application/json"
+            },
+            data: encodeParams({
+                grant_type: grantType,
+                code: code,
+                redirect_uri: redirectUri,
+                client_id: clientId,
+                client_secret: clientSecret
+            })
         });
-        const data = response.data;
+        const data = typeof response.data === "string" ? JSON.parse(response.data) : response.data;
 
         // check if a state has to be checked and validate it
         if (state && state !== data.state) {
@@ -511,34 +822,35 @@ export default class BunqJSClient {
      * @param {string} clientId
      * @param {string} redirectUri
      * @param {string|false} state
-     * @param {boolean} sandbox
+     * @param {boolean|string} environment - true for the sandbox or the name of a registered environment
      * @returns {string}
      */
     public formatOAuthAuthorizationRequestUrl(
         clientId: string,
         redirectUri: string,
         state: string | false = false,
-        sandbox: boolean = false
+        environment: boolean | string = false
     ): string {
-        const stateParam = state ? `&state=${state}` : "";
+        const stateParam = state ? `&state=${encodeURIComponent(state)}` : "";
 
-        const baseUrl = sandbox ? "https://oauth.sandbox.bunq.com" : "https://oauth.bunq.com";
+        const authorizeUrl = getOAuthEnvironment(environment).oauth_authorize_url;
 
         return (
-            `${baseUrl}/auth?response_type=code&` +
-            `client_id=${clientId}&` +
-            `redirect_uri=${redirectUri}` +
+            `${authorizeUrl}?response_type=code&` +
+            `client_id=${encodeURIComponent(clientId)}&` +
+            `redirect_uri=${encodeURIComponent(redirectUri)}` +
             stateParam
         );
     }
 
     /**
      * Formats the given parameters into the url used for the token exchange
+     * @deprecated the url contains the client secret, use exchangeOAuthToken or an OAuthClient which send it in the body
      * @param {string} clientId
      * @param {string} clientSecret
      * @param {string} redirectUri
      * @param {string} code
-     * @param {boolean} sandbox
+     * @param {boolean|string} environment - true for the sandbox or the name of a registered environment
      * @param {string} grantType
      * @returns {string}
      */
@@ -547,18 +859,18 @@ export default class BunqJSClient {
         clientSecret: string,
         redirectUri: string,
         code: string,
-        sandbox: boolean = false,
+        environment: boolean | string = false,
         grantType: string = "authorization_code"
     ) {
-        const baseUrl = sandbox ? "https://api-oauth.sandbox.bunq.com" : "https://api.oauth.bunq.com";
+        const tokenUrl = getOAuthEnvironment(environment).oauth_token_url;
 
         return (
-            `${baseUrl}/v1/token?` +
-            `grant_type=${grantType}&` +
-            `code=${code}&` +
-            `client_id=${clientId}&` +
-            `client_secret=${clientSecret}&` +
-            `redirect_uri=${redirectUri}`
+            `${tokenUrl}?` +
+            `grant_type=${encodeURIComponent(grantType)}&` +
+            `code=${encodeURIComponent(code)}&` +
+            `client_id=${encodeURIComponent(clientId)}&` +
+            `client_secret=${encodeURIComponent(clientSecret)}&` +
+            `redirect_uri=${encodeURIComponent(redirectUri)}`
         );
     }
 
@@ -566,8 +878,8 @@ export default class BunqJSClient {
      * Sets an automatic timer to keep the session alive when possible
      */
     public setExpiryTimer(shortTimeout = false) {
-        if (typeof process !== "undefined" && process.env.ENV_CI === "true") {
-            // disable in CI
+        if (this.clock === SystemClock && typeof process !== "undefined" && process.env.ENV_CI === "true") {
+            // disable the system timers in CI, a custom clock can still be used to test the timer
             return false;
         }
 
@@ -588,7 +900,10 @@ export default class BunqJSClient {
             this.clearExpiryTimer();
 
             // set the timeout
-            this.Session.sessionExpiryTimeChecker = setTimeout(this.expiryTimerCallback, timeoutRequestDuration);
+            this.Session.sessionExpiryTimeChecker = this.clock.setTimeout(
+                this.expiryTimerCallback,
+                timeoutRequestDuration
+            );
         }
     }
 
@@ -597,7 +912,7 @@ export default class BunqJSClient {
      */
     public clearExpiryTimer() {
         if (this.Session.sessionExpiryTimeChecker !== null) {
-            clearTimeout(this.Session.sessionExpiryTimeChecker);
+            this.clock.clearTimeout(this.Session.sessionExpiryTimeChecker);
         }
     }
 
@@ -614,12 +929,17 @@ export default class BunqJSClient {
         // update users, don't wait for it to finish
         this.getUsers(true)
             .then(users => {
-                // do nothing
                 this.logger.debug("Triggered session refresh");
+                this.lifecycle.emit({
+                    type: "sessionRefreshed",
+                    environment: this.Session.environment,
+                    expiry_time: this.Session.sessionExpiryTime
+                });
             })
             .catch(error => {
                 // log the error
                 this.logger.error(error);
+                this.lifecycle.emit({ type: "keepAliveFailed", environment: this.Session.environment, error: error });
             });
 
         // set the timer again for a shorter duration (max 5 minutes)
@@ -639,8 +959,7 @@ export default class BunqJSClient {
                 : this.Session.sessionTimeout;
         }
 
-        const currentTime = new Date();
-        return this.Session.sessionExpiryTime.getTime() - currentTime.getTime();
+        return this.Session.sessionExpiryTime.getTime() - this.clock.now();
     }
 
     /**
@@ -664,6 +983,8 @@ export default class BunqJSClient {
 
         // destroy the stored session
         await this.Session.destroySession();
+
+        this.emitSessionDestroyed("destroyed");
     }
 
     /**
@@ -676,6 +997,15 @@ export default class BunqJSClient {
 
         // destroy the stored session
         await this.Session.destroyApiSession(save);
+
+        this.emitSessionDestroyed("destroyed");
+    }
+
+    /**
+     * @param {SessionDestroyedReason} reason
+     */
+    private emitSessionDestroyed(reason: SessionDestroyedReason) {
+        this.lifecycle.emit({ type: "sessionDestroyed", environment: this.Session.environment, reason: reason });
     }
 
     /**
@@ -705,9 +1035,9 @@ export default class BunqJSClient {
 
     /**
      * Returns the registered users for the session
-     * @returns {any}
+     * @returns {Promise<UserCollection>}
      */
-    public async getUsers(updated: boolean = false) {
+    public async getUsers(updated: boolean = false): Promise<UserCollection> {
         if (updated) {
             // update the user info and update session data
             const userList = await this.api.user.list();
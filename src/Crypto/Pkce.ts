@@ -0,0 +1,45 @@
+const forge = require("./CustomForge");
+
+const forgeSha256 = forge.sha256;
+const forgeUtil = forge.util;
+
+/**
+ * Encodes bytes as url safe base64 without padding
+ * @param {string} bytes
+ * @returns {string}
+ */
+const encodeBase64Url = (bytes: string): string => {
+    return forgeUtil
+        .encode64(bytes)
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+};
+
+/**
+ * Creates a random hex string, used for the OAuth state
+ * @param {number} byteLength
+ * @returns {string}
+ */
+export const createRandomToken = (byteLength: number = 32): string => {
+    return forgeUtil.bytesToHex(forge.random.getBytesSync(byteLength));
+};
+
+/**
+ * Creates a PKCE code verifier of 43 characters
+ * @returns {string}
+ */
+export const createCodeVerifier = (): string => {
+    return encodeBase64Url(forge.random.getBytesSync(32));
+};
+
+/**
+ * Creates the S256 code challenge for a PKCE code verifier
+ * @param {string} codeVerifier
+ * @returns {string}
+ */
+export const createCodeChallenge = (codeVerifier: string): string => {
+    const messageDigest = forgeSha256.create();
+    messageDigest.update(codeVerifier, "utf8");
+    return encodeBase64Url(messageDigest.digest().getBytes());
+};
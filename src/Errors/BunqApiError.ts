@@ -0,0 +1,36 @@
+import CustomError from "../Interfaces/CustomError";
+
+export type BunqApiErrorDetails = {
+    status: number | false;
+    responseId: string | false;
+    errorDescriptions: string[];
+    errorDescriptionsTranslated: string[];
+    endpoint: string;
+    method: string;
+};
+
+/**
+ * Base class for all errors caused by a failed request to the bunq api
+ */
+class BunqApiError extends CustomError {
+    public status: number | false;
+    public responseId: string | false;
+    public errorDescriptions: string[];
+    public errorDescriptionsTranslated: string[];
+    public endpoint: string;
+    public method: string;
+
+    constructor(message: string, response: any, details: BunqApiErrorDetails, errorCode: false | string = false) {
+        super(message, response, errorCode);
+
+        this.name = "BunqApiError";
+        this.status = details.status;
+        this.responseId = details.responseId;
+        this.errorDescriptions = details.errorDescriptions;
+        this.errorDescriptionsTranslated = details.errorDescriptionsTranslated;
+        this.endpoint = details.endpoint;
+        this.method = details.method;
+    }
+}
+
+export default BunqApiError;
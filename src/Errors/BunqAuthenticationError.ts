@@ -0,0 +1,14 @@
+import BunqApiError, { BunqApiErrorDetails } from "./BunqApiError";
+
+/**
+ * The api key, installation or session is invalid or has expired (401 or 403)
+ */
+class BunqAuthenticationError extends BunqApiError {
+    constructor(message: string, response: any, details: BunqApiErrorDetails, errorCode: false | string = false) {
+        super(message, response, details, errorCode);
+
+        this.name = "BunqAuthenticationError";
+    }
+}
+
+export default BunqAuthenticationError;
@@ -0,0 +1,14 @@
+import BunqApiError, { BunqApiErrorDetails } from "./BunqApiError";
+
+/**
+ * The requested object doesn't exist or isn't accessible for this user (404)
+ */
+class BunqNotFoundError extends BunqApiError {
+    constructor(message: string, response: any, details: BunqApiErrorDetails, errorCode: false | string = false) {
+        super(message, response, details, errorCode);
+
+        this.name = "BunqNotFoundError";
+    }
+}
+
+export default BunqNotFoundError;
@@ -0,0 +1,23 @@
+import CustomError from "../Interfaces/CustomError";
+
+/**
+ * The OAuth authorization was denied, the state was invalid or the token exchange failed
+ */
+class BunqOAuthError extends CustomError {
+    // the error parameter returned by the OAuth server, for example access_denied or invalid_grant
+    public oauthError: string | false;
+
+    constructor(
+        message: string,
+        response: any = false,
+        errorCode: false | string = false,
+        oauthError: string | false = false
+    ) {
+        super(message, response, errorCode);
+
+        this.name = "BunqOAuthError";
+        this.oauthError = oauthError;
+    }
+}
+
+export default BunqOAuthError;
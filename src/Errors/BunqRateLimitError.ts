@@ -0,0 +1,23 @@
+import BunqApiError, { BunqApiErrorDetails } from "./BunqApiError";
+
+/**
+ * Too many requests were sent to this endpoint (429)
+ */
+class BunqRateLimitError extends BunqApiError {
+    // amount of seconds to wait before retrying based on the Retry-After header
+    public retryAfter: number | false = false;
+
+    constructor(message: string, response: any, details: BunqApiErrorDetails, errorCode: false | string = false) {
+        super(message, response, details, errorCode);
+
+        this.name = "BunqRateLimitError";
+
+        const headers = response && response.headers ? response.headers : {};
+        const retryAfter = parseInt(headers["retry-after"] || headers["Retry-After"], 10);
+        if (!isNaN(retryAfter)) {
+            this.retryAfter = retryAfter;
+        }
+    }
+}
+
+export default BunqRateLimitError;
@@ -0,0 +1,14 @@
+import BunqApiError, { BunqApiErrorDetails } from "./BunqApiError";
+
+/**
+ * Something went wrong on bunq's side (5xx)
+ */
+class BunqServerError extends BunqApiError {
+    constructor(message: string, response: any, details: BunqApiErrorDetails, errorCode: false | string = false) {
+        super(message, response, details, errorCode);
+
+        this.name = "BunqServerError";
+    }
+}
+
+export default BunqServerError;
@@ -0,0 +1,14 @@
+import BunqApiError, { BunqApiErrorDetails } from "./BunqApiError";
+
+/**
+ * The request or response signature couldn't be verified
+ */
+class BunqSignatureError extends BunqApiError {
+    constructor(message: string, response: any, details: BunqApiErrorDetails, errorCode: false | string = false) {
+        super(message, response, details, errorCode);
+
+        this.name = "BunqSignatureError";
+    }
+}
+
+export default BunqSignatureError;
@@ -0,0 +1,14 @@
+import BunqApiError, { BunqApiErrorDetails } from "./BunqApiError";
+
+/**
+ * The request was rejected because of invalid input (400 or 422)
+ */
+class BunqValidationError extends BunqApiError {
+    constructor(message: string, response: any, details: BunqApiErrorDetails, errorCode: false | string = false) {
+        super(message, response, details, errorCode);
+
+        this.name = "BunqValidationError";
+    }
+}
+
+export default BunqValidationError;
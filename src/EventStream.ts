@@ -0,0 +1,288 @@
+import { EventEmitter } from "events";
+import BunqJSClient from "./BunqJSClient";
+import { collectAll, getItemObject, paginate } from "./Helpers/Paginator";
+import EventStreamOptions from "./Types/EventStreamOptions";
+import Event from "./Types/Event";
+import Payment from "./Types/Payment";
+
+export type EventStreamItem =
+    | { type: "event"; event: Event }
+    | { type: "payment"; monetary_account_id: number; payment: Payment };
+
+export type EventStreamCursors = {
+    events: number | false;
+    payments: { [monetaryAccountId: number]: number | false };
+};
+
+// the amount of item ids which are remembered to filter out duplicates
+const SEEN_ITEMS_LIMIT = 1000;
+
+/**
+ * Polls the event list (and optionally the payments of monetary accounts) for new items using newer_id cursors.
+ * New items are emitted as "event" and "payment" events or can be consumed with for await.
+ * Requests go through the same endpoints and request limiters as the rest of the client.
+ */
+export default class EventStream extends EventEmitter {
+    public BunqJSClient: BunqJSClient;
+    public userId: number;
+    public options: EventStreamOptions;
+
+    public cursors: EventStreamCursors | false = false;
+
+    private running: boolean = false;
+    private timer: any = null;
+    private currentInterval: number;
+    private seenItems: string[] = [];
+
+    /**
+     * @param {BunqJSClient} BunqJSClient
+     * @param {number} userId
+     * @param {EventStreamOptions} options
+     */
+    constructor(BunqJSClient: BunqJSClient, userId: number, options: EventStreamOptions = {}) {
+        super();
+        this.BunqJSClient = BunqJSClient;
+        this.userId = userId;
+        this.options = {
+            interval: 5000,
+            max_interval: 60000,
+            backoff_factor: 2,
+            count: 200,
+            monetary_account_ids: [],
+            name: `${userId}`,
+            emit_existing: false,
+            ...options
+        };
+        this.currentInterval = this.options.interval;
+    }
+
+    public on(event: "event", listener: (event: Event) => void): this;
+    public on(event: "payment", listener: (payment: Payment, monetaryAccountId: number) => void): this;
+    public on(event: "error", listener: (error: Error) => void): this;
+    public on(event: string | symbol, listener: (...args: any[]) => void): this;
+    public on(event: string | symbol, listener: (...args: any[]) => void): this {
+        return super.on(event, listener);
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Starts polling in the background until stop() is called
+     */
+    public start(): void {
+        if (this.running) return;
+        this.running = true;
+
+        this.schedule(0);
+    }
+
+    public stop(): void {
+        this.running = false;
+
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.emit("stop");
+    }
+
+    /**
+     * Fetches the new items once, emits them and stores the updated cursors
+     * @returns {Promise<EventStreamItem[]>}
+     */
+    public async poll(): Promise<EventStreamItem[]> {
+        const cursors = await this.loadCursors();
+        const items: EventStreamItem[] = [];
+
+        const events = await this.fetchNewItems(cursors.events, pageOptions =>
+            this.BunqJSClient.api.event.list(this.userId, pageOptions)
+        );
+        cursors.events = events.cursor;
+        events.items.forEach(item => items.push({ type: "event", event: getItemObject(item) }));
+
+        for (const monetaryAccountId of this.options.monetary_account_ids) {
+            const payments = await this.fetchNewItems(cursors.payments[monetaryAccountId], pageOptions =>
+                this.BunqJSClient.api.payment.list(this.userId, monetaryAccountId, pageOptions)
+            );
+            cursors.payments[monetaryAccountId] = payments.cursor;
+            payments.items.forEach(item =>
+                items.push({ type: "payment", monetary_account_id: monetaryAccountId, payment: getItemObject(item) })
+            );
+        }
+
+        await this.storeCursors(cursors);
+
+        const newItems = items.filter(item => this.markSeen(item));
+        newItems.forEach(item => {
+            if (item.type === "event") {
+                this.emit("event", item.event);
+            } else {
+                this.emit("payment", item.payment, item.monetary_account_id);
+            }
+        });
+
+        return newItems;
+    }
+
+    /**
+     * Starts the stream if required and yields the new items until the stream is stopped
+     * @returns {AsyncIterableIterator<EventStreamItem>}
+     */
+    public async *[Symbol.asyncIterator](): AsyncIterableIterator<EventStreamItem> {
+        const queue: EventStreamItem[] = [];
+        let wakeUp: () => void = () => {};
+
+        const onEvent = (event: Event) => {
+            queue.push({ type: "event", event: event });
+            wakeUp();
+        };
+        const onPayment = (payment: Payment, monetaryAccountId: number) => {
+            queue.push({ type: "payment", monetary_account_id: monetaryAccountId, payment: payment });
+            wakeUp();
+        };
+        const onStop = () => wakeUp();
+
+        this.on("event", onEvent);
+        this.on("payment", onPayment);
+        this.on("stop", onStop);
+
+        // stop the stream again when the loop ends if it was started for this iterator
+        const startedByIterator = !this.running;
+        this.start();
+
+        try {
+            while (true) {
+                if (queue.length > 0) {
+                    yield queue.shift();
+                    continue;
+                }
+                if (!this.running) return;
+
+                await new Promise(resolve => (wakeUp = resolve));
+            }
+        } finally {
+            this.removeListener("event", onEvent);
+            this.removeListener("payment", onPayment);
+            this.removeListener("stop", onStop);
+            if (startedByIterator && this.running) this.stop();
+        }
+    }
+
+    /**
+     * Removes the stored cursors so the next poll starts from the current items again
+     * @returns {Promise<void>}
+     */
+    public async reset(): Promise<void> {
+        this.cursors = false;
+        this.seenItems = [];
+        await this.BunqJSClient.Session.asyncStorageRemove(this.storageKey, true);
+    }
+
+    /**
+     * @param {number} delay
+     */
+    private schedule(delay: number): void {
+        this.timer = setTimeout(async () => {
+            this.timer = null;
+            if (!this.running) return;
+
+            try {
+                const items = await this.poll();
+
+                // back off while there is nothing new to reduce the amount of requests
+                this.currentInterval =
+                    items.length > 0
+                        ? this.options.interval
+                        : Math.min(this.currentInterval * this.options.backoff_factor, this.options.max_interval);
+            } catch (error) {
+                this.currentInterval = this.options.max_interval;
+
+                // emitting an error without listeners would throw
+                if (this.listenerCount("error") > 0) {
+                    this.emit("error", error);
+                } else {
+                    this.BunqJSClient.logger.error(error);
+                }
+            }
+
+            if (this.running) this.schedule(this.currentInterval);
+        }, delay);
+    }
+
+    /**
+     * @param {number | false} cursor
+     * @param {(pageOptions: any) => Promise<any[]>} fetchPage
+     * @returns {Promise<{items: any[]; cursor: number | false}>}
+     */
+    private async fetchNewItems(
+        cursor: number | false,
+        fetchPage: (pageOptions: any) => Promise<any[]>
+    ): Promise<{ items: any[]; cursor: number | false }> {
+        if (cursor === undefined || cursor === false) {
+            if (!this.options.emit_existing) {
+                // only remember where we are so the next poll returns the items created after now
+                const latestItems = await fetchPage({ count: 1, newer_id: false, older_id: false });
+                const latestId = latestItems.length > 0 ? getItemObject(latestItems[0]).id : 0;
+
+                return { items: [], cursor: latestId };
+            }
+            cursor = false;
+        }
+
+        const items = await collectAll(
+            paginate(fetchPage, {
+                direction: "newer",
+                count: this.options.count,
+                newer_id: cursor,
+                older_id: false
+            })
+        );
+
+        const itemIds = items.map(item => getItemObject(item).id).filter(id => id !== undefined);
+        const newCursor = itemIds.length > 0 ? Math.max(cursor || 0, ...itemIds) : cursor || 0;
+
+        return { items: items, cursor: newCursor };
+    }
+
+    /**
+     * @param {EventStreamItem} item
+     * @returns {boolean} false if the item was already seen
+     */
+    private markSeen(item: EventStreamItem): boolean {
+        const itemKey = item.type === "event" ? `event_${item.event.id}` : `payment_${item.payment.id}`;
+        if (this.seenItems.includes(itemKey)) return false;
+
+        this.seenItems.push(itemKey);
+        if (this.seenItems.length > SEEN_ITEMS_LIMIT) this.seenItems.shift();
+        return true;
+    }
+
+    /**
+     * @returns {Promise<EventStreamCursors>}
+     */
+    private async loadCursors(): Promise<EventStreamCursors> {
+        if (this.cursors === false) {
+            const storedCursors = await this.BunqJSClient.Session.asyncStorageGet(this.storageKey, true);
+
+            this.cursors = storedCursors || { events: false, payments: {} };
+        }
+        return this.cursors as EventStreamCursors;
+    }
+
+    /**
+     * @param {EventStreamCursors} cursors
+     * @returns {Promise<void>}
+     */
+    private async storeCursors(cursors: EventStreamCursors): Promise<void> {
+        this.cursors = cursors;
+        await this.BunqJSClient.Session.asyncStorageSet(this.storageKey, cursors);
+    }
+
+    private get storageKey(): string {
+        const Session = this.BunqJSClient.Session;
+
+        return `BUNQJSCLIENT_${Session.environment}_EVENT_STREAM_${Session.apiKeyIdentifier}_${this.options.name}`;
+    }
+}
@@ -0,0 +1,34 @@
+import BunqJSClient from "../BunqJSClient";
+import Session from "../Session";
+import LoggerInterface from "../Interfaces/LoggerInterface";
+import MiddlewareInterface from "../Interfaces/MiddlewareInterface";
+import MiddlewareContext from "../Types/MiddlewareContext";
+
+export default class AuthenticationHandler implements MiddlewareInterface {
+    public name: string = "authentication";
+
+    public Session: Session;
+    public logger: LoggerInterface;
+    public BunqJSClient: BunqJSClient;
+
+    constructor(Session: Session, loggerInterface: LoggerInterface, BunqJSClient: BunqJSClient) {
+        this.BunqJSClient = BunqJSClient;
+        this.Session = Session;
+        this.logger = loggerInterface;
+    }
+
+    /**
+     * Adds the session token or the installation token to the request
+     * @param {MiddlewareContext} context
+     */
+    public beforeSend(context: MiddlewareContext): void {
+        if (context.options.disableAuthentication === true) return;
+
+        // use session token or fallback to install taken if we have one
+        if (this.Session.sessionToken !== null) {
+            context.request.setAuthenticated(this.Session.sessionToken);
+        } else if (this.Session.installToken !== null) {
+            context.request.setAuthenticated(this.Session.installToken);
+        }
+    }
+}
@@ -0,0 +1,282 @@
+import * as Url from "url";
+import BunqJSClient from "../BunqJSClient";
+import Session from "../Session";
+import LoggerInterface from "../Interfaces/LoggerInterface";
+import HttpRequestConfig from "../Types/HttpRequestConfig";
+import HttpResponse from "../Types/HttpResponse";
+import Cassette, { CassetteInteraction, CassetteMode, CassetteRequest, CassetteResponse } from "../Types/Cassette";
+import { arrayBufferToString, fixHeaderCase } from "../Helpers/Utils";
+import { createResponseError } from "../Helpers/HttpErrors";
+import {
+    BUNQ_REQUEST_AUTHENTICATION_HEADER_KEY,
+    BUNQ_REQUEST_SIGNATURE_HEADER_KEY,
+    BUNQ_SERVER_SIGNATURE_HEADER_KEY
+} from "../ApiAdapter";
+
+export const CASSETTE_VERSION = 1;
+export const REDACTED_VALUE = "[REDACTED]";
+
+// headers which are never written to a cassette
+const REDACTED_HEADERS = [
+    BUNQ_REQUEST_AUTHENTICATION_HEADER_KEY,
+    BUNQ_REQUEST_SIGNATURE_HEADER_KEY,
+    BUNQ_SERVER_SIGNATURE_HEADER_KEY
+];
+
+// body fields which contain tokens, api keys or private keys
+const REDACTED_FIELDS = ["token", "secret", "access_token", "private_key", "client_private_key"];
+
+/**
+ * Replaces tokens, api keys and private keys in a request or response body
+ * @param value
+ * @returns {any}
+ */
+export const redactBody = (value: any): any => {
+    if (typeof value === "string") {
+        return value.includes("PRIVATE KEY-----") ? REDACTED_VALUE : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactBody);
+    }
+    if (value && Object.prototype.toString.call(value) === "[object Object]") {
+        const redactedValue = {};
+        Object.keys(value).forEach(key => {
+            const redactField = REDACTED_FIELDS.includes(key) && value[key] !== null && value[key] !== undefined;
+
+            redactedValue[key] = redactField ? REDACTED_VALUE : redactBody(value[key]);
+        });
+        return redactedValue;
+    }
+    return value;
+};
+
+/**
+ * Sorts the keys of objects so bodies can be compared as json strings
+ * @param value
+ * @returns {any}
+ */
+export const sortKeys = (value: any): any => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (!value || Object.prototype.toString.call(value) !== "[object Object]") return value;
+
+    const sortedValue = {};
+    Object.keys(value)
+        .sort()
+        .forEach(key => (sortedValue[key] = sortKeys(value[key])));
+    return sortedValue;
+};
+
+/**
+ * Records the requests sent by the ApiAdapter into a cassette and replays them later without calling the api.
+ * Recorded interactions are matched on method, path, params and body.
+ */
+export default class CassetteHandler {
+    public Session: Session;
+    public logger: LoggerInterface;
+    public BunqJSClient: BunqJSClient;
+
+    public mode: CassetteMode = "off";
+    public cassette: Cassette = { version: CASSETTE_VERSION, interactions: [] };
+
+    // interactions which were already replayed, identical requests are replayed in the recorded order
+    private replayedInteractions: CassetteInteraction[] = [];
+
+    constructor(Session: Session, loggerInterface: LoggerInterface, BunqJSClient: BunqJSClient) {
+        this.BunqJSClient = BunqJSClient;
+        this.Session = Session;
+        this.logger = loggerInterface;
+    }
+
+    get isReplaying(): boolean {
+        return this.mode === "replay";
+    }
+
+    /**
+     * Starts recording all requests into a new or existing cassette
+     * @param {Cassette} cassette
+     */
+    public record(cassette: Cassette = { version: CASSETTE_VERSION, interactions: [] }): void {
+        this.mode = "record";
+        this.cassette = cassette;
+    }
+
+    /**
+     * Answers all requests from the cassette, requests which weren't recorded fail
+     * @param {Cassette} cassette
+     */
+    public replay(cassette: Cassette): void {
+        this.mode = "replay";
+        this.cassette = cassette;
+        this.replayedInteractions = [];
+    }
+
+    public stop(): void {
+        this.mode = "off";
+    }
+
+    /**
+     * Loads a cassette file and starts replaying it
+     * @param {string} fileLocation
+     * @returns {Promise<Cassette>}
+     */
+    public async load(fileLocation: string): Promise<Cassette> {
+        const fs = require("fs");
+        const cassette: Cassette = JSON.parse(fs.readFileSync(fileLocation, "utf8"));
+
+        this.replay(cassette);
+        return cassette;
+    }
+
+    /**
+     * Writes the current cassette to a file
+     * @param {string} fileLocation
+     * @returns {Promise<void>}
+     */
+    public async save(fileLocation: string): Promise<void> {
+        const fs = require("fs");
+
+        fs.writeFileSync(fileLocation, JSON.stringify(this.cassette, null, 4));
+    }
+
+    /**
+     * Sends the request or answers it from the cassette depending on the current mode
+     * @param {string} method
+     * @param {string} url
+     * @param data - the body before encryption
+     * @param {HttpRequestConfig} requestConfig
+     * @param {(requestConfig: HttpRequestConfig) => Promise<HttpResponse>} sendRequest
+     * @returns {Promise<HttpResponse>}
+     */
+    public async send(
+        method: string,
+        url: string,
+        data: any,
+        requestConfig: HttpRequestConfig,
+        sendRequest: (requestConfig: HttpRequestConfig) => Promise<HttpResponse>
+    ): Promise<HttpResponse> {
+        if (this.mode === "off") {
+            return sendRequest(requestConfig);
+        }
+
+        const cassetteRequest = this.createRequest(method, url, data, requestConfig.params);
+
+        if (this.mode === "replay") {
+            return this.replayRequest(cassetteRequest, requestConfig);
+        }
+
+        try {
+            const response = await sendRequest(requestConfig);
+            this.addInteraction(cassetteRequest, response);
+            return response;
+        } catch (error) {
+            if (error && error.response) {
+                this.addInteraction(cassetteRequest, error.response);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * @param {CassetteRequest} cassetteRequest
+     * @returns {CassetteInteraction | false}
+     */
+    public findInteraction(cassetteRequest: CassetteRequest): CassetteInteraction | false {
+        const requestKey = JSON.stringify(sortKeys(cassetteRequest));
+        const matches = this.cassette.interactions.filter(
+            interaction => JSON.stringify(sortKeys(interaction.request)) === requestKey
+        );
+        if (matches.length === 0) return false;
+
+        // use the first unused match, the last match is used again when all of them have been replayed
+        const interaction = matches.find(match => !this.replayedInteractions.includes(match));
+        return interaction || matches[matches.length - 1];
+    }
+
+    /**
+     * @param {string} method
+     * @param {string} url
+     * @param data
+     * @param params
+     * @returns {CassetteRequest}
+     */
+    private createRequest(method: string, url: string, data: any, params: any = {}): CassetteRequest {
+        const parsedUrl = Url.parse(url, true);
+        const combinedParams = { ...parsedUrl.query, ...(params || {}) };
+
+        // sort the params so the order in which they were set doesn't matter when matching
+        const sortedParams = {};
+        Object.keys(combinedParams)
+            .sort()
+            .forEach(key => (sortedParams[key] = `${combinedParams[key]}`));
+
+        return {
+            method: method.toUpperCase(),
+            path: parsedUrl.pathname,
+            params: sortedParams,
+            body: sortKeys(redactBody(data === "" || data === undefined ? {} : data))
+        };
+    }
+
+    /**
+     * @param {CassetteRequest} cassetteRequest
+     * @param response
+     */
+    private addInteraction(cassetteRequest: CassetteRequest, response: any): void {
+        const headers = {};
+        Object.keys(response.headers || {}).forEach(headerKey => {
+            if (!REDACTED_HEADERS.includes(fixHeaderCase(headerKey))) {
+                headers[headerKey] = response.headers[headerKey];
+            }
+        });
+
+        const cassetteResponse: CassetteResponse = { status: response.status, headers: headers, body: "" };
+        if (typeof response.data === "string") {
+            try {
+                cassetteResponse.body = redactBody(JSON.parse(response.data));
+            } catch (error) {
+                cassetteResponse.body = response.data;
+            }
+        } else if (response.data instanceof ArrayBuffer || ArrayBuffer.isView(response.data)) {
+            cassetteResponse.body = arrayBufferToString(response.data);
+            cassetteResponse.binary = true;
+        } else if (response.data !== undefined && response.data !== null) {
+            cassetteResponse.body = redactBody(response.data);
+        }
+
+        this.cassette.interactions.push({ request: cassetteRequest, response: cassetteResponse });
+    }
+
+    /**
+     * Creates the response from the cassette, failed responses are thrown like a transport does
+     * @param {CassetteRequest} cassetteRequest
+     * @param {HttpRequestConfig} requestConfig
+     * @returns {HttpResponse}
+     */
+    private replayRequest(cassetteRequest: CassetteRequest, requestConfig: HttpRequestConfig): HttpResponse {
+        const interaction = this.findInteraction(cassetteRequest);
+        if (interaction === false) {
+            throw new Error(`No recorded interaction found for ${cassetteRequest.method} ${cassetteRequest.path}`);
+        }
+        this.replayedInteractions.push(interaction);
+
+        const cassetteResponse = interaction.response;
+        let data: any = cassetteResponse.body;
+        if (cassetteResponse.binary) {
+            const binaryString: string = cassetteResponse.body;
+            data = Uint8Array.from(binaryString.split("").map(character => character.charCodeAt(0))).buffer;
+        } else if (typeof data !== "string") {
+            data = JSON.stringify(data);
+        }
+
+        const response: HttpResponse = {
+            status: cassetteResponse.status,
+            headers: { ...cassetteResponse.headers },
+            data: data
+        };
+
+        if (response.status < 200 || response.status >= 300) {
+            throw createResponseError(requestConfig, response);
+        }
+        return response;
+    }
+}
@@ -3,15 +3,19 @@ import { encryptString } from "../Crypto/Sha256";
 import BunqJSClient from "../BunqJSClient";
 import Session from "../Session";
 import LoggerInterface from "../Interfaces/LoggerInterface";
+import MiddlewareInterface from "../Interfaces/MiddlewareInterface";
 import Request from "./Request";
 
 import ApiAdapterOptions from "../Types/ApiAdapterOptions";
+import MiddlewareContext from "../Types/MiddlewareContext";
 
 const HEADER_CLIENT_ENCRYPTION_HMAC = "X-Bunq-Client-Encryption-Hmac";
 const HEADER_CLIENT_ENCRYPTION_IV = "X-Bunq-Client-Encryption-Iv";
 const HEADER_CLIENT_ENCRYPTION_KEY = "X-Bunq-Client-Encryption-Key";
 
-export default class EncryptRequestHandler {
+export default class EncryptRequestHandler implements MiddlewareInterface {
+    public name: string = "encryption";
+
     public Session: Session;
     public logger: LoggerInterface;
     public BunqJSClient: BunqJSClient;
@@ -22,6 +26,17 @@ export default class EncryptRequestHandler {
         this.logger = loggerInterface;
     }
 
+    /**
+     * Encrypts the request body for requests which require it
+     * @param {MiddlewareContext} context
+     * @returns {Promise<void>}
+     */
+    public async beforeSend(context: MiddlewareContext): Promise<void> {
+        if (context.options.isEncrypted !== true) return;
+
+        await this.encryptRequest(context.request, context.options);
+    }
+
     /**
      * Signs a request using our privatekey
      * @param {Request} request
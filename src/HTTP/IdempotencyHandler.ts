@@ -0,0 +1,222 @@
+import BunqJSClient from "../BunqJSClient";
+import Session from "../Session";
+import LoggerInterface from "../Interfaces/LoggerInterface";
+import { stringToHash } from "../Crypto/Sha256";
+import { unwrapObject } from "../Helpers/Utils";
+import { BUNQ_REQUEST_ID_HEADER_KEY } from "../ApiAdapter";
+import BunqSignatureError from "../Errors/BunqSignatureError";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+
+export type IdempotencyRecord = {
+    status: "PENDING" | "COMPLETED";
+    fingerprint: string;
+    reference: string;
+    response: any;
+    created: number;
+};
+
+export default class IdempotencyHandler {
+    public Session: Session;
+    public logger: LoggerInterface;
+    public BunqJSClient: BunqJSClient;
+
+    // stored records older than this are ignored and removed, defaults to 24 hours
+    public recordTtl: number = 24 * 60 * 60 * 1000;
+
+    // the maximum amount of items findExisting walks through when looking for an earlier attempt
+    public searchLimit: number = 1000;
+
+    // items created this long before the first attempt are still checked to allow for clock differences
+    public searchMargin: number = 5 * 60 * 1000;
+
+    // requests which are currently being sent, to prevent two calls with the same key running in parallel
+    private inFlight: { [idempotencyKey: string]: Promise<any> } = {};
+
+    constructor(Session: Session, loggerInterface: LoggerInterface, BunqJSClient: BunqJSClient) {
+        this.BunqJSClient = BunqJSClient;
+        this.Session = Session;
+        this.logger = loggerInterface;
+    }
+
+    /**
+     * Sends a request which creates a payment at most once for the given idempotency key.
+     * The key is sent as the request id and the reference should be set as merchant_reference in the request so a
+     * request of which the response got lost can be found again by walking through the items created since the first
+     * attempt with findExisting.
+     *
+     * @param {string | false} idempotencyKey - false to send the request without any protection
+     * @param {string} reference - the merchant_reference used in the request
+     * @param {string} url
+     * @param data - the request body, used to verify that a key isn't reused for a different request
+     * @param {(options: PaginationIteratorOptions) => Promise<any[]>} findExisting - lists the items within the bounds
+     * @param {(headers: any) => Promise<any>} sendRequest - sends the request with the given headers
+     * @returns {Promise<any>}
+     */
+    public async send(
+        idempotencyKey: string | false,
+        reference: string,
+        url: string,
+        data: any,
+        findExisting: (options: PaginationIteratorOptions) => Promise<any[]>,
+        sendRequest: (headers: any) => Promise<any>
+    ): Promise<any> {
+        if (idempotencyKey === false || idempotencyKey === undefined) {
+            return sendRequest({});
+        }
+
+        if (this.inFlight[idempotencyKey]) {
+            this.logger.debug(`Waiting for in-flight request with idempotency key ${idempotencyKey}`);
+            return this.inFlight[idempotencyKey];
+        }
+
+        const requestPromise = this.sendOnce(idempotencyKey, reference, url, data, findExisting, sendRequest);
+
+        this.inFlight[idempotencyKey] = requestPromise;
+        try {
+            return await requestPromise;
+        } finally {
+            delete this.inFlight[idempotencyKey];
+        }
+    }
+
+    /**
+     * Removes the stored record for an idempotency key
+     * @param {string} idempotencyKey
+     * @returns {Promise<any>}
+     */
+    public async forget(idempotencyKey: string) {
+        return this.Session.asyncStorageRemove(this.getStorageKey(idempotencyKey), true);
+    }
+
+    /**
+     * @param {string} idempotencyKey
+     * @returns {Promise<IdempotencyRecord | false>}
+     */
+    public async getRecord(idempotencyKey: string): Promise<IdempotencyRecord | false> {
+        const storageKey = this.getStorageKey(idempotencyKey);
+        const record: IdempotencyRecord = await this.Session.asyncStorageGet(storageKey, true);
+        if (!record) return false;
+
+        if (record.created + this.recordTtl < this.BunqJSClient.clock.now()) {
+            await this.Session.asyncStorageRemove(storageKey, true);
+            return false;
+        }
+        return record;
+    }
+
+    /**
+     * @param {string} idempotencyKey
+     * @param {string} reference
+     * @param {string} url
+     * @param data
+     * @param {(options: PaginationIteratorOptions) => Promise<any[]>} findExisting
+     * @param {(headers: any) => Promise<any>} sendRequest
+     * @returns {Promise<any>}
+     */
+    private async sendOnce(
+        idempotencyKey: string,
+        reference: string,
+        url: string,
+        data: any,
+        findExisting: (options: PaginationIteratorOptions) => Promise<any[]>,
+        sendRequest: (headers: any) => Promise<any>
+    ): Promise<any> {
+        const storageKey = this.getStorageKey(idempotencyKey);
+        const fingerprint = await stringToHash(JSON.stringify({ url: url, data: data }));
+        const record = await this.getRecord(idempotencyKey);
+
+        if (record !== false) {
+            if (record.fingerprint !== fingerprint) {
+                throw new Error(`Idempotency key "${idempotencyKey}" was already used for a different request`);
+            }
+
+            if (record.status === "COMPLETED") {
+                this.logger.debug(`Returning stored response for idempotency key ${idempotencyKey}`);
+                return record.response;
+            }
+
+            // the previous attempt never got a response, check if the server processed it anyway
+            const existingItems = await findExisting({
+                count: 200,
+                max_items: this.searchLimit,
+                date_cutoff: new Date(record.created - this.searchMargin)
+            });
+            const existingId = findReference(existingItems, record.reference);
+            if (existingId !== false) {
+                this.logger.debug(`Found existing item ${existingId} for idempotency key ${idempotencyKey}`);
+
+                const response = { Response: [{ Id: { id: existingId } }] };
+                await this.Session.asyncStorageSet(storageKey, { ...record, status: "COMPLETED", response: response });
+                return response;
+            }
+        }
+
+        const pendingRecord: IdempotencyRecord = {
+            status: "PENDING",
+            fingerprint: fingerprint,
+            reference: reference,
+            response: null,
+            created: record !== false ? record.created : this.BunqJSClient.clock.now()
+        };
+        await this.Session.asyncStorageSet(storageKey, pendingRecord);
+
+        let response;
+        try {
+            response = await sendRequest({ [BUNQ_REQUEST_ID_HEADER_KEY]: idempotencyKey });
+        } catch (error) {
+            // only a definite rejection means nothing was created, otherwise the record is kept pending
+            if (isRejectedRequest(error)) {
+                await this.Session.asyncStorageRemove(storageKey, true);
+            }
+            throw error;
+        }
+
+        await this.Session.asyncStorageSet(storageKey, { ...pendingRecord, status: "COMPLETED", response: response });
+        return response;
+    }
+
+    /**
+     * @param {string} idempotencyKey
+     * @returns {string}
+     */
+    private getStorageKey(idempotencyKey: string): string {
+        return `BUNQJSCLIENT_${this.Session.environment}_IDEMPOTENCY_${this.Session.apiKeyIdentifier}_${idempotencyKey}`;
+    }
+}
+
+/**
+ * Checks if the server refused the request without processing it. Server errors can happen after the payment was
+ * created, a failed signature check means the request was accepted and a 401 is replayed with a new session.
+ * @param error
+ * @returns {boolean}
+ */
+export const isRejectedRequest = (error: any): boolean => {
+    if (!error || !error.response || error instanceof BunqSignatureError) return false;
+
+    const status = error.response.status;
+    return status >= 400 && status < 500 && status !== 401;
+};
+
+/**
+ * Returns the id of the first item which contains the reference as merchant_reference, nested objects like the
+ * payments in a batch or the entries of a draft payment are included
+ * @param {any[]} items
+ * @param {string} reference
+ * @returns {number | false}
+ */
+export const findReference = (items: any[], reference: string): number | false => {
+    const containsReference = (value: any): boolean => {
+        if (!value || typeof value !== "object") return false;
+        if (value.merchant_reference === reference) return true;
+
+        return Object.keys(value).some(key => containsReference(value[key]));
+    };
+
+    for (const item of items || []) {
+        if (!containsReference(item)) continue;
+
+        // list items are wrapped like { Payment: { id: 1 } }
+        return item.id !== undefined ? item.id : unwrapObject(item).id;
+    }
+    return false;
+};
@@ -0,0 +1,161 @@
+import * as Url from "url";
+import BunqJSClient from "../BunqJSClient";
+import Session from "../Session";
+import LoggerInterface from "../Interfaces/LoggerInterface";
+import MiddlewareInterface from "../Interfaces/MiddlewareInterface";
+import InstrumentationInterface from "../Interfaces/InstrumentationInterface";
+import BunqSignatureError from "../Errors/BunqSignatureError";
+import MiddlewareContext from "../Types/MiddlewareContext";
+import RequestEvent from "../Types/RequestEvent";
+import ErrorCodes from "../Helpers/ErrorCodes";
+import { BUNQ_REQUEST_ID_HEADER_KEY } from "../ApiAdapter";
+
+const RESPONSE_ID_HEADER_KEY = "x-bunq-client-response-id";
+
+/**
+ * Turns a url into the endpoint template used to group requests, for example
+ * /v1/user/1/monetary-account/2/payment?count=10 becomes /v1/user/{id}/monetary-account/{id}/payment
+ * @param {string} url
+ * @returns {string}
+ */
+export const getEndpointTemplate = (url: string): string => {
+    const pathname = Url.parse(url).pathname || "";
+
+    return pathname
+        .split("/")
+        .map(part => (/^\d+$/.test(part) ? "{id}" : part))
+        .join("/");
+};
+
+/**
+ * @param data
+ * @returns {number}
+ */
+const getByteLength = (data: any): number => {
+    if (data === undefined || data === null || data === "") return 0;
+    if (typeof data === "string") return Buffer.byteLength(data, "utf8");
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+
+    return Buffer.byteLength(JSON.stringify(data), "utf8");
+};
+
+/**
+ * Emits a started and finished event for each request attempt to the registered instrumentations
+ */
+export default class InstrumentationHandler implements MiddlewareInterface {
+    public name: string = "instrumentation";
+
+    public Session: Session;
+    public logger: LoggerInterface;
+    public BunqJSClient: BunqJSClient;
+
+    public instrumentations: InstrumentationInterface[] = [];
+
+    constructor(Session: Session, loggerInterface: LoggerInterface, BunqJSClient: BunqJSClient) {
+        this.BunqJSClient = BunqJSClient;
+        this.Session = Session;
+        this.logger = loggerInterface;
+    }
+
+    /**
+     * @param {InstrumentationInterface} instrumentation
+     */
+    public addInstrumentation(instrumentation: InstrumentationInterface): void {
+        this.instrumentations.push(instrumentation);
+    }
+
+    /**
+     * @param {InstrumentationInterface} instrumentation
+     */
+    public removeInstrumentation(instrumentation: InstrumentationInterface): void {
+        this.instrumentations = this.instrumentations.filter(item => item !== instrumentation);
+    }
+
+    /**
+     * @param {MiddlewareContext} context
+     */
+    public beforeSend(context: MiddlewareContext): void {
+        if (this.instrumentations.length === 0) return;
+
+        this.emit("requestStarted", this.createEvent(context));
+    }
+
+    /**
+     * @param {MiddlewareContext} context
+     */
+    public afterReceive(context: MiddlewareContext): void {
+        if (this.instrumentations.length === 0) return;
+
+        this.emit("requestFinished", this.createEvent(context, true));
+    }
+
+    /**
+     * @param {MiddlewareContext} context
+     */
+    public onError(context: MiddlewareContext): void {
+        if (this.instrumentations.length === 0) return;
+
+        this.emit("requestFinished", this.createEvent(context, true));
+    }
+
+    /**
+     * @param {MiddlewareContext} context
+     * @param {boolean} finished
+     * @returns {RequestEvent}
+     */
+    private createEvent(context: MiddlewareContext, finished: boolean = false): RequestEvent {
+        const event: RequestEvent = {
+            requestId: `${context.request.getHeader(BUNQ_REQUEST_ID_HEADER_KEY)}`,
+            endpoint: getEndpointTemplate(context.url),
+            url: context.url,
+            method: context.method,
+            attempt: context.attempt,
+            startTime: context.startTime,
+            queueDuration: context.queueDuration,
+            duration: 0,
+            status: null,
+            requestBytes: 0,
+            responseBytes: 0,
+            responseId: null,
+            error: null,
+            verificationFailed: false
+        };
+        if (!finished) return event;
+
+        const error = context.error || null;
+        // failed requests only contain a response if the api returned an error
+        const response = context.response || (error && error.response) || null;
+
+        event.duration = this.BunqJSClient.clock.now() - context.startTime;
+        event.requestBytes = getByteLength(context.request.data);
+        event.error = error;
+        event.verificationFailed =
+            error instanceof BunqSignatureError && error.errorCode === ErrorCodes.INVALID_RESPONSE_RECEIVED;
+
+        if (response) {
+            const headers = response.headers || {};
+
+            event.status = response.status || null;
+            event.responseBytes = getByteLength(response.data);
+            event.responseId = headers[RESPONSE_ID_HEADER_KEY] || null;
+        }
+        return event;
+    }
+
+    /**
+     * Instrumentation errors are logged so they never break the request itself
+     * @param {string} hook
+     * @param {RequestEvent} event
+     */
+    private emit(hook: "requestStarted" | "requestFinished", event: RequestEvent): void {
+        this.instrumentations.forEach(instrumentation => {
+            if (!instrumentation[hook]) return;
+
+            try {
+                instrumentation[hook](event);
+            } catch (error) {
+                this.logger.error(error);
+            }
+        });
+    }
+}
@@ -0,0 +1,81 @@
+import { IncomingMessage, ServerResponse } from "http";
+import WebhookHandler from "./WebhookHandler";
+import BunqSignatureError from "../Errors/BunqSignatureError";
+import { INVALID_CALLBACK_RECEIVED } from "../Helpers/ErrorCodes";
+import Headers from "../Types/Headers";
+
+export type NodeWebhookAdapterOptions = {
+    // only handle requests for this path, other requests receive a 404
+    path?: string | false;
+};
+
+/**
+ * Creates a request listener for the NodeJS http module which passes callbacks to the webhook handler
+ *
+ * http.createServer(createWebhookRequestListener(bunqJSClient.webhooks)).listen(8080);
+ *
+ * @param {WebhookHandler} webhookHandler
+ * @param {NodeWebhookAdapterOptions} options
+ * @returns {(request: IncomingMessage, response: ServerResponse) => void}
+ */
+export const createWebhookRequestListener = (
+    webhookHandler: WebhookHandler,
+    options: NodeWebhookAdapterOptions = {}
+) => {
+    const path = options.path || false;
+
+    return (request: IncomingMessage, response: ServerResponse): void => {
+        const requestPath = (request.url || "").split("?")[0];
+        if (path !== false && requestPath !== path) {
+            return respond(response, 404);
+        }
+        if (request.method !== "POST") {
+            return respond(response, 405);
+        }
+
+        const chunks: Buffer[] = [];
+        request.on("data", (chunk: Buffer | string) => {
+            chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+        });
+        request.on("error", () => respond(response, 400));
+        request.on("end", () => {
+            const body = Buffer.concat(chunks).toString("utf8");
+
+            webhookHandler
+                .handle(body, getHeaders(request))
+                .then(() => respond(response, 200))
+                .catch(error => {
+                    if (error instanceof BunqSignatureError) return respond(response, 401);
+                    if (error && error.errorCode === INVALID_CALLBACK_RECEIVED) return respond(response, 400);
+
+                    // a failing listener returns a server error so bunq sends the callback again later
+                    webhookHandler.logger.error(error);
+                    respond(response, 500);
+                });
+        });
+    };
+};
+
+/**
+ * @param {IncomingMessage} request
+ * @returns {Headers}
+ */
+const getHeaders = (request: IncomingMessage): Headers => {
+    const headers: Headers = {};
+    Object.keys(request.headers).forEach(headerKey => {
+        const value = request.headers[headerKey];
+        headers[headerKey] = Array.isArray(value) ? value.join(", ") : `${value}`;
+    });
+    return headers;
+};
+
+/**
+ * @param {ServerResponse} response
+ * @param {number} status
+ */
+const respond = (response: ServerResponse, status: number): void => {
+    response.statusCode = status;
+    response.end();
+};
+
+export default createWebhookRequestListener;
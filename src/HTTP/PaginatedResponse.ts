@@ -0,0 +1,139 @@
+import * as Url from "url";
+import ApiAdapter from "../ApiAdapter";
+import RequestLimiter from "../RequestLimiter";
+import Pagination from "../Types/Pagination";
+
+export default class PaginatedResponse<T = any> {
+    public items: T[];
+    public pagination: Pagination;
+
+    private ApiAdapter: ApiAdapter;
+    private limiter: RequestLimiter;
+
+    /**
+     * @param response - the parsed response body from a list endpoint
+     * @param {ApiAdapter} ApiAdapter
+     * @param {RequestLimiter} limiter - used when fetching the other pages
+     */
+    constructor(response: any, ApiAdapter: ApiAdapter, limiter: RequestLimiter) {
+        this.ApiAdapter = ApiAdapter;
+        this.limiter = limiter;
+
+        this.items = response && response.Response ? response.Response : [];
+        this.pagination = PaginatedResponse.parsePagination(response ? response.Pagination : undefined);
+    }
+
+    get hasOlder(): boolean {
+        return !!this.pagination.older_url;
+    }
+    get hasNewer(): boolean {
+        return !!this.pagination.newer_url;
+    }
+    get hasFuture(): boolean {
+        return !!this.pagination.future_url;
+    }
+
+    /**
+     * Fetches the page with items older than the current page
+     * @returns {Promise<PaginatedResponse<T> | false>}
+     */
+    public async older(): Promise<PaginatedResponse<T> | false> {
+        return this.fetchPage(this.pagination.older_url);
+    }
+
+    /**
+     * Fetches the page with items newer than the current page
+     * @returns {Promise<PaginatedResponse<T> | false>}
+     */
+    public async newer(): Promise<PaginatedResponse<T> | false> {
+        return this.fetchPage(this.pagination.newer_url);
+    }
+
+    /**
+     * Fetches the items created after this page was loaded, only set on the newest page
+     * @returns {Promise<PaginatedResponse<T> | false>}
+     */
+    public async future(): Promise<PaginatedResponse<T> | false> {
+        return this.fetchPage(this.pagination.future_url);
+    }
+
+    /**
+     * @param {string | null} url
+     * @returns {Promise<PaginatedResponse<T> | false>}
+     */
+    private async fetchPage(url: string | null): Promise<PaginatedResponse<T> | false> {
+        if (!url) return false;
+
+        const response = await this.ApiAdapter.get(url, {}, { limiter: this.limiter });
+
+        return new PaginatedResponse<T>(response, this.ApiAdapter, this.limiter);
+    }
+
+    /**
+     * Fetches a page directly from a pagination url, for example a stored future_url
+     * @param {ApiAdapter} ApiAdapter
+     * @param {string} url
+     * @returns {Promise<PaginatedResponse<T>>}
+     */
+    public static async fromUrl<T = any>(ApiAdapter: ApiAdapter, url: string): Promise<PaginatedResponse<T>> {
+        // use the same limiter as the list endpoint which is based on the last part of the path
+        const pathParts = Url.parse(url).pathname.split("/");
+        const limiter = ApiAdapter.RequestLimitFactory.create(`/${pathParts[pathParts.length - 1]}`, "LIST");
+
+        const response = await ApiAdapter.get(url, {}, { limiter: limiter });
+
+        return new PaginatedResponse<T>(response, ApiAdapter, limiter);
+    }
+
+    /**
+     * Parses the Pagination object bunq sends with list responses
+     * @param rawPagination
+     * @returns {Pagination}
+     */
+    public static parsePagination(rawPagination: any): Pagination {
+        const pagination: Pagination = {
+            older_url: null,
+            newer_url: null,
+            future_url: null,
+            older_id: false,
+            newer_id: false,
+            future_id: false,
+            count: false
+        };
+        if (!rawPagination) return pagination;
+
+        pagination.older_url = rawPagination.older_url || null;
+        pagination.newer_url = rawPagination.newer_url || null;
+        pagination.future_url = rawPagination.future_url || null;
+
+        const olderParams = PaginatedResponse.getUrlParams(pagination.older_url);
+        const newerParams = PaginatedResponse.getUrlParams(pagination.newer_url);
+        const futureParams = PaginatedResponse.getUrlParams(pagination.future_url);
+
+        if (olderParams.older_id) pagination.older_id = parseInt(olderParams.older_id);
+        if (newerParams.newer_id) pagination.newer_id = parseInt(newerParams.newer_id);
+        if (futureParams.newer_id) pagination.future_id = parseInt(futureParams.newer_id);
+
+        const count = olderParams.count || newerParams.count || futureParams.count;
+        if (count) pagination.count = parseInt(count);
+
+        return pagination;
+    }
+
+    /**
+     * @param {string | null} url
+     * @returns {any}
+     */
+    private static getUrlParams(url: string | null): any {
+        if (!url) return {};
+
+        const queryString = url.includes("?") ? url.substring(url.indexOf("?") + 1) : "";
+        const searchParams = new Url.URLSearchParams(queryString);
+
+        const params = {};
+        searchParams.forEach((value, key) => {
+            params[key] = value;
+        });
+        return params;
+    }
+}
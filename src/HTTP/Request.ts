@@ -1,7 +1,11 @@
-import { AxiosRequestConfig } from "axios";
 import { Method } from "../Types/Method";
 import Headers from "../Types/Headers";
-import { BUNQ_REQUEST_AUTHENTICATION_HEADER_KEY, BUNQ_REQUEST_SIGNATURE_HEADER_KEY } from "../ApiAdapter";
+import HttpRequestConfig from "../Types/HttpRequestConfig";
+import {
+    BUNQ_REQUEST_AUTHENTICATION_HEADER_KEY,
+    BUNQ_REQUEST_ID_HEADER_KEY,
+    BUNQ_REQUEST_SIGNATURE_HEADER_KEY
+} from "../ApiAdapter";
 
 // these headers are set by default
 export const DEFAULT_HEADERS: Headers = {
@@ -23,7 +27,7 @@ export default class Request {
     private _isSigned: false | string = false;
     private _isAuthenticated: false | string = false;
 
-    private _requestConfig: AxiosRequestConfig;
+    private _requestConfig: HttpRequestConfig;
 
     constructor(url: string, method: Method = "GET", data: any = {}, headers: any = {}, options: any = {}) {
         this._url = url;
@@ -34,8 +38,10 @@ export default class Request {
         this._headers = this.getHeaders(headers);
         this._options = options;
 
-        // set a random request id and the default headers
-        this.setHeader("X-Bunq-Client-Request-Id", new Date().getTime() + Math.random() + "");
+        // set a random request id unless one was given, for example an idempotency key
+        if (!this.getHeader(BUNQ_REQUEST_ID_HEADER_KEY)) {
+            this.setHeader(BUNQ_REQUEST_ID_HEADER_KEY, new Date().getTime() + Math.random() + "");
+        }
     }
 
     get url(): string {
@@ -60,13 +66,12 @@ export default class Request {
         return this._isAuthenticated;
     }
 
-    get requestConfig(): AxiosRequestConfig {
+    get requestConfig(): HttpRequestConfig {
         this._requestConfig = {
             url: this.url,
             method: this.method,
             data: this.data,
             headers: this.getHeaders(),
-            transformResponse: undefined,
             ...this._options
         };
 
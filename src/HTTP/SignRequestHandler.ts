@@ -3,11 +3,15 @@ import { signString } from "../Crypto/Sha256";
 import BunqJSClient from "../BunqJSClient";
 import Session from "../Session";
 import LoggerInterface from "../Interfaces/LoggerInterface";
+import MiddlewareInterface from "../Interfaces/MiddlewareInterface";
 import Request from "./Request";
 
 import ApiAdapterOptions from "../Types/ApiAdapterOptions";
+import MiddlewareContext from "../Types/MiddlewareContext";
+
+export default class SignRequestHandler implements MiddlewareInterface {
+    public name: string = "signing";
 
-export default class SignRequestHandler {
     public Session: Session;
     public logger: LoggerInterface;
     public BunqJSClient: BunqJSClient;
@@ -18,6 +22,17 @@ export default class SignRequestHandler {
         this.logger = loggerInterface;
     }
 
+    /**
+     * Signs the request unless signing is disabled for it
+     * @param {MiddlewareContext} context
+     * @returns {Promise<void>}
+     */
+    public async beforeSend(context: MiddlewareContext): Promise<void> {
+        if (context.options.disableSigning === true) return;
+
+        await this.signRequest(context.request, context.options);
+    }
+
     /**
      * Signs a request using our privatekey
      * @param {Request} request
@@ -41,13 +56,6 @@ export default class SignRequestHandler {
             request.setHeader("User-Agent", navigator.userAgent);
         }
 
-        if (options.isEncrypted || options.includesFile) {
-            // overwrite transformRequest
-            request.setOption("transformRequest", (data: any, headers: any) => {
-                return data;
-            });
-        }
-
         // serialize the data
         let data: string | Buffer = "";
         let dataEncoding = "raw";
@@ -0,0 +1,39 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import HttpTransportInterface from "../../Interfaces/HttpTransportInterface";
+import HttpRequestConfig from "../../Types/HttpRequestConfig";
+import HttpResponse from "../../Types/HttpResponse";
+
+/**
+ * Sends requests using axios, the default transport
+ */
+export default class AxiosTransport implements HttpTransportInterface {
+    private axiosInstance: AxiosInstance;
+
+    /**
+     * @param {AxiosInstance} axiosInstance - a custom instance, for example with proxy settings
+     */
+    constructor(axiosInstance: AxiosInstance = axios) {
+        this.axiosInstance = axiosInstance;
+    }
+
+    /**
+     * @param {HttpRequestConfig} config
+     * @returns {Promise<HttpResponse>}
+     */
+    public async request(config: HttpRequestConfig): Promise<HttpResponse> {
+        const axiosConfig: AxiosRequestConfig = {
+            ...config,
+            // keep the raw body so the response signature can be verified
+            transformResponse: undefined
+        };
+
+        const response = await this.axiosInstance.request(axiosConfig);
+
+        return {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+            data: response.data
+        };
+    }
+}
@@ -0,0 +1,111 @@
+import HttpTransportInterface from "../../Interfaces/HttpTransportInterface";
+import HttpRequestConfig from "../../Types/HttpRequestConfig";
+import HttpResponse from "../../Types/HttpResponse";
+import { createNetworkError, createResponseError } from "../../Helpers/HttpErrors";
+
+export type FetchFunction = (url: string, init?: any) => Promise<any>;
+
+/**
+ * Sends requests using the fetch api, for runtimes without the node http module like edge workers
+ */
+export default class FetchTransport implements HttpTransportInterface {
+    private fetchFunction: FetchFunction | false;
+
+    /**
+     * @param {FetchFunction | false} fetchFunction - defaults to the global fetch function
+     */
+    constructor(fetchFunction: FetchFunction | false = false) {
+        this.fetchFunction = fetchFunction;
+    }
+
+    /**
+     * @param {HttpRequestConfig} config
+     * @returns {Promise<HttpResponse>}
+     */
+    public async request(config: HttpRequestConfig): Promise<HttpResponse> {
+        const fetchFunction = this.getFetchFunction();
+
+        const init: any = {
+            method: config.method,
+            headers: config.headers,
+            body: this.getBody(config)
+        };
+
+        let timeoutTimer = null;
+        if (config.timeout && typeof AbortController !== "undefined") {
+            const abortController = new AbortController();
+            init.signal = abortController.signal;
+            timeoutTimer = setTimeout(() => abortController.abort(), config.timeout);
+        }
+
+        let fetchResponse;
+        let data;
+        try {
+            fetchResponse = await fetchFunction(this.getUrl(config), init);
+            data =
+                config.responseType === "arraybuffer" ? await fetchResponse.arrayBuffer() : await fetchResponse.text();
+        } catch (error) {
+            throw createNetworkError(error.message, config);
+        } finally {
+            if (timeoutTimer !== null) clearTimeout(timeoutTimer);
+        }
+
+        const headers = {};
+        fetchResponse.headers.forEach((value: string, key: string) => {
+            headers[key.toLowerCase()] = value;
+        });
+
+        const response: HttpResponse = {
+            status: fetchResponse.status,
+            statusText: fetchResponse.statusText,
+            headers: headers,
+            data: data
+        };
+
+        if (response.status < 200 || response.status >= 300) {
+            throw createResponseError(config, response);
+        }
+        return response;
+    }
+
+    /**
+     * @returns {FetchFunction}
+     */
+    private getFetchFunction(): FetchFunction {
+        if (this.fetchFunction) return this.fetchFunction;
+        if (typeof fetch === "undefined") {
+            throw new Error("No fetch function is available in this environment, pass one to the FetchTransport");
+        }
+        return fetch;
+    }
+
+    /**
+     * @param {HttpRequestConfig} config
+     * @returns {string}
+     */
+    private getUrl(config: HttpRequestConfig): string {
+        const params = config.params || {};
+        const queryString = Object.keys(params)
+            .filter(key => params[key] !== undefined && params[key] !== null)
+            .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key])}`)
+            .join("&");
+        if (!queryString) return config.url;
+
+        return `${config.url}${config.url.includes("?") ? "&" : "?"}${queryString}`;
+    }
+
+    /**
+     * @param {HttpRequestConfig} config
+     * @returns {any}
+     */
+    private getBody(config: HttpRequestConfig): any {
+        const data = config.data;
+        if (config.method === "GET" || data === undefined || data === null || data === "") return undefined;
+
+        // strings and binary data like encrypted requests or attachments are sent as is
+        if (typeof data === "string" || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+            return data;
+        }
+        return JSON.stringify(data);
+    }
+}
@@ -2,10 +2,18 @@ import { verifyString } from "../Crypto/Sha256";
 import BunqJSClient from "../BunqJSClient";
 import Session from "../Session";
 import LoggerInterface from "../Interfaces/LoggerInterface";
+import MiddlewareInterface from "../Interfaces/MiddlewareInterface";
+import BunqSignatureError from "../Errors/BunqSignatureError";
+import Headers from "../Types/Headers";
+import MiddlewareContext from "../Types/MiddlewareContext";
+import ErrorCodes from "../Helpers/ErrorCodes";
+import { getErrorDetails } from "../Helpers/ErrorParser";
 import { arrayBufferToString, fixHeaderCase } from "../Helpers/Utils";
 import { BUNQ_SERVER_SIGNATURE_HEADER_KEY } from "../ApiAdapter";
 
-export default class VerifyResponseHandler {
+export default class VerifyResponseHandler implements MiddlewareInterface {
+    public name: string = "verification";
+
     public Session: Session;
     public logger: LoggerInterface;
     public BunqJSClient: BunqJSClient;
@@ -16,6 +24,31 @@ export default class VerifyResponseHandler {
         this.logger = loggerInterface;
     }
 
+    /**
+     * Verifies the received response and throws an error if the signature is invalid
+     * @param {MiddlewareContext} context
+     * @returns {Promise<void>}
+     */
+    public async afterReceive(context: MiddlewareContext): Promise<void> {
+        if (context.options.disableVerification === true) return;
+
+        // replayed responses don't contain the redacted server signature
+        const apiAdapter = this.BunqJSClient && this.BunqJSClient.ApiAdapter;
+        if (apiAdapter && apiAdapter.CassetteHandler.isReplaying) return;
+
+        const verifyResult = await this.verifyResponse(context.response);
+
+        if (!verifyResult && (!process.env.ENV_CI || process.env.ENV_CI === "false")) {
+            // invalid response in a non-ci environment
+            throw new BunqSignatureError(
+                "We couldn't verify the received response",
+                context.response,
+                getErrorDetails(context.response, context.url, context.method),
+                ErrorCodes.INVALID_RESPONSE_RECEIVED
+            );
+        }
+    }
+
     /**
      * Verifies the response of a request
      * @param response
@@ -75,12 +108,35 @@ export default class VerifyResponseHandler {
         }
 
         // verify the string and return results
-        const verifyResult = await verifyString(
-            template,
-            this.Session.serverPublicKey,
-            response.headers[lowerCaseHeader]
+        return this.verifySignature(template, response.headers[lowerCaseHeader]);
+    }
+
+    /**
+     * Verifies the signature of an incoming callback, bunq signs the raw body of callbacks
+     * @param {string} body
+     * @param {Headers} headers
+     * @returns {Promise<boolean>}
+     */
+    public async verifyCallback(body: string, headers: Headers): Promise<boolean> {
+        // unlike responses a callback can't be trusted without a public key
+        if (!this.Session.serverPublicKey) return false;
+
+        const signatureHeaderKey = Object.keys(headers || {}).find(
+            headerKey => fixHeaderCase(headerKey) === BUNQ_SERVER_SIGNATURE_HEADER_KEY
         );
+        if (!signatureHeaderKey || !headers[signatureHeaderKey]) {
+            return false;
+        }
 
-        return verifyResult;
+        return this.verifySignature(body, headers[signatureHeaderKey]);
+    }
+
+    /**
+     * @param {string} template
+     * @param {string} signature
+     * @returns {Promise<boolean>}
+     */
+    private async verifySignature(template: string, signature: string): Promise<boolean> {
+        return verifyString(template, this.Session.serverPublicKey, signature);
     }
 }
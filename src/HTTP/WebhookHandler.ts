@@ -0,0 +1,154 @@
+import BunqJSClient from "../BunqJSClient";
+import Session from "../Session";
+import LoggerInterface from "../Interfaces/LoggerInterface";
+import CustomError from "../Interfaces/CustomError";
+import BunqSignatureError from "../Errors/BunqSignatureError";
+import { INVALID_CALLBACK_RECEIVED } from "../Helpers/ErrorCodes";
+import Headers from "../Types/Headers";
+import NotificationUrl from "../Types/NotificationUrl";
+import { NotificationCategory } from "../Types/NotificationFilter";
+import WebhookEvent, { WebhookEventMap, WebhookEventType, WebhookListener } from "../Types/WebhookEvent";
+
+// the event type for each notification category, categories which aren't listed are dispatched as "unknown"
+const CATEGORY_EVENT_TYPES: { [category: string]: WebhookEventType } = {
+    PAYMENT: "payment",
+    MUTATION: "mutation",
+    CARD_TRANSACTION_SUCCESSFUL: "card_transaction",
+    CARD_TRANSACTION_FAILED: "card_transaction",
+    REQUEST: "request",
+    SHARE: "share"
+};
+
+/**
+ * Receives the callbacks bunq sends to URL notification filters. The handler doesn't depend on a specific
+ * framework, pass the raw body and headers of the incoming request to handle()
+ */
+export default class WebhookHandler {
+    public Session: Session;
+    public logger: LoggerInterface;
+    public BunqJSClient: BunqJSClient;
+
+    // only disable this for testing, without verification anyone can send fake notifications
+    public verifySignatures: boolean = true;
+
+    private listeners: { [type: string]: WebhookListener<any>[] } = {};
+
+    constructor(Session: Session, loggerInterface: LoggerInterface, BunqJSClient: BunqJSClient) {
+        this.BunqJSClient = BunqJSClient;
+        this.Session = Session;
+        this.logger = loggerInterface;
+    }
+
+    /**
+     * @param {K} type - the event type or "*" for all events
+     * @param {WebhookListener<WebhookEventMap[K]>} listener
+     * @returns {WebhookHandler}
+     */
+    public on<K extends keyof WebhookEventMap>(type: K, listener: WebhookListener<WebhookEventMap[K]>): WebhookHandler {
+        if (!this.listeners[type]) this.listeners[type] = [];
+        this.listeners[type].push(listener);
+
+        return this;
+    }
+
+    /**
+     * @param {K} type
+     * @param {WebhookListener<WebhookEventMap[K]>} listener
+     * @returns {WebhookHandler}
+     */
+    public off<K extends keyof WebhookEventMap>(
+        type: K,
+        listener: WebhookListener<WebhookEventMap[K]>
+    ): WebhookHandler {
+        if (this.listeners[type]) {
+            this.listeners[type] = this.listeners[type].filter(registered => registered !== listener);
+        }
+
+        return this;
+    }
+
+    /**
+     * Verifies and parses an incoming callback and dispatches the event to the registered listeners
+     * @param {string} body - the raw request body, the signature is calculated over the exact bytes bunq sent
+     * @param {Headers} headers
+     * @returns {Promise<WebhookEvent>}
+     */
+    public async handle(body: string, headers: Headers): Promise<WebhookEvent> {
+        if (this.verifySignatures) {
+            const verified = await this.BunqJSClient.ApiAdapter.VerifyResponseHandler.verifyCallback(body, headers);
+
+            if (!verified) {
+                throw new BunqSignatureError("We couldn't verify the signature of the received callback", false, {
+                    status: false,
+                    responseId: false,
+                    errorDescriptions: [],
+                    errorDescriptionsTranslated: [],
+                    endpoint: "callback",
+                    method: "POST"
+                });
+            }
+        }
+
+        const event = parseNotification(body);
+        this.logger.debug(`Received ${event.category} callback: ${event.event_type}`);
+
+        await this.dispatch(event);
+
+        return event;
+    }
+
+    /**
+     * @param {WebhookEvent} event
+     * @returns {Promise<void>}
+     */
+    private async dispatch(event: WebhookEvent): Promise<void> {
+        const listeners = [...(this.listeners[event.type] || []), ...(this.listeners["*"] || [])];
+
+        for (const listener of listeners) {
+            await listener(event);
+        }
+    }
+}
+
+/**
+ * Turns the body of a callback into a typed event
+ * @param {string | any} body
+ * @returns {WebhookEvent}
+ */
+export const parseNotification = (body: string | any): WebhookEvent => {
+    let data = body;
+    if (typeof body === "string") {
+        try {
+            data = JSON.parse(body);
+        } catch (error) {
+            throw new CustomError(
+                "Invalid callback received, the body isn't valid JSON",
+                body,
+                INVALID_CALLBACK_RECEIVED
+            );
+        }
+    }
+
+    if (!data || !data.NotificationUrl || !data.NotificationUrl.object) {
+        throw new CustomError(
+            "Invalid callback received, expected a NotificationUrl object",
+            body,
+            INVALID_CALLBACK_RECEIVED
+        );
+    }
+
+    const notification: NotificationUrl = data.NotificationUrl;
+    const category: NotificationCategory = notification.category;
+    // the object is wrapped like the api responses, for example { Payment: {...} }
+    const objectType = Object.keys(notification.object)[0];
+    const object = notification.object[objectType];
+
+    return {
+        type: CATEGORY_EVENT_TYPES[category] || "unknown",
+        category: category,
+        event_type: notification.event_type,
+        object_type: objectType,
+        object: object,
+        notification: notification
+    } as WebhookEvent;
+};
@@ -0,0 +1,223 @@
+import CounterpartyAlias from "../Types/CounterpartyAlias";
+
+// the total IBAN length for each country that uses IBANs
+const IBAN_LENGTHS = {
+    AD: 24,
+    AE: 23,
+    AL: 28,
+    AT: 20,
+    AZ: 28,
+    BA: 20,
+    BE: 16,
+    BG: 22,
+    BH: 22,
+    BR: 29,
+    BY: 28,
+    CH: 21,
+    CR: 22,
+    CY: 28,
+    CZ: 24,
+    DE: 22,
+    DK: 18,
+    DO: 28,
+    EE: 20,
+    EG: 29,
+    ES: 24,
+    FI: 18,
+    FO: 18,
+    FR: 27,
+    GB: 22,
+    GE: 22,
+    GI: 23,
+    GL: 18,
+    GR: 27,
+    GT: 28,
+    HR: 21,
+    HU: 28,
+    IE: 22,
+    IL: 23,
+    IQ: 23,
+    IS: 26,
+    IT: 27,
+    JO: 30,
+    KW: 30,
+    KZ: 20,
+    LB: 28,
+    LC: 32,
+    LI: 21,
+    LT: 20,
+    LU: 20,
+    LV: 21,
+    MC: 27,
+    MD: 24,
+    ME: 22,
+    MK: 19,
+    MR: 27,
+    MT: 31,
+    MU: 30,
+    NL: 18,
+    NO: 15,
+    PK: 24,
+    PL: 28,
+    PS: 29,
+    PT: 25,
+    QA: 29,
+    RO: 24,
+    RS: 22,
+    SA: 24,
+    SC: 31,
+    SE: 24,
+    SI: 19,
+    SK: 24,
+    SM: 27,
+    ST: 25,
+    SV: 28,
+    TL: 23,
+    TN: 24,
+    TR: 26,
+    UA: 29,
+    VA: 22,
+    VG: 24,
+    XK: 20
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const E164_REGEX = /^\+[1-9]\d{6,14}$/;
+
+/**
+ * Removes spaces and turns the IBAN into uppercase
+ * @param {string} iban
+ * @returns {string}
+ */
+export const normalizeIban = (iban: string): string => {
+    return `${iban}`.replace(/\s+/g, "").toUpperCase();
+};
+
+/**
+ * Checks the country specific length and the mod-97 checksum of an IBAN
+ * @param {string} iban
+ * @returns {boolean}
+ */
+export const isValidIban = (iban: string): boolean => {
+    const normalizedIban = normalizeIban(iban);
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(normalizedIban)) return false;
+
+    const countryCode = normalizedIban.substring(0, 2);
+    if (IBAN_LENGTHS[countryCode] !== normalizedIban.length) return false;
+
+    return ibanRemainder(normalizedIban) === 1;
+};
+
+/**
+ * Creates a valid IBAN by calculating the check digits, for example ("NL", "BUNQ0123456789")
+ * @param {string} countryCode
+ * @param {string} bban - the country specific part of the IBAN
+ * @returns {string}
+ */
+export const createIban = (countryCode: string, bban: string): string => {
+    const remainder = ibanRemainder(`${countryCode}00${bban}`.toUpperCase());
+    const checkDigits = `${98 - remainder}`.padStart(2, "0");
+
+    return `${countryCode}${checkDigits}${bban}`.toUpperCase();
+};
+
+/**
+ * Calculates the mod-97 remainder of an IBAN
+ * @param {string} normalizedIban
+ * @returns {number}
+ */
+const ibanRemainder = (normalizedIban: string): number => {
+    // move the country code and check digits to the end and turn the letters into numbers, A = 10 ... Z = 35
+    const rearranged = normalizedIban.substring(4) + normalizedIban.substring(0, 4);
+    const numeric = rearranged.replace(/[A-Z]/g, letter => `${letter.charCodeAt(0) - 55}`);
+
+    // calculate the remainder in chunks to stay within the safe integer range
+    let remainder = 0;
+    for (let index = 0; index < numeric.length; index += 7) {
+        remainder = parseInt(`${remainder}${numeric.substring(index, index + 7)}`, 10) % 97;
+    }
+    return remainder;
+};
+
+/**
+ * @param {string} email
+ * @returns {boolean}
+ */
+export const isValidEmail = (email: string): boolean => {
+    return typeof email === "string" && EMAIL_REGEX.test(email);
+};
+
+/**
+ * @param {string} phoneNumber
+ * @returns {boolean}
+ */
+export const isValidPhoneNumber = (phoneNumber: string): boolean => {
+    return typeof phoneNumber === "string" && E164_REGEX.test(phoneNumber);
+};
+
+/**
+ * Turns a phone number into the E.164 format, for example "06 1234 5678" with country code "31" becomes "+31612345678"
+ * @param {string} phoneNumber
+ * @param {string | false} countryCallingCode - used for numbers without an international prefix
+ * @returns {string | false} false if the number can't be normalized
+ */
+export const normalizePhoneNumber = (
+    phoneNumber: string,
+    countryCallingCode: string | false = false
+): string | false => {
+    let normalized = `${phoneNumber}`.trim().replace(/[\s\-().]/g, "");
+
+    if (normalized.startsWith("00")) {
+        normalized = `+${normalized.substring(2)}`;
+    } else if (!normalized.startsWith("+")) {
+        if (countryCallingCode === false) return false;
+
+        // drop the national trunk prefix
+        const callingCode = `${countryCallingCode}`.replace(/^\+/, "");
+        normalized = `+${callingCode}${normalized.replace(/^0/, "")}`;
+    }
+
+    return isValidPhoneNumber(normalized) ? normalized : false;
+};
+
+/**
+ * Returns a description of the first problem found with the alias or false if it is valid
+ * @param {CounterpartyAlias} counterpartyAlias
+ * @returns {string | false}
+ */
+export const getCounterpartyAliasError = (counterpartyAlias: CounterpartyAlias): string | false => {
+    if (!counterpartyAlias || typeof counterpartyAlias !== "object") {
+        return "No counterparty alias given";
+    }
+
+    const { type, value, name } = counterpartyAlias;
+    switch (type) {
+        case "IBAN":
+            if (!isValidIban(value)) return `Invalid IBAN given: "${value}"`;
+            if (!name || `${name}`.trim().length === 0) return "A name is required for IBAN aliases";
+            return false;
+        case "EMAIL":
+            if (!isValidEmail(value)) return `Invalid email address given: "${value}"`;
+            return false;
+        case "PHONE_NUMBER":
+            if (!isValidPhoneNumber(value)) return `Invalid phone number given, expected the E.164 format: "${value}"`;
+            return false;
+        default:
+            return `Invalid alias type "${type}", expected one of IBAN, EMAIL or PHONE_NUMBER`;
+    }
+};
+
+/**
+ * Throws an error if one of the given aliases isn't valid
+ * @param {CounterpartyAlias | CounterpartyAlias[]} counterpartyAliases
+ */
+export const validateCounterpartyAlias = (counterpartyAliases: CounterpartyAlias | CounterpartyAlias[]): void => {
+    const aliasList = Array.isArray(counterpartyAliases) ? counterpartyAliases : [counterpartyAliases];
+
+    aliasList.forEach(counterpartyAlias => {
+        const error = getCounterpartyAliasError(counterpartyAlias);
+        if (error !== false) {
+            throw new Error(error);
+        }
+    });
+};
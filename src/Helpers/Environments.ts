@@ -0,0 +1,79 @@
+import Environment from "../Types/Environment";
+
+export const ENVIRONMENTS: { [name: string]: Environment } = {
+    SANDBOX: {
+        api_url: "https://public-api.sandbox.bunq.com",
+        oauth_authorize_url: "https://oauth.sandbox.bunq.com/auth",
+        oauth_token_url: "https://api-oauth.sandbox.bunq.com/v1/token",
+        credential_request_url: "https://api.tinker.bunq.com/v1/credential-password-ip-request",
+        sandbox: true
+    },
+    PRODUCTION: {
+        api_url: "https://api.bunq.com",
+        oauth_authorize_url: "https://oauth.bunq.com/auth",
+        oauth_token_url: "https://api.oauth.bunq.com/v1/token",
+        credential_request_url: "https://api.tinker.bunq.com/v1/credential-password-ip-request",
+        sandbox: false
+    }
+};
+
+// kept up to date with the registered environments
+export const ALLOWED_ENVIROMENTS: string[] = Object.keys(ENVIRONMENTS);
+export const URL_ENVIROMENTS: { [name: string]: string } = {
+    SANDBOX: ENVIRONMENTS.SANDBOX.api_url,
+    PRODUCTION: ENVIRONMENTS.PRODUCTION.api_url
+};
+
+/**
+ * Registers or overwrites an environment, for example a local mock or a proxy in front of the api.
+ * Urls which aren't given are taken from SANDBOX or PRODUCTION depending on the sandbox flag.
+ * @param {string} name - also used in the storage keys so sessions are stored separately per environment
+ * @param {Partial<Environment>} environment
+ * @returns {Environment}
+ */
+export const registerEnvironment = (name: string, environment: Partial<Environment>): Environment => {
+    if (!name) {
+        throw new Error("An environment requires a name");
+    }
+    if (!environment.api_url) {
+        throw new Error(`No api_url given for environment ${name}`);
+    }
+
+    const sandbox = environment.sandbox === true;
+    const registeredEnvironment: Environment = {
+        ...(sandbox ? ENVIRONMENTS.SANDBOX : ENVIRONMENTS.PRODUCTION),
+        ...environment,
+        api_url: environment.api_url.replace(/\/+$/, ""),
+        sandbox: sandbox
+    };
+
+    ENVIRONMENTS[name] = registeredEnvironment;
+    URL_ENVIROMENTS[name] = registeredEnvironment.api_url;
+    if (!ALLOWED_ENVIROMENTS.includes(name)) {
+        ALLOWED_ENVIROMENTS.push(name);
+    }
+
+    return registeredEnvironment;
+};
+
+/**
+ * @param {string} name
+ * @returns {Environment}
+ */
+export const getEnvironment = (name: string): Environment => {
+    if (!ENVIRONMENTS[name]) {
+        throw new Error("Invalid enviroment given. " + JSON.stringify(ALLOWED_ENVIROMENTS));
+    }
+    return ENVIRONMENTS[name];
+};
+
+/**
+ * The OAuth helpers accept a sandbox flag or the name of an environment
+ * @param {boolean | string} environment
+ * @returns {Environment}
+ */
+export const getOAuthEnvironment = (environment: boolean | string): Environment => {
+    if (typeof environment === "string") return getEnvironment(environment);
+
+    return environment ? ENVIRONMENTS.SANDBOX : ENVIRONMENTS.PRODUCTION;
+};
@@ -1,7 +1,13 @@
 export const INSTALLATION_HAS_SESSION = "INSTALLATION_HAS_SESSION";
 export const INVALID_RESPONSE_RECEIVED = "INVALID_RESPONSE_RECEIVED";
+export const INVALID_CALLBACK_RECEIVED = "INVALID_CALLBACK_RECEIVED";
+export const INVALID_OAUTH_STATE = "INVALID_OAUTH_STATE";
+export const OAUTH_REQUEST_FAILED = "OAUTH_REQUEST_FAILED";
 
 export default {
     INSTALLATION_HAS_SESSION,
-    INVALID_RESPONSE_RECEIVED
+    INVALID_RESPONSE_RECEIVED,
+    INVALID_CALLBACK_RECEIVED,
+    INVALID_OAUTH_STATE,
+    OAUTH_REQUEST_FAILED
 };
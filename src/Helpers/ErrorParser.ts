@@ -0,0 +1,89 @@
+import BunqApiError, { BunqApiErrorDetails } from "../Errors/BunqApiError";
+import BunqAuthenticationError from "../Errors/BunqAuthenticationError";
+import BunqNotFoundError from "../Errors/BunqNotFoundError";
+import BunqRateLimitError from "../Errors/BunqRateLimitError";
+import BunqServerError from "../Errors/BunqServerError";
+import BunqSignatureError from "../Errors/BunqSignatureError";
+import BunqValidationError from "../Errors/BunqValidationError";
+import { INSTALLATION_HAS_SESSION } from "./ErrorCodes";
+
+/**
+ * @param headers
+ * @returns {string | false}
+ */
+export const getResponseId = (headers: any): string | false => {
+    if (!headers) return false;
+
+    return headers["x-bunq-client-response-id"] || headers["X-Bunq-Client-Response-Id"] || false;
+};
+
+/**
+ * Collects the error details from a (failed) response
+ * @param response
+ * @param {string} endpoint
+ * @param {string} method
+ * @returns {BunqApiErrorDetails}
+ */
+export const getErrorDetails = (response: any, endpoint: string, method: string): BunqApiErrorDetails => {
+    const data = response && response.data ? response.data : {};
+    const bunqErrors = Array.isArray(data.Error) ? data.Error : [];
+
+    return {
+        status: response && response.status ? response.status : false,
+        responseId: getResponseId(response ? response.headers : false),
+        errorDescriptions: bunqErrors.map(bunqError => bunqError.error_description).filter(Boolean),
+        errorDescriptionsTranslated: bunqErrors
+            .map(bunqError => bunqError.error_description_translated)
+            .filter(Boolean),
+        endpoint: endpoint,
+        method: method
+    };
+};
+
+/**
+ * Turns a failed axios request into one of the typed bunq errors, errors without a response are returned as is
+ * @param error
+ * @param {string} endpoint
+ * @param {string} method
+ * @returns {Error}
+ */
+export const parseRequestError = (error: any, endpoint: string, method: string): Error => {
+    if (!error || !error.response) return error;
+    const response = error.response;
+
+    if (typeof response.data === "string") {
+        try {
+            // attempt to turn string result back into json when possible
+            response.data = JSON.parse(response.data);
+        } catch (parseError) {}
+    }
+
+    const details = getErrorDetails(response, endpoint, method);
+    const errorCode = details.errorDescriptions.includes("Authentication token already has a user session.")
+        ? INSTALLATION_HAS_SESSION
+        : false;
+
+    const description = details.errorDescriptions.length > 0 ? details.errorDescriptions.join(", ") : error.message;
+    const message = `${method} ${endpoint} failed with status ${details.status}: ${description}`;
+
+    if (details.errorDescriptions.some(errorDescription => /signature/i.test(errorDescription))) {
+        return new BunqSignatureError(message, response, details, errorCode);
+    }
+
+    switch (details.status) {
+        case 400:
+        case 422:
+            return new BunqValidationError(message, response, details, errorCode);
+        case 401:
+        case 403:
+            return new BunqAuthenticationError(message, response, details, errorCode);
+        case 404:
+            return new BunqNotFoundError(message, response, details, errorCode);
+        case 429:
+            return new BunqRateLimitError(message, response, details, errorCode);
+    }
+    if (details.status !== false && details.status >= 500) {
+        return new BunqServerError(message, response, details, errorCode);
+    }
+    return new BunqApiError(message, response, details, errorCode);
+};
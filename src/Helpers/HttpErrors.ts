@@ -0,0 +1,31 @@
+import HttpRequestConfig from "../Types/HttpRequestConfig";
+import HttpResponse from "../Types/HttpResponse";
+
+/**
+ * Creates the error transports reject with for non 2xx responses, in the same format axios uses
+ * @param {HttpRequestConfig} config
+ * @param {HttpResponse} response
+ * @returns {Error}
+ */
+export const createResponseError = (config: HttpRequestConfig, response: HttpResponse): Error => {
+    const error: any = new Error(`Request failed with status code ${response.status}`);
+    error.config = config;
+    error.request = {};
+    error.response = response;
+
+    return error;
+};
+
+/**
+ * Creates the error transports reject with when no response was received, these can be retried
+ * @param {string} message
+ * @param {HttpRequestConfig} config
+ * @returns {Error}
+ */
+export const createNetworkError = (message: string, config: HttpRequestConfig): Error => {
+    const error: any = new Error(message);
+    error.config = config;
+    error.request = {};
+
+    return error;
+};
@@ -0,0 +1,74 @@
+import LoggerInterface from "../Interfaces/LoggerInterface";
+import LifecycleEvent, { LifecycleEventMap, LifecycleListener } from "../Types/LifecycleEvent";
+
+/**
+ * Keeps the listeners for the installation and session lifecycle events of a client
+ */
+export default class LifecycleEvents {
+    public logger: LoggerInterface;
+
+    private listeners: { [type: string]: LifecycleListener<any>[] } = {};
+
+    constructor(loggerInterface: LoggerInterface) {
+        this.logger = loggerInterface;
+    }
+
+    /**
+     * @param {K} type - the event type or "*" for all events
+     * @param {LifecycleListener<LifecycleEventMap[K]>} listener
+     * @returns {LifecycleEvents}
+     */
+    public on<K extends keyof LifecycleEventMap>(
+        type: K,
+        listener: LifecycleListener<LifecycleEventMap[K]>
+    ): LifecycleEvents {
+        if (!this.listeners[type]) this.listeners[type] = [];
+        this.listeners[type].push(listener);
+
+        return this;
+    }
+
+    /**
+     * @param {K} type
+     * @param {LifecycleListener<LifecycleEventMap[K]>} listener
+     * @returns {LifecycleEvents}
+     */
+    public off<K extends keyof LifecycleEventMap>(
+        type: K,
+        listener: LifecycleListener<LifecycleEventMap[K]>
+    ): LifecycleEvents {
+        if (this.listeners[type]) {
+            this.listeners[type] = this.listeners[type].filter(registered => registered !== listener);
+        }
+
+        return this;
+    }
+
+    /**
+     * Calls the listeners without waiting for them, a failing listener is logged and never breaks the client
+     * @param {LifecycleEvent} event
+     */
+    public emit(event: LifecycleEvent): void {
+        const listeners = [...(this.listeners[event.type] || []), ...(this.listeners["*"] || [])];
+
+        listeners.forEach(listener => {
+            try {
+                const result = listener(event);
+                if (result && typeof result.catch === "function") {
+                    result.catch(error => this.logListenerError(event, error));
+                }
+            } catch (error) {
+                this.logListenerError(event, error);
+            }
+        });
+    }
+
+    /**
+     * @param {LifecycleEvent} event
+     * @param error
+     */
+    private logListenerError(event: LifecycleEvent, error: any): void {
+        this.logger.error(`Lifecycle listener for ${event.type} failed`);
+        this.logger.error(error);
+    }
+}
@@ -0,0 +1,319 @@
+import Amount from "../Types/Amount";
+import AmountValue from "../Types/AmountValue";
+
+// the exact format bunq uses for amount values, for example "12.50" or "-0.99"
+const AMOUNT_VALUE_REGEX = /^-?\d+\.\d{2}$/;
+// values we accept as input which can be turned into the bunq format
+const INPUT_VALUE_REGEX = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+
+const CURRENCY_SYMBOLS = {
+    "€": "EUR",
+    $: "USD",
+    "£": "GBP",
+    "¥": "JPY"
+};
+
+/**
+ * An exact amount of money, stored as a whole number of cents to prevent floating point rounding issues.
+ * Money instances serialize to a bunq Amount object so they can be used anywhere an Amount is accepted.
+ */
+export default class Money {
+    public readonly cents: number;
+    public readonly currency: string;
+
+    /**
+     * @param {number} cents
+     * @param {string} currency
+     */
+    constructor(cents: number, currency: string = "EUR") {
+        if (!Number.isSafeInteger(cents)) {
+            throw new Error(`Invalid amount of cents given: ${cents}`);
+        }
+        if (!/^[A-Za-z]{3}$/.test(currency)) {
+            throw new Error(`Invalid currency code given: ${currency}`);
+        }
+
+        this.cents = cents === 0 ? 0 : cents;
+        this.currency = currency.toUpperCase();
+    }
+
+    /**
+     * @param {number} cents
+     * @param {string} currency
+     * @returns {Money}
+     */
+    public static fromCents(cents: number, currency: string = "EUR"): Money {
+        return new Money(cents, currency);
+    }
+
+    /**
+     * Creates a Money object from a value like "12.5", "12.50" or 12.5
+     * @param {AmountValue | number} value
+     * @param {string} currency
+     * @returns {Money}
+     */
+    public static fromValue(value: AmountValue | number, currency: string = "EUR"): Money {
+        if (typeof value === "number") {
+            if (!isFinite(value)) {
+                throw new Error(`Invalid amount value given: ${value}`);
+            }
+            // toPrecision removes the floating point noise before rounding, 1.005 * 100 = 100.49999999999999
+            return new Money(Math.round(parseFloat((value * 100).toPrecision(15))), currency);
+        }
+
+        const match = INPUT_VALUE_REGEX.exec(`${value}`.trim());
+        if (!match) {
+            throw new Error(`Invalid amount value "${value}", expected a number with at most two decimals`);
+        }
+
+        const [, sign, units, decimals = ""] = match;
+        const cents = parseInt(units, 10) * 100 + parseInt(decimals.padEnd(2, "0"), 10);
+
+        return new Money(sign ? -cents : cents, currency);
+    }
+
+    /**
+     * @param {Amount | Money} amount
+     * @returns {Money}
+     */
+    public static fromAmount(amount: Amount | Money): Money {
+        if (amount instanceof Money) return amount;
+
+        return Money.fromValue(amount.value, amount.currency);
+    }
+
+    /**
+     * Parses a formatted amount like "€ 1.234,56", "-$12.00" or "1,234.56 EUR"
+     * @param {string} formatted
+     * @param {string | false} currency - defaults to the currency found in the string or EUR
+     * @returns {Money}
+     */
+    public static parse(formatted: string, currency: string | false = false): Money {
+        const input = `${formatted}`.trim();
+
+        let parsedCurrency = currency || "EUR";
+        if (currency === false) {
+            const currencyCode = /[A-Za-z]{3}/.exec(input);
+            const currencySymbol = Object.keys(CURRENCY_SYMBOLS).find(symbol => input.includes(symbol));
+
+            if (currencyCode) {
+                parsedCurrency = currencyCode[0];
+            } else if (currencySymbol) {
+                parsedCurrency = CURRENCY_SYMBOLS[currencySymbol];
+            }
+        }
+
+        const isNegative = input.includes("-") || /^\(.*\)$/.test(input);
+        const numbers = input.replace(/[^\d.,]/g, "");
+
+        // the last separator is the decimal separator when it is followed by one or two digits
+        const decimalMatch = /^(.*)[.,](\d{1,2})$/.exec(numbers);
+        const units = (decimalMatch ? decimalMatch[1] : numbers).replace(/[.,]/g, "");
+        const decimals = decimalMatch ? decimalMatch[2] : "";
+
+        if (units.length === 0 && decimals.length === 0) {
+            throw new Error(`Unable to parse amount "${formatted}"`);
+        }
+
+        const value = `${isNegative ? "-" : ""}${units || "0"}${decimals ? `.${decimals}` : ""}`;
+        return Money.fromValue(value, parsedCurrency);
+    }
+
+    /**
+     * Checks if the value uses the two-decimal string format bunq expects
+     * @param value
+     * @returns {boolean}
+     */
+    public static isValidValue(value: any): boolean {
+        return typeof value === "string" && AMOUNT_VALUE_REGEX.test(value);
+    }
+
+    /**
+     * @param {(Amount | Money)[]} amounts
+     * @param {string} currency - used when the list is empty
+     * @returns {Money}
+     */
+    public static sum(amounts: (Amount | Money)[], currency: string = "EUR"): Money {
+        if (amounts.length === 0) return new Money(0, currency);
+
+        const [firstAmount, ...otherAmounts] = amounts.map(amount => Money.fromAmount(amount));
+        return otherAmounts.reduce((total, amount) => total.add(amount), firstAmount);
+    }
+
+    /**
+     * @param {Amount | Money} other
+     * @returns {Money}
+     */
+    public add(other: Amount | Money): Money {
+        const otherMoney = this.assertSameCurrency(other);
+
+        return new Money(this.cents + otherMoney.cents, this.currency);
+    }
+
+    /**
+     * @param {Amount | Money} other
+     * @returns {Money}
+     */
+    public subtract(other: Amount | Money): Money {
+        const otherMoney = this.assertSameCurrency(other);
+
+        return new Money(this.cents - otherMoney.cents, this.currency);
+    }
+
+    /**
+     * @returns {Money}
+     */
+    public negate(): Money {
+        return new Money(-this.cents, this.currency);
+    }
+
+    /**
+     * Returns -1, 0 or 1 so it can be used directly in a sort callback
+     * @param {Amount | Money} other
+     * @returns {number}
+     */
+    public compare(other: Amount | Money): number {
+        const otherMoney = this.assertSameCurrency(other);
+
+        if (this.cents === otherMoney.cents) return 0;
+        return this.cents < otherMoney.cents ? -1 : 1;
+    }
+
+    public equals(other: Amount | Money): boolean {
+        return this.compare(other) === 0;
+    }
+    public greaterThan(other: Amount | Money): boolean {
+        return this.compare(other) > 0;
+    }
+    public lessThan(other: Amount | Money): boolean {
+        return this.compare(other) < 0;
+    }
+    public isZero(): boolean {
+        return this.cents === 0;
+    }
+    public isNegative(): boolean {
+        return this.cents < 0;
+    }
+    public isPositive(): boolean {
+        return this.cents > 0;
+    }
+
+    /**
+     * Splits the amount into equal parts, the remaining cents are added to the first parts
+     * @param {number} parts
+     * @returns {Money[]}
+     */
+    public split(parts: number): Money[] {
+        if (!Number.isInteger(parts) || parts < 1) {
+            throw new Error(`Invalid amount of parts given: ${parts}`);
+        }
+
+        return this.allocate(Array(parts).fill(1));
+    }
+
+    /**
+     * Divides the amount based on the given ratios without losing any cents,
+     * for example [1, 1, 2] on 10.00 returns 2.50, 2.50 and 5.00
+     * @param {number[]} ratios
+     * @returns {Money[]}
+     */
+    public allocate(ratios: number[]): Money[] {
+        const ratioTotal = ratios.reduce((total, ratio) => total + ratio, 0);
+        if (ratios.length === 0 || ratioTotal <= 0 || ratios.some(ratio => !isFinite(ratio) || ratio < 0)) {
+            throw new Error("Invalid ratios given, expected a list of positive numbers");
+        }
+
+        const direction = this.cents < 0 ? -1 : 1;
+        const absoluteCents = Math.abs(this.cents);
+
+        const shares = ratios.map(ratio => Math.floor((absoluteCents * ratio) / ratioTotal));
+        let remainder = absoluteCents - shares.reduce((total, share) => total + share, 0);
+
+        // hand out the remaining cents one by one to the parts which have a ratio
+        for (let index = 0; remainder > 0; index = (index + 1) % shares.length) {
+            if (ratios[index] === 0) continue;
+            shares[index]++;
+            remainder--;
+        }
+
+        return shares.map(share => new Money(share * direction, this.currency));
+    }
+
+    /**
+     * Returns the value in the two-decimal format bunq uses
+     * @returns {AmountValue}
+     */
+    public toValue(): AmountValue {
+        const absoluteCents = Math.abs(this.cents);
+        const units = Math.floor(absoluteCents / 100);
+        const decimals = `${absoluteCents % 100}`.padStart(2, "0");
+
+        return `${this.cents < 0 ? "-" : ""}${units}.${decimals}`;
+    }
+
+    /**
+     * @returns {Amount}
+     */
+    public toAmount(): Amount {
+        return {
+            value: this.toValue(),
+            currency: this.currency
+        };
+    }
+
+    /**
+     * Formats the amount for display, for example "€12.50" or "€ 12,50" depending on the locale
+     * @param {string} locale
+     * @returns {string}
+     */
+    public format(locale: string = "en-US"): string {
+        return new Intl.NumberFormat(locale, {
+            style: "currency",
+            currency: this.currency
+        }).format(this.cents / 100);
+    }
+
+    public toString(): string {
+        return this.toValue();
+    }
+
+    /**
+     * Used by JSON.stringify so Money objects can be sent to the api directly
+     * @returns {Amount}
+     */
+    public toJSON(): Amount {
+        return this.toAmount();
+    }
+
+    /**
+     * @param {Amount | Money} other
+     * @returns {Money}
+     */
+    private assertSameCurrency(other: Amount | Money): Money {
+        const otherMoney = Money.fromAmount(other);
+        if (otherMoney.currency !== this.currency) {
+            throw new Error(`Currency mismatch, unable to combine ${this.currency} and ${otherMoney.currency}`);
+        }
+        return otherMoney;
+    }
+}
+
+/**
+ * Turns an Amount or Money object into a valid bunq Amount object
+ * @param {Amount | Money} amount
+ * @returns {Amount}
+ */
+export const toAmount = (amount: Amount | Money): Amount => {
+    return Money.fromAmount(amount).toAmount();
+};
+
+/**
+ * Turns a string, number or Money object into the two-decimal format bunq uses
+ * @param {AmountValue | number | Money} value
+ * @returns {AmountValue}
+ */
+export const toAmountValue = (value: AmountValue | number | Money): AmountValue => {
+    if (value instanceof Money) return value.toValue();
+
+    return Money.fromValue(value).toValue();
+};
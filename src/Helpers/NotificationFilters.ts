@@ -0,0 +1,72 @@
+import { NotificationCategory } from "../Types/NotificationFilter";
+
+// the fields bunq accepts when setting notification filters, the target is only used for URL filters
+export type NotificationFilterObject = {
+    category: NotificationCategory;
+    notification_target?: string;
+};
+
+// a filter to remove, without a target all filters for the category are removed
+export type NotificationFilterMatch = {
+    category: NotificationCategory;
+    notification_target?: string | false;
+};
+
+/**
+ * Turns the wrapped list response into the plain filter objects which can be sent back to the api
+ * @param {any[]} items - for example [{ NotificationFilterUrl: {...} }]
+ * @returns {T[]}
+ */
+export const getNotificationFilters = <T extends NotificationFilterObject>(items: any[]): T[] => {
+    return items.map(item => {
+        const filter = item[Object.keys(item)[0]];
+        const notificationFilter: any = { category: filter.category };
+        if (filter.notification_target !== undefined) {
+            notificationFilter.notification_target = filter.notification_target;
+        }
+        return notificationFilter;
+    });
+};
+
+/**
+ * Adds the new filters to the existing list while skipping duplicates
+ * @param {T[]} existingFilters
+ * @param {T[]} addedFilters
+ * @returns {T[]}
+ */
+export const mergeNotificationFilters = <T extends NotificationFilterObject>(
+    existingFilters: T[],
+    addedFilters: T[]
+): T[] => {
+    const mergedFilters = [...existingFilters];
+
+    addedFilters.forEach(addedFilter => {
+        const exists = mergedFilters.some(
+            filter =>
+                filter.category === addedFilter.category &&
+                filter.notification_target === addedFilter.notification_target
+        );
+        if (!exists) mergedFilters.push(addedFilter);
+    });
+    return mergedFilters;
+};
+
+/**
+ * @param {T[]} existingFilters
+ * @param {NotificationFilterMatch[]} removedFilters
+ * @returns {T[]}
+ */
+export const removeNotificationFilters = <T extends NotificationFilterObject>(
+    existingFilters: T[],
+    removedFilters: NotificationFilterMatch[]
+): T[] => {
+    return existingFilters.filter(
+        filter =>
+            !removedFilters.some(
+                removedFilter =>
+                    removedFilter.category === filter.category &&
+                    (!removedFilter.notification_target ||
+                        removedFilter.notification_target === filter.notification_target)
+            )
+    );
+};
@@ -0,0 +1,110 @@
+import PaginationOptions from "../Types/PaginationOptions";
+import PaginationIteratorOptions from "../Types/PaginationIteratorOptions";
+
+export type PageFetcher<T = any> = (options: PaginationOptions) => Promise<T[]>;
+
+/**
+ * Returns the object inside a wrapped item like { Payment: { id: 1 } }
+ * @param item
+ * @returns {any}
+ */
+export const getItemObject = (item: any): any => {
+    if (!item || typeof item !== "object") return {};
+    if (item.id !== undefined) return item;
+
+    const itemKeys = Object.keys(item);
+    if (itemKeys.length === 0) return {};
+
+    return item[itemKeys[0]] || {};
+};
+
+/**
+ * Turns a bunq date string (or any date value) into a Date object
+ * @param {Date | string} date
+ * @returns {Date}
+ */
+export const parseItemDate = (date: Date | string): Date => {
+    if (date instanceof Date) return date;
+
+    // bunq dates are UTC but don't include a timezone
+    return new Date(date.includes("T") ? date : `${date} UTC`);
+};
+
+/**
+ * Walks through the pages returned by the fetchPage callable and yields the items one by one
+ * @param {PageFetcher} fetchPage
+ * @param {PaginationIteratorOptions} options
+ * @returns {AsyncIterableIterator<T>}
+ */
+export async function* paginate<T = any>(
+    fetchPage: PageFetcher<T>,
+    options: PaginationIteratorOptions = {}
+): AsyncIterableIterator<T> {
+    // remaining options like filters are passed along to the list endpoint
+    const { direction, max_items, date_cutoff, id_cutoff, ...listOptions } = options;
+
+    const walkOlder = direction !== "newer";
+    const count = options.count || 200;
+    const maxItems = max_items || false;
+    const idCutoff = id_cutoff || false;
+    const dateCutoff = date_cutoff ? parseItemDate(date_cutoff) : false;
+
+    let cursor: number | false = (walkOlder ? options.older_id : options.newer_id) || false;
+    let itemCount = 0;
+
+    while (true) {
+        const pageOptions: PaginationOptions = {
+            ...listOptions,
+            count: count,
+            newer_id: false,
+            older_id: false
+        };
+        if (cursor !== false) {
+            pageOptions[walkOlder ? "older_id" : "newer_id"] = cursor;
+        }
+
+        const items = await fetchPage(pageOptions);
+        if (!items || items.length === 0) return;
+
+        // bunq returns the newest items first so reverse them when walking towards newer items
+        const orderedItems = walkOlder ? items : items.slice().reverse();
+
+        for (const item of orderedItems) {
+            const itemObject = getItemObject(item);
+
+            if (idCutoff !== false && itemObject.id !== undefined) {
+                if (walkOlder ? itemObject.id <= idCutoff : itemObject.id >= idCutoff) return;
+            }
+            if (dateCutoff !== false && itemObject.created) {
+                const created = parseItemDate(itemObject.created);
+                if (walkOlder ? created < dateCutoff : created > dateCutoff) return;
+            }
+
+            yield item;
+
+            itemCount++;
+            if (maxItems !== false && itemCount >= maxItems) return;
+        }
+
+        // less items than requested means this was the last page
+        if (items.length < count) return;
+
+        // continue from the last item we've seen, stop if it has no id to prevent an endless loop
+        const lastItemId = getItemObject(orderedItems[orderedItems.length - 1]).id;
+        if (lastItemId === undefined || lastItemId === cursor) return;
+        cursor = lastItemId;
+    }
+}
+
+/**
+ * Consumes the iterator and returns all items in a single list
+ * @param {AsyncIterableIterator<T>} iterator
+ * @returns {Promise<T[]>}
+ */
+export const collectAll = async <T = any>(iterator: AsyncIterableIterator<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const item of iterator) {
+        items.push(item);
+    }
+    return items;
+};
@@ -0,0 +1,60 @@
+import LoggerInterface from "../Interfaces/LoggerInterface";
+import RedactionOptions from "../Types/RedactionOptions";
+import { DEFAULT_REDACTION_OPTIONS, redact } from "./Redaction";
+
+/**
+ * Wraps a logger and masks tokens, keys and personal data before anything is logged.
+ * The BunqJSClient passes this logger to all modules so the options can be changed later on.
+ */
+export default class RedactingLogger implements LoggerInterface {
+    public logger: LoggerInterface;
+    public options: RedactionOptions | false;
+
+    /**
+     * @param {LoggerInterface} logger
+     * @param {RedactionOptions | false} options - false disables redaction
+     */
+    constructor(logger: LoggerInterface, options: RedactionOptions | false = DEFAULT_REDACTION_OPTIONS) {
+        this.logger = logger;
+        this.options = options;
+    }
+
+    /**
+     * Given fields and patterns replace the defaults,
+     * extend DEFAULT_REDACTED_FIELDS or DEFAULT_REDACTED_PATTERNS to keep them
+     * @param {Partial<RedactionOptions> | false} options
+     */
+    public setOptions(options: Partial<RedactionOptions> | false): void {
+        this.options = options === false ? false : { ...DEFAULT_REDACTION_OPTIONS, ...options };
+    }
+
+    public log(value: any): void {
+        this.logger.log(this.redact(value));
+    }
+
+    public info(value: any): void {
+        this.logger.info(this.redact(value));
+    }
+
+    public error(value: any): void {
+        this.logger.error(this.redact(value));
+    }
+
+    public debug(value: any): void {
+        this.logger.debug(this.redact(value));
+    }
+
+    public trace(value: any): void {
+        this.logger.trace(this.redact(value));
+    }
+
+    /**
+     * @param value
+     * @returns {any}
+     */
+    private redact(value: any): any {
+        if (this.options === false) return value;
+
+        return redact(value, this.options);
+    }
+}
@@ -0,0 +1,111 @@
+import RedactionOptions, { RedactionPattern } from "../Types/RedactionOptions";
+
+export const DEFAULT_REDACTION_MASK = "[REDACTED]";
+
+export const DEFAULT_REDACTED_FIELDS = [
+    "token",
+    "session_token",
+    "install_token",
+    "secret",
+    "api_key",
+    "access_token",
+    "authorization",
+    "x-bunq-client-authentication",
+    "private_key",
+    "client_private_key",
+    "server_public_key",
+    "encryption_key",
+    "pin",
+    "pin_code",
+    "cvc",
+    "cvc2",
+    "card_number",
+    "primary_account_number",
+    "iban"
+];
+
+export const DEFAULT_REDACTED_PATTERNS: RedactionPattern[] = [
+    // private keys in PEM format
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    // api keys and session tokens are 64 hexadecimal characters
+    /\b[a-f0-9]{64}\b/gi,
+    // IBANs like NL91ABNA0417164300
+    /\b[A-Z]{2}\d{2}[A-Z0-9]{11,30}\b/g,
+    // card numbers with 15 to 19 digits, optionally grouped with spaces or dashes
+    /\b(?:\d[ -]?){14,18}\d\b/g,
+    // user, account and other ids in urls like /v1/user/1234/monetary-account/5678
+    { pattern: /(\/[a-z][a-z-]*)\/\d+(?=[\/?#\s]|$)/g, replacement: "$1/{id}" }
+];
+
+export const DEFAULT_REDACTION_OPTIONS: RedactionOptions = {
+    fields: DEFAULT_REDACTED_FIELDS,
+    patterns: DEFAULT_REDACTED_PATTERNS,
+    mask: DEFAULT_REDACTION_MASK
+};
+
+/**
+ * @param {string} field
+ * @returns {string}
+ */
+const normalizeField = (field: string): string => field.toLowerCase().replace(/[-_]/g, "");
+
+/**
+ * @param {string} value
+ * @param {RedactionOptions} options
+ * @returns {string}
+ */
+export const redactString = (value: string, options: RedactionOptions = DEFAULT_REDACTION_OPTIONS): string => {
+    return options.patterns.reduce((redactedValue: string, redactionPattern: RedactionPattern) => {
+        if (redactionPattern instanceof RegExp) {
+            return redactedValue.replace(redactionPattern, options.mask);
+        }
+        return redactedValue.replace(redactionPattern.pattern, redactionPattern.replacement);
+    }, value);
+};
+
+/**
+ * Masks sensitive fields and patterns in strings, objects, arrays and errors. Errors keep their prototype so they
+ * are still logged as errors, other class instances like sockets are replaced by their class name
+ * @param value
+ * @param {RedactionOptions} options
+ * @param {any[]} parents - used to detect circular references
+ * @returns {any}
+ */
+export const redact = (value: any, options: RedactionOptions = DEFAULT_REDACTION_OPTIONS, parents: any[] = []): any => {
+    if (typeof value === "string") return redactString(value, options);
+    if (value === null || typeof value !== "object" || value instanceof Date) return value;
+    if (parents.includes(value)) return "[Circular]";
+
+    const nextParents = [...parents, value];
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, options, nextParents));
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    const isError = value instanceof Error;
+    if (!isError && prototype !== Object.prototype && prototype !== null) {
+        return `[${prototype.constructor ? prototype.constructor.name : "Object"}]`;
+    }
+
+    const redactedFields = options.fields.map(normalizeField);
+    const redactedValue = Object.create(prototype);
+    Object.keys(value).forEach(key => {
+        const redactField =
+            redactedFields.includes(normalizeField(key)) && value[key] !== null && value[key] !== undefined;
+
+        redactedValue[key] = redactField ? options.mask : redact(value[key], options, nextParents);
+    });
+
+    if (isError) {
+        // message and stack aren't enumerable
+        ["message", "stack"].forEach(key => {
+            Object.defineProperty(redactedValue, key, {
+                value: redact(value[key], options, nextParents),
+                enumerable: false,
+                writable: true,
+                configurable: true
+            });
+        });
+    }
+    return redactedValue;
+};
@@ -0,0 +1,81 @@
+import RetryPolicy from "../Types/RetryPolicy";
+import ClockInterface from "../Interfaces/ClockInterface";
+import SystemClock from "./SystemClock";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    max_attempts: 3,
+    base_delay: 1000,
+    max_delay: 30000,
+    jitter: 0.5,
+    retry_statuses: [429, 500, 502, 503, 504],
+    retry_network_errors: true,
+    respect_retry_after: true
+};
+
+/**
+ * @param {number} milliseconds
+ * @param {ClockInterface} clock
+ * @returns {Promise<void>}
+ */
+export const delay = (milliseconds: number, clock: ClockInterface = SystemClock): Promise<void> => {
+    return new Promise(resolve => clock.setTimeout(resolve, milliseconds));
+};
+
+/**
+ * Reads the Retry-After header which is either an amount of seconds or a http date
+ * @param headers
+ * @param {ClockInterface} clock - used to compare a http date with the current time
+ * @returns {number | false} the amount of milliseconds to wait
+ */
+export const getRetryAfter = (headers: any, clock: ClockInterface = SystemClock): number | false => {
+    if (!headers) return false;
+
+    const retryAfter = headers["retry-after"] || headers["Retry-After"];
+    if (retryAfter === undefined || retryAfter === null) return false;
+
+    const seconds = parseInt(retryAfter, 10);
+    if (!isNaN(seconds) && `${seconds}` === `${retryAfter}`.trim()) {
+        return Math.max(seconds, 0) * 1000;
+    }
+
+    const retryDate = Date.parse(retryAfter);
+    if (isNaN(retryDate)) return false;
+
+    return Math.max(retryDate - clock.now(), 0);
+};
+
+/**
+ * Checks if the error is worth retrying and returns the amount of milliseconds to wait before doing so
+ * @param error
+ * @param {number} attempt - the attempt which failed, starting at 1
+ * @param {RetryPolicy | false} retryPolicy
+ * @param {ClockInterface} clock
+ * @returns {number | false} false if the request shouldn't be retried
+ */
+export const getRetryDelay = (
+    error: any,
+    attempt: number,
+    retryPolicy: RetryPolicy | false,
+    clock: ClockInterface = SystemClock
+): number | false => {
+    if (retryPolicy === false || attempt >= retryPolicy.max_attempts) return false;
+
+    const response = error ? error.response : undefined;
+    if (response) {
+        if (!retryPolicy.retry_statuses.includes(response.status)) return false;
+    } else {
+        // errors without a response are only retried if the request was sent, for example a timeout or lost connection
+        if (!retryPolicy.retry_network_errors || !error || !error.request) return false;
+    }
+
+    if (response && retryPolicy.respect_retry_after) {
+        const retryAfter = getRetryAfter(response.headers, clock);
+        // retrying earlier would be refused again so give up when the server asks to wait longer than allowed
+        if (retryAfter !== false) return retryAfter <= retryPolicy.max_delay ? retryAfter : false;
+    }
+
+    const exponentialDelay = Math.min(retryPolicy.base_delay * Math.pow(2, attempt - 1), retryPolicy.max_delay);
+    const jitter = Math.min(Math.max(retryPolicy.jitter, 0), 1);
+
+    return Math.round(exponentialDelay * (1 - jitter * Math.random()));
+};
@@ -0,0 +1,14 @@
+import ClockInterface from "../Interfaces/ClockInterface";
+
+/**
+ * Uses the system time and the global timer functions, the default clock
+ */
+const SystemClock: ClockInterface = {
+    now: () => Date.now(),
+    setTimeout: (callback: () => void, milliseconds: number) => setTimeout(callback, milliseconds),
+    clearTimeout: (handle: any) => clearTimeout(handle),
+    setInterval: (callback: () => void, milliseconds: number) => setInterval(callback, milliseconds),
+    clearInterval: (handle: any) => clearInterval(handle)
+};
+
+export default SystemClock;
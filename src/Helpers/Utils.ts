@@ -1,3 +1,5 @@
+import Unwrapped from "../Types/Unwrapped";
+
 /**
  * First character becomes uppercase
  * @param {string} string
@@ -31,3 +33,26 @@ export const fixHeaderCase = (key: string) => {
     // merge back to a string
     return headerPartsFixed.join("-");
 };
+
+/**
+ * Turns a wrapped bunq object like { Payment: {...} } into the inner object with an objectType property
+ * @param {T} wrapped
+ * @returns {Unwrapped<T>}
+ */
+export const unwrapObject = <T extends object>(wrapped: T): Unwrapped<T> => {
+    const objectType = Object.keys(wrapped)[0];
+
+    return { ...wrapped[objectType], objectType: objectType };
+};
+
+/**
+ * Turns the parameters into a form encoded string, false values are left out
+ * @param {{[key: string]: string | false}} params
+ * @returns {string}
+ */
+export const encodeParams = (params: { [key: string]: string | false }): string => {
+    return Object.keys(params)
+        .filter(key => params[key] !== false && params[key] !== undefined && params[key] !== null)
+        .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(<string>params[key])}`)
+        .join("&");
+};
@@ -0,0 +1,87 @@
+import InstrumentationInterface from "../Interfaces/InstrumentationInterface";
+import RequestEvent from "../Types/RequestEvent";
+
+// the values of the SpanKind and SpanStatusCode enums in @opentelemetry/api
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * The parts of an @opentelemetry/api span which are used, so the api package isn't a dependency
+ */
+export interface SpanLike {
+    setAttribute(key: string, value: string | number | boolean): any;
+    setStatus(status: { code: number; message?: string }): any;
+    end(endTime?: number): void;
+}
+
+/**
+ * The parts of an @opentelemetry/api tracer which are used, for example trace.getTracer("bunq-js-client")
+ */
+export interface TracerLike {
+    startSpan(name: string, options?: any): SpanLike;
+}
+
+/**
+ * Creates a client span for each request attempt using an OpenTelemetry compatible tracer
+ */
+export default class OpenTelemetryInstrumentation implements InstrumentationInterface {
+    private tracer: TracerLike;
+    private spans: { [requestId: string]: SpanLike } = {};
+
+    /**
+     * @param {TracerLike} tracer
+     */
+    constructor(tracer: TracerLike) {
+        this.tracer = tracer;
+    }
+
+    /**
+     * @param {RequestEvent} event
+     */
+    public requestStarted(event: RequestEvent): void {
+        this.spans[this.getSpanKey(event)] = this.tracer.startSpan(`bunq ${event.method} ${event.endpoint}`, {
+            kind: SPAN_KIND_CLIENT,
+            startTime: event.startTime,
+            attributes: {
+                "http.method": event.method,
+                "http.route": event.endpoint,
+                "bunq.request_id": event.requestId,
+                "bunq.attempt": event.attempt,
+                "bunq.queue_duration_ms": event.queueDuration
+            }
+        });
+    }
+
+    /**
+     * @param {RequestEvent} event
+     */
+    public requestFinished(event: RequestEvent): void {
+        const spanKey = this.getSpanKey(event);
+        const span = this.spans[spanKey];
+        if (!span) return;
+        delete this.spans[spanKey];
+
+        if (event.status !== null) span.setAttribute("http.status_code", event.status);
+        if (event.responseId !== null) span.setAttribute("bunq.response_id", event.responseId);
+        span.setAttribute("http.request_content_length", event.requestBytes);
+        span.setAttribute("http.response_content_length", event.responseBytes);
+
+        if (event.error) {
+            span.setAttribute("bunq.verification_failed", event.verificationFailed);
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: event.error.message });
+        } else {
+            span.setStatus({ code: SPAN_STATUS_OK });
+        }
+        span.end(event.startTime + event.duration);
+    }
+
+    /**
+     * Retries with an idempotency key reuse the request id so the attempt is included
+     * @param {RequestEvent} event
+     * @returns {string}
+     */
+    private getSpanKey(event: RequestEvent): string {
+        return `${event.requestId}:${event.attempt}`;
+    }
+}
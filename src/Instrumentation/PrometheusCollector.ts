@@ -0,0 +1,152 @@
+import InstrumentationInterface from "../Interfaces/InstrumentationInterface";
+import RequestEvent from "../Types/RequestEvent";
+
+type Labels = { [label: string]: string };
+
+type Histogram = {
+    labels: Labels;
+    buckets: number[];
+    sum: number;
+    count: number;
+};
+
+// upper bounds in seconds, the same defaults as the official prometheus clients
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * @param {Labels} labels
+ * @returns {string}
+ */
+const formatLabels = (labels: Labels): string => {
+    const labelStrings = Object.keys(labels).map(label => {
+        const value = labels[label]
+            .replace(/\\/g, "\\\\")
+            .replace(/\n/g, "\\n")
+            .replace(/"/g, '\\"');
+        return `${label}="${value}"`;
+    });
+    return labelStrings.length > 0 ? `{${labelStrings.join(",")}}` : "";
+};
+
+/**
+ * Keeps request counters and histograms in memory and formats them in the prometheus text format,
+ * the metrics can be served on an existing metrics endpoint since nothing is pushed
+ */
+export default class PrometheusCollector implements InstrumentationInterface {
+    private prefix: string;
+    private bucketBounds: number[];
+
+    private counters: { [name: string]: { [labelKey: string]: { labels: Labels; value: number } } } = {};
+    private histograms: { [name: string]: { [labelKey: string]: Histogram } } = {};
+
+    /**
+     * @param {string} prefix
+     * @param {number[]} buckets - histogram upper bounds in seconds
+     */
+    constructor(prefix: string = "bunq", buckets: number[] = DEFAULT_BUCKETS) {
+        this.prefix = prefix;
+        this.bucketBounds = [...buckets].sort((a, b) => a - b);
+    }
+
+    /**
+     * @param {RequestEvent} event
+     */
+    public requestFinished(event: RequestEvent): void {
+        const labels = { method: event.method, endpoint: event.endpoint };
+        const status = event.status === null ? "none" : `${event.status}`;
+
+        this.increment("requests_total", { ...labels, status: status });
+        if (event.attempt > 1) this.increment("request_retries_total", labels);
+        if (event.error) this.increment("request_errors_total", { ...labels, error: event.error.name || "Error" });
+        if (event.verificationFailed) this.increment("response_verification_failures_total", labels);
+
+        this.increment("request_bytes_total", labels, event.requestBytes);
+        this.increment("response_bytes_total", labels, event.responseBytes);
+
+        this.observe("request_duration_seconds", labels, event.duration / 1000);
+        this.observe("request_queue_duration_seconds", labels, event.queueDuration / 1000);
+    }
+
+    /**
+     * Returns all metrics in the prometheus text exposition format
+     * @returns {string}
+     */
+    public metrics(): string {
+        const lines: string[] = [];
+
+        Object.keys(this.counters).forEach(name => {
+            const metricName = `${this.prefix}_${name}`;
+            lines.push(`# TYPE ${metricName} counter`);
+
+            Object.keys(this.counters[name]).forEach(labelKey => {
+                const counter = this.counters[name][labelKey];
+                lines.push(`${metricName}${formatLabels(counter.labels)} ${counter.value}`);
+            });
+        });
+
+        Object.keys(this.histograms).forEach(name => {
+            const metricName = `${this.prefix}_${name}`;
+            lines.push(`# TYPE ${metricName} histogram`);
+
+            Object.keys(this.histograms[name]).forEach(labelKey => {
+                const histogram = this.histograms[name][labelKey];
+
+                // buckets are cumulative in the prometheus format
+                this.bucketBounds.forEach((bound, index) => {
+                    const bucketLabels = formatLabels({ ...histogram.labels, le: `${bound}` });
+                    lines.push(`${metricName}_bucket${bucketLabels} ${histogram.buckets[index]}`);
+                });
+                lines.push(
+                    `${metricName}_bucket${formatLabels({ ...histogram.labels, le: "+Inf" })} ${histogram.count}`
+                );
+                lines.push(`${metricName}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+                lines.push(`${metricName}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+            });
+        });
+
+        return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+    }
+
+    public reset(): void {
+        this.counters = {};
+        this.histograms = {};
+    }
+
+    /**
+     * @param {string} name
+     * @param {Labels} labels
+     * @param {number} amount
+     */
+    private increment(name: string, labels: Labels, amount: number = 1): void {
+        const labelKey = formatLabels(labels);
+        if (!this.counters[name]) this.counters[name] = {};
+        if (!this.counters[name][labelKey]) this.counters[name][labelKey] = { labels: labels, value: 0 };
+
+        this.counters[name][labelKey].value += amount;
+    }
+
+    /**
+     * @param {string} name
+     * @param {Labels} labels
+     * @param {number} value
+     */
+    private observe(name: string, labels: Labels, value: number): void {
+        const labelKey = formatLabels(labels);
+        if (!this.histograms[name]) this.histograms[name] = {};
+        if (!this.histograms[name][labelKey]) {
+            this.histograms[name][labelKey] = {
+                labels: labels,
+                buckets: this.bucketBounds.map(() => 0),
+                sum: 0,
+                count: 0
+            };
+        }
+
+        const histogram = this.histograms[name][labelKey];
+        this.bucketBounds.forEach((bound, index) => {
+            if (value <= bound) histogram.buckets[index]++;
+        });
+        histogram.sum += value;
+        histogram.count++;
+    }
+}
@@ -24,6 +24,9 @@ import MonetaryAccountJoint from "../Api/MonetaryAccountJoint";
 import MonetaryAccountSavings from "../Api/MonetaryAccountSavings";
 import NoteAttachment from "../Api/NoteAttachment";
 import NoteText from "../Api/NoteText";
+import NotificationFilterPushUser from "../Api/NotificationFilterPushUser";
+import NotificationFilterUrlMonetaryAccount from "../Api/NotificationFilterUrlMonetaryAccount";
+import NotificationFilterUrlUser from "../Api/NotificationFilterUrlUser";
 import Payment from "../Api/Payment";
 import PaymentBatch from "../Api/PaymentBatch";
 import RequestInquiry from "../Api/RequestInquiry";
@@ -36,6 +39,7 @@ import SchedulePaymentBatch from "../Api/SchedulePaymentBatch";
 import SessionServer from "../Api/SessionServer";
 import ShareInviteBankInquiry from "../Api/ShareInviteBankInquiry";
 import ShareInviteBankResponse from "../Api/ShareInviteBankResponse";
+import UnifiedMonetaryAccount from "../Api/UnifiedMonetaryAccount";
 import User from "../Api/User";
 import UserCompany from "../Api/UserCompany";
 import UserPerson from "../Api/UserPerson";
@@ -67,6 +71,9 @@ export default interface ApiEndpointCollection {
     monetaryAccountSavings: MonetaryAccountSavings;
     noteAttachment: NoteAttachment;
     noteText: NoteText;
+    notificationFilterPushUser: NotificationFilterPushUser;
+    notificationFilterUrlMonetaryAccount: NotificationFilterUrlMonetaryAccount;
+    notificationFilterUrlUser: NotificationFilterUrlUser;
     payment: Payment;
     paymentBatch: PaymentBatch;
     requestInquiry: RequestInquiry;
@@ -79,6 +86,7 @@ export default interface ApiEndpointCollection {
     sessionServer: SessionServer;
     shareInviteBankInquiry: ShareInviteBankInquiry;
     shareInviteBankResponse: ShareInviteBankResponse;
+    unifiedMonetaryAccount: UnifiedMonetaryAccount;
     user: User;
     userCompany: UserCompany;
     userPerson: UserPerson;
@@ -0,0 +1,8 @@
+export default interface ClockInterface {
+    // the current time in milliseconds since the unix epoch
+    now(): number;
+    setTimeout(callback: () => void, milliseconds: number): any;
+    clearTimeout(handle: any): void;
+    setInterval(callback: () => void, milliseconds: number): any;
+    clearInterval(handle: any): void;
+}
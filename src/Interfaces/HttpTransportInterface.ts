@@ -0,0 +1,10 @@
+import HttpRequestConfig from "../Types/HttpRequestConfig";
+import HttpResponse from "../Types/HttpResponse";
+
+export default interface HttpTransportInterface {
+    /**
+     * Sends the request and resolves with the raw response for 2xx statuses. Other statuses should reject with an
+     * error which has the response set, network errors should reject with an error which has the request set.
+     */
+    request(config: HttpRequestConfig): Promise<HttpResponse>;
+}
@@ -0,0 +1,13 @@
+import RequestEvent from "../Types/RequestEvent";
+
+export default interface InstrumentationInterface {
+    /**
+     * Called before a request attempt is sent, the response values aren't set yet
+     */
+    requestStarted?(event: RequestEvent): void;
+
+    /**
+     * Called after a request attempt succeeded or failed
+     */
+    requestFinished?(event: RequestEvent): void;
+}
@@ -0,0 +1,23 @@
+import MiddlewareContext from "../Types/MiddlewareContext";
+
+export type MiddlewarePosition = "before_signing" | "after_signing";
+
+export default interface MiddlewareInterface {
+    // used to remove the middleware again
+    name: string;
+
+    /**
+     * Called in the order the middlewares were added before the request is sent
+     */
+    beforeSend?(context: MiddlewareContext): Promise<void> | void;
+
+    /**
+     * Called in the reverse order after a response was received, also when a middleware answered the request
+     */
+    afterReceive?(context: MiddlewareContext): Promise<void> | void;
+
+    /**
+     * Called in the reverse order when the request or one of the other hooks failed
+     */
+    onError?(context: MiddlewareContext): Promise<void> | void;
+}
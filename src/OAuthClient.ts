@@ -0,0 +1,307 @@
+import * as Url from "url";
+import BunqJSClient from "./BunqJSClient";
+import Logger from "./Helpers/Logger";
+import ErrorCodes from "./Helpers/ErrorCodes";
+import BunqOAuthError from "./Errors/BunqOAuthError";
+import AxiosTransport from "./HTTP/Transports/AxiosTransport";
+import { getEnvironment } from "./Helpers/Environments";
+import { encodeParams } from "./Helpers/Utils";
+import { decryptString, encryptString } from "./Crypto/Aes";
+import { createCodeChallenge, createCodeVerifier, createRandomToken } from "./Crypto/Pkce";
+
+import StorageInterface from "./Interfaces/StorageInterface";
+import LoggerInterface from "./Interfaces/LoggerInterface";
+import HttpTransportInterface from "./Interfaces/HttpTransportInterface";
+import OAuthClientOptions from "./Types/OAuthClientOptions";
+import OAuthAuthorization from "./Types/OAuthAuthorization";
+import OAuthToken from "./Types/OAuthToken";
+
+type PendingAuthorization = {
+    user_id: string;
+    code_verifier: string | false;
+    created: number;
+};
+
+/**
+ * Handles the OAuth authorization code flow for one OAuth client.
+ * The state of each authorization is stored until the user returns and the access tokens are stored per user
+ * so they can be used as an api key with BunqJSClient.run later.
+ */
+export default class OAuthClient {
+    public storageInterface: StorageInterface;
+    public logger: LoggerInterface;
+    public options: OAuthClientOptions;
+    public transport: HttpTransportInterface;
+
+    /**
+     * @param {StorageInterface} storageInterface
+     * @param {LoggerInterface} loggerInterface
+     * @param {OAuthClientOptions} options
+     */
+    constructor(
+        storageInterface: StorageInterface,
+        loggerInterface: LoggerInterface = Logger,
+        options: OAuthClientOptions
+    ) {
+        this.storageInterface = storageInterface;
+        this.logger = loggerInterface;
+        this.options = {
+            environment: "SANDBOX",
+            use_pkce: false,
+            state_timeout: 10 * 60 * 1000,
+            encryption_key: false,
+            ...options
+        };
+        this.transport = new AxiosTransport();
+
+        // fail early for unknown environments
+        getEnvironment(this.options.environment);
+    }
+
+    /**
+     * Changes the transport used for the token exchange
+     * @param {HttpTransportInterface} transport
+     */
+    public setHttpTransport(transport: HttpTransportInterface) {
+        this.transport = transport;
+    }
+
+    /**
+     * Creates the url which starts the login flow and stores the state until the user returns
+     * @param {string} userId - your own id for the user, the access token is stored for this id
+     * @returns {Promise<OAuthAuthorization>}
+     */
+    public async createAuthorizationUrl(userId: string): Promise<OAuthAuthorization> {
+        const state = createRandomToken();
+        const codeVerifier = this.options.use_pkce ? createCodeVerifier() : false;
+
+        const pendingAuthorization: PendingAuthorization = {
+            user_id: userId,
+            code_verifier: codeVerifier,
+            created: Date.now()
+        };
+        await this.storageInterface.set(this.getStateKey(state), pendingAuthorization);
+
+        const query = encodeParams({
+            response_type: "code",
+            client_id: this.options.client_id,
+            redirect_uri: this.options.redirect_uri,
+            state: state,
+            code_challenge: codeVerifier ? createCodeChallenge(codeVerifier) : false,
+            code_challenge_method: codeVerifier ? "S256" : false
+        });
+
+        return {
+            url: `${getEnvironment(this.options.environment).oauth_authorize_url}?${query}`,
+            state: state,
+            code_verifier: codeVerifier
+        };
+    }
+
+    /**
+     * Validates the redirect back to your application, exchanges the code and stores the access token
+     * @param {string | {[key: string]: string}} callback - the redirect url, its query string or the parsed params
+     * @returns {Promise<OAuthToken>}
+     */
+    public async handleCallback(callback: string | { [key: string]: string }): Promise<OAuthToken> {
+        const params: { [key: string]: any } =
+            typeof callback === "string"
+                ? Url.parse(callback.includes("?") ? callback : `?${callback}`, true).query
+                : callback;
+
+        // the state is always removed so it can't be used again, also when the user denied access
+        const pendingAuthorization = await this.consumeState(params.state);
+
+        if (params.error) {
+            throw new BunqOAuthError(
+                `OAuth authorization failed: ${params.error_description || params.error}`,
+                params,
+                ErrorCodes.OAUTH_REQUEST_FAILED,
+                params.error
+            );
+        }
+        if (!params.code) {
+            throw new BunqOAuthError("No authorization code received", params, ErrorCodes.OAUTH_REQUEST_FAILED);
+        }
+
+        const token = await this.exchangeCode(
+            params.code,
+            pendingAuthorization.user_id,
+            pendingAuthorization.code_verifier
+        );
+        await this.storeToken(token);
+
+        return token;
+    }
+
+    /**
+     * Exchanges an authorization code for an access token, the client credentials are sent in the body
+     * @param {string} code
+     * @param {string} userId
+     * @param {string | false} codeVerifier
+     * @returns {Promise<OAuthToken>}
+     */
+    public async exchangeCode(code: string, userId: string, codeVerifier: string | false = false): Promise<OAuthToken> {
+        const body = encodeParams({
+            grant_type: "authorization_code",
+            code: code,
+            redirect_uri: this.options.redirect_uri,
+            client_id: this.options.client_id,
+            client_secret: this.options.client_secret,
+            code_verifier: codeVerifier
+        });
+
+        let data;
+        try {
+            const response = await this.transport.request({
+                method: "POST",
+                url: getEnvironment(this.options.environment).oauth_token_url,
+                headers: {
+                    "Content-Type": "application/x-www-form-urlencoded",
+                    Accept: "application/json"
+                },
+                data: body
+            });
+            data = this.parseBody(response.data);
+        } catch (error) {
+            if (!error.response) throw error;
+
+            const errorData = this.parseBody(error.response.data) || {};
+            throw new BunqOAuthError(
+                `OAuth token exchange failed: ${errorData.error_description || error.message}`,
+                error.response,
+                ErrorCodes.OAUTH_REQUEST_FAILED,
+                errorData.error || false
+            );
+        }
+
+        if (!data || !data.access_token) {
+            throw new BunqOAuthError("No access token received", data, ErrorCodes.OAUTH_REQUEST_FAILED);
+        }
+
+        return {
+            access_token: data.access_token,
+            token_type: data.token_type || "bearer",
+            user_id: userId,
+            created: new Date().toISOString()
+        };
+    }
+
+    /**
+     * @param {OAuthToken} token
+     * @returns {Promise<void>}
+     */
+    public async storeToken(token: OAuthToken): Promise<void> {
+        let value: any = token;
+        if (this.options.encryption_key) {
+            const encrypted = await encryptString(JSON.stringify(token), this.options.encryption_key);
+            value = { iv: encrypted.iv, encrypted_token: encrypted.encryptedString };
+        }
+
+        await this.storageInterface.set(this.getTokenKey(token.user_id), value);
+    }
+
+    /**
+     * @param {string} userId
+     * @returns {Promise<OAuthToken | false>}
+     */
+    public async getToken(userId: string): Promise<OAuthToken | false> {
+        const value = await this.storageInterface.get(this.getTokenKey(userId));
+        if (value === undefined || value === null) return false;
+
+        if (!value.encrypted_token) return value;
+
+        if (!this.options.encryption_key) {
+            throw new Error("No encryption key is set, failed to decrypt the OAuth token");
+        }
+        const decryptedToken = await decryptString(value.encrypted_token, this.options.encryption_key, value.iv);
+        return JSON.parse(decryptedToken);
+    }
+
+    /**
+     * @param {string} userId
+     * @returns {Promise<void>}
+     */
+    public async removeToken(userId: string): Promise<void> {
+        await this.storageInterface.remove(this.getTokenKey(userId));
+    }
+
+    /**
+     * Runs the client for an OAuth session using the stored access token of the user as api key
+     * @param {BunqJSClient} bunqJSClient
+     * @param {string} userId
+     * @param {string[]} allowedIps
+     * @param {string | boolean} encryptionKey
+     * @returns {Promise<BunqJSClient>}
+     */
+    public async runClient(
+        bunqJSClient: BunqJSClient,
+        userId: string,
+        allowedIps: string[] = [],
+        encryptionKey: string | boolean = false
+    ): Promise<BunqJSClient> {
+        const token = await this.getToken(userId);
+        if (token === false) {
+            throw new BunqOAuthError(`No OAuth token stored for user ${userId}`);
+        }
+
+        await bunqJSClient.run(token.access_token, allowedIps, this.options.environment, encryptionKey);
+
+        return bunqJSClient;
+    }
+
+    /**
+     * Loads and removes a stored state, throws an error if it is unknown or has expired
+     * @param {string} state
+     * @returns {Promise<PendingAuthorization>}
+     */
+    private async consumeState(state: string): Promise<PendingAuthorization> {
+        if (!state || typeof state !== "string") {
+            throw new BunqOAuthError("No OAuth state received", false, ErrorCodes.INVALID_OAUTH_STATE);
+        }
+
+        const stateKey = this.getStateKey(state);
+        const pendingAuthorization: PendingAuthorization = await this.storageInterface.get(stateKey);
+        if (!pendingAuthorization) {
+            throw new BunqOAuthError("Unknown OAuth state received", false, ErrorCodes.INVALID_OAUTH_STATE);
+        }
+        await this.storageInterface.remove(stateKey);
+
+        if (Date.now() - pendingAuthorization.created > this.options.state_timeout) {
+            this.logger.debug("OAuth state has expired");
+            throw new BunqOAuthError("The OAuth state has expired", false, ErrorCodes.INVALID_OAUTH_STATE);
+        }
+
+        return pendingAuthorization;
+    }
+
+    /**
+     * @param data
+     * @returns {any}
+     */
+    private parseBody(data: any): any {
+        if (typeof data !== "string") return data;
+
+        try {
+            return JSON.parse(data);
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * @param {string} state
+     * @returns {string}
+     */
+    private getStateKey(state: string): string {
+        return `BUNQJSCLIENT_${this.options.environment}_OAUTH_STATE_${state}`;
+    }
+
+    /**
+     * @param {string} userId
+     * @returns {string}
+     */
+    private getTokenKey(userId: string): string {
+        return `BUNQJSCLIENT_${this.options.environment}_OAUTH_TOKEN_${userId}`;
+    }
+}
@@ -1,7 +1,26 @@
 import RequestLimiter from "./RequestLimiter";
+import ClockInterface from "./Interfaces/ClockInterface";
+import SystemClock from "./Helpers/SystemClock";
 
 export default class RequestLimitFactory {
     private limiters: any = {};
+    private clock: ClockInterface;
+
+    /**
+     * @param {ClockInterface} clock - used by the limiters to reset their limits
+     */
+    constructor(clock: ClockInterface = SystemClock) {
+        this.clock = clock;
+    }
+
+    /**
+     * Changes the clock for new and existing limiters
+     * @param {ClockInterface} clock
+     */
+    public setClock(clock: ClockInterface) {
+        this.clock = clock;
+        Object.keys(this.limiters).forEach(limiterKey => (this.limiters[limiterKey].limiter.clock = clock));
+    }
 
     /**
      * @param {string} endpoint
@@ -33,7 +52,7 @@ export default class RequestLimitFactory {
         }
 
         this.limiters[limiterKey] = {
-            limiter: new RequestLimiter(rateLimit, 3350),
+            limiter: new RequestLimiter(rateLimit, 3350, this.clock),
             method,
             endpoint
         };
@@ -1,3 +1,6 @@
+import ClockInterface from "./Interfaces/ClockInterface";
+import SystemClock from "./Helpers/SystemClock";
+
 export default class RequestLimiter {
     private max_requests: number = 3;
     private interval: number = 3000;
@@ -6,9 +9,13 @@ export default class RequestLimiter {
     private timer: boolean | any = false;
     private queue = [];
 
-    constructor(max_requests, interval) {
+    // runs the interval which resets the limit
+    public clock: ClockInterface;
+
+    constructor(max_requests, interval, clock: ClockInterface = SystemClock) {
         this.max_requests = max_requests;
         this.interval = interval;
+        this.clock = clock;
     }
 
     /**
@@ -27,7 +34,8 @@ export default class RequestLimiter {
         this.queue.push({
             resolve: resolvedCallback,
             reject: rejectCallback,
-            callable: callable
+            callable: callable,
+            queuedAt: this.clock.now()
         });
 
         return delayedPromise;
@@ -50,9 +58,13 @@ export default class RequestLimiter {
                 if (!queueItem) break;
 
                 this.requests++;
-                this.lastRequest = Date.now();
+                this.lastRequest = this.clock.now();
 
-                Promise.resolve(queueItem.callable()).then(queueItem.resolve, queueItem.reject);
+                // the callable receives the milliseconds it spent waiting in the queue
+                new Promise(resolve => resolve(queueItem.callable(this.lastRequest - queueItem.queuedAt))).then(
+                    queueItem.resolve,
+                    queueItem.reject
+                );
             }
 
             this.check();
@@ -69,7 +81,7 @@ export default class RequestLimiter {
     private setTimer = () => {
         if (this.timer !== false) return;
 
-        this.timer = setInterval(() => {
+        this.timer = this.clock.setInterval(() => {
             if (this.queue.length === 0) {
                 this.clearTimer();
             }
@@ -84,17 +96,17 @@ export default class RequestLimiter {
      */
     private clearTimer = () => {
         if (this.timer !== false) {
-            clearInterval(this.timer);
+            this.clock.clearInterval(this.timer);
             this.timer = false;
         }
     };
 
     /**
      * Run the request limit checker
-     * @param callable
+     * @param {(queueDuration: number) => any} callable - called with the milliseconds it waited in the queue
      * @returns {any}
      */
-    public run: any = async callable => {
+    public run: any = async (callable: (queueDuration: number) => any) => {
         const promise = this.wrapCallable(callable);
         this.check();
         return promise;
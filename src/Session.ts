@@ -3,20 +3,20 @@ import { encryptString, decryptString, validateKey } from "./Crypto/Aes";
 import { derivePasswordKey } from "./Crypto/Pbkdf2";
 import StorageInterface from "./Interfaces/StorageInterface";
 import LoggerInterface from "./Interfaces/LoggerInterface";
+import LifecycleEvents from "./Helpers/LifecycleEvents";
+import SystemClock from "./Helpers/SystemClock";
+import ClockInterface from "./Interfaces/ClockInterface";
+import { ALLOWED_ENVIROMENTS, getEnvironment, URL_ENVIROMENTS } from "./Helpers/Environments";
 
-type UrlEnviromentType = {
-    [key: string]: string;
-};
-
-export const ALLOWED_ENVIROMENTS: string[] = ["SANDBOX", "PRODUCTION"];
-export const URL_ENVIROMENTS: UrlEnviromentType = {
-    SANDBOX: "https://public-api.sandbox.bunq.com",
-    PRODUCTION: "https://api.bunq.com"
-};
+// environments can be added with registerEnvironment
+export { ALLOWED_ENVIROMENTS, URL_ENVIROMENTS };
 
 export default class Session {
     public storageInterface: StorageInterface;
     public logger: LoggerInterface;
+    public lifecycle: LifecycleEvents;
+    // used to check if the session has expired
+    public clock: ClockInterface = SystemClock;
     public apiKey: string | boolean = null;
     public apiKeyIdentifier: string | boolean = null;
     public encryptionKey: string | boolean = false;
@@ -54,9 +54,19 @@ export default class Session {
     public storageKeyLocation: string;
     public storageIvLocation: string;
 
-    constructor(storageInterface: StorageInterface, loggerInterface: LoggerInterface) {
+    /**
+     * @param {StorageInterface} storageInterface
+     * @param {LoggerInterface} loggerInterface
+     * @param {LifecycleEvents} lifecycleEvents - shared with the client so it can emit the session events
+     */
+    constructor(
+        storageInterface: StorageInterface,
+        loggerInterface: LoggerInterface,
+        lifecycleEvents: LifecycleEvents = new LifecycleEvents(loggerInterface)
+    ) {
         this.storageInterface = storageInterface;
         this.logger = loggerInterface;
+        this.lifecycle = lifecycleEvents;
 
         this.environmentType = "SANDBOX";
     }
@@ -193,6 +203,7 @@ export default class Session {
         } catch (error) {
             this.logger.debug("Failed to decrypt session");
             this.logger.debug(error);
+            this.lifecycle.emit({ type: "storageDecryptFailed", environment: this.environment, error: error });
             // failed to decrypt the session, return false
             return false;
         }
@@ -200,6 +211,7 @@ export default class Session {
         // api keys dont match, this session is outdated
         if (this.apiKey !== false && this.apiKey !== null && session.apiKey !== this.apiKey) {
             this.logger.debug("Api key changed or is different (api key could be empty)");
+            this.lifecycle.emit({ type: "sessionDestroyed", environment: this.environment, reason: "api_key_changed" });
             return false;
         }
 
@@ -207,6 +219,11 @@ export default class Session {
         if (session.environment !== this.environment) {
             this.logger.debug("Environment changed, delete existing session");
             await this.destroySession();
+            this.lifecycle.emit({
+                type: "sessionDestroyed",
+                environment: this.environment,
+                reason: "environment_changed"
+            });
             return false;
         }
         this.environment = session.environment;
@@ -243,18 +260,19 @@ export default class Session {
         // if we have a stored installation but no session we reset to prevent
         // creating two sessions for a single installation
         if (this.verifyInstallation() && this.verifyDeviceInstallation() && !this.verifySessionInstallation()) {
+            if (this.sessionId !== null) {
+                this.lifecycle.emit({
+                    type: "sessionExpired",
+                    environment: this.environment,
+                    expiry_time: this.sessionExpiryTime
+                });
+            }
             await this.destroyApiSession(true);
             return false;
         }
 
-        try {
-            this.logger.debug(
-                `sessionToken: ${session.sessionToken === null ? null : session.sessionToken.substring(0, 5)}`
-            );
-            this.logger.debug(
-                `installToken: ${session.installToken === null ? null : session.installToken.substring(0, 5)}`
-            );
-        } catch (error) {}
+        this.logger.debug(`sessionToken set: ${session.sessionToken !== null}`);
+        this.logger.debug(`installToken set: ${session.installToken !== null}`);
 
         return true;
     }
@@ -533,10 +551,8 @@ export default class Session {
         const installationValid = this.serverPublicKey !== null && this.installToken !== null;
 
         this.logger.debug("Installation valid: " + installationValid);
-        this.logger.debug("this.serverPublicKey = " + this.serverPublicKey);
-        this.logger.debug(
-            `this.installToken = ${this.installToken === null ? null : this.installToken.substring(0, 5)}`
-        );
+        this.logger.debug("serverPublicKey set: " + (this.serverPublicKey !== null));
+        this.logger.debug("installToken set: " + (this.installToken !== null));
 
         return installationValid;
     }
@@ -575,11 +591,11 @@ export default class Session {
      * @returns {boolean}
      */
     public verifySessionExpiry(): boolean {
-        const currentTime = new Date();
-        if (this.sessionExpiryTime.getTime() <= currentTime.getTime()) {
+        const currentTime = this.clock.now();
+        if (this.sessionExpiryTime.getTime() <= currentTime) {
             this.logger.debug(" === Session invalid: expired === ");
             this.logger.debug("this.sessionExpiryTime.getTime() = " + this.sessionExpiryTime.getTime());
-            this.logger.debug("currentTime.getTime() = " + currentTime.getTime());
+            this.logger.debug("currentTime = " + currentTime);
             return false;
         }
         return true;
@@ -592,7 +608,7 @@ export default class Session {
     set environmentType(environmentType: string) {
         if (ALLOWED_ENVIROMENTS.includes(environmentType)) {
             this.environment = environmentType;
-            this.environmentUrl = URL_ENVIROMENTS[this.environment];
+            this.environmentUrl = getEnvironment(this.environment).api_url;
 
             // set the storage location for the environment
             this.storageKeyLocation = `BUNQJSCLIENT_${this.environment}_SESSION_${this.apiKeyIdentifier}`;
@@ -0,0 +1,14 @@
+import StorageInterface from "../Interfaces/StorageInterface";
+
+/**
+ * Prefixes all keys so multiple clients can share a single storage without overwriting each other
+ */
+export default (storageInterface: StorageInterface, namespace: string): StorageInterface => {
+    const namespacedKey = (key: string) => `${namespace}_${key}`;
+
+    return {
+        get: (key: string) => storageInterface.get(namespacedKey(key)),
+        set: (key: string, value: any) => storageInterface.set(namespacedKey(key), value),
+        remove: (key: string) => storageInterface.remove(namespacedKey(key))
+    };
+};
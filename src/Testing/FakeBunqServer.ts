@@ -0,0 +1,615 @@
+const forge = require("../Crypto/CustomForge");
+import * as http from "http";
+import * as Url from "url";
+import { createKeyPair, privateKeyFromPem, privateKeyToPem, publicKeyToPem } from "../Crypto/Rsa";
+import { signString } from "../Crypto/Sha256";
+import { fixHeaderCase } from "../Helpers/Utils";
+import Money from "../Helpers/Money";
+import { createResponseError } from "../Helpers/HttpErrors";
+import HttpTransportInterface from "../Interfaces/HttpTransportInterface";
+import HttpRequestConfig from "../Types/HttpRequestConfig";
+import HttpResponse from "../Types/HttpResponse";
+import { BUNQ_REQUEST_AUTHENTICATION_HEADER_KEY, BUNQ_SERVER_SIGNATURE_HEADER_KEY } from "../ApiAdapter";
+import FakeBunqState, { formatBunqDate } from "./FakeBunqState";
+
+export type FakeBunqServerOptions = {
+    // the private key used to sign responses, a new key is generated when none is given
+    privateKeyPem?: string;
+    bits?: number;
+    state?: FakeBunqState;
+};
+
+export type FakeBunqRequest = {
+    method: string;
+    url: string;
+    headers?: { [key: string]: string | string[] };
+    body?: string;
+};
+
+export type FakeBunqResponse = {
+    status: number;
+    headers: { [key: string]: string };
+    body: string;
+};
+
+type FakeBunqRoute = {
+    method: string;
+    pattern: RegExp;
+    authentication: "none" | "installation" | "session";
+    handler: (context: FakeBunqRouteContext) => FakeBunqResult;
+};
+
+type FakeBunqRouteContext = {
+    params: string[];
+    query: any;
+    path: string;
+    body: any;
+    token: string;
+    session: { id: number; user_id: number } | null;
+};
+
+type FakeBunqResult = { status: number; body: any };
+
+// bunq returns 10 items by default and allows at most 200 items per page
+const DEFAULT_PAGE_COUNT = 10;
+const MAX_PAGE_COUNT = 200;
+
+/**
+ * Error which is turned into a bunq error response by the fake server
+ */
+class FakeBunqError extends Error {
+    public status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+        Object.setPrototypeOf(this, FakeBunqError.prototype);
+    }
+}
+
+/**
+ * An in-process imitation of the bunq api for offline integration tests. Responses are signed with the key of the
+ * fake server so the regular response verification keeps working.
+ *
+ * Use it as the http transport of a client to handle requests without a network connection or listen() to run it as
+ * a real http server, in both cases Session.environmentUrl should point to the fake server.
+ */
+export default class FakeBunqServer implements HttpTransportInterface {
+    public state: FakeBunqState;
+    public url: string = "http://127.0.0.1";
+
+    public privateKeyPem: string | null = null;
+    public publicKeyPem: string | null = null;
+
+    private options: FakeBunqServerOptions;
+    private privateKey: any = null;
+    private settingUp: Promise<void> | null = null;
+    private httpServer: http.Server | null = null;
+    private routes: FakeBunqRoute[];
+
+    /**
+     * @param {FakeBunqServerOptions} options
+     */
+    constructor(options: FakeBunqServerOptions = {}) {
+        this.options = { bits: 2048, ...options };
+        this.state = options.state || new FakeBunqState();
+        this.routes = this.createRoutes();
+    }
+
+    /**
+     * Loads or generates the signing key, called automatically for the first request
+     * @returns {Promise<void>}
+     */
+    public async setup(): Promise<void> {
+        if (!this.settingUp) {
+            this.settingUp = (async () => {
+                if (this.options.privateKeyPem) {
+                    this.privateKey = await privateKeyFromPem(this.options.privateKeyPem);
+                } else {
+                    this.privateKey = (await createKeyPair(this.options.bits)).privateKey;
+                }
+
+                const publicKey = forge.pki.setRsaPublicKey(this.privateKey.n, this.privateKey.e);
+
+                this.privateKeyPem = await privateKeyToPem(this.privateKey);
+                this.publicKeyPem = await publicKeyToPem(publicKey);
+            })();
+        }
+        return this.settingUp;
+    }
+
+    /**
+     * Handles a single request and returns the signed response
+     * @param {FakeBunqRequest} request
+     * @returns {Promise<FakeBunqResponse>}
+     */
+    public async handle(request: FakeBunqRequest): Promise<FakeBunqResponse> {
+        await this.setup();
+
+        const headers = {};
+        Object.keys(request.headers || {}).forEach(headerKey => {
+            const headerValue = request.headers[headerKey];
+            headers[headerKey.toLowerCase()] = Array.isArray(headerValue) ? headerValue.join(", ") : headerValue;
+        });
+
+        let result: FakeBunqResult;
+        try {
+            result = this.route(request.method.toUpperCase(), request.url, headers, request.body);
+        } catch (error) {
+            if (!(error instanceof FakeBunqError)) throw error;
+
+            result = {
+                status: error.status,
+                body: { Error: [{ error_description: error.message, error_description_translated: error.message }] }
+            };
+        }
+
+        return this.createResponse(result, headers["x-bunq-client-request-id"]);
+    }
+
+    /**
+     * Handles a request from the ApiAdapter without using the network, for example after
+     * bunqJSClient.setHttpTransport(fakeBunqServer)
+     * @param {HttpRequestConfig} config
+     * @returns {Promise<HttpResponse>}
+     */
+    public async request(config: HttpRequestConfig): Promise<HttpResponse> {
+        const parsedUrl = Url.parse(config.url, true);
+        const query = { ...parsedUrl.query, ...(config.params || {}) };
+        const queryString = Object.keys(query)
+            .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(query[key])}`)
+            .join("&");
+
+        const fakeResponse = await this.handle({
+            method: config.method,
+            url: `${parsedUrl.pathname}${queryString ? `?${queryString}` : ""}`,
+            headers: config.headers,
+            body:
+                typeof config.data === "string" || config.data === undefined ? config.data : JSON.stringify(config.data)
+        });
+
+        const response: HttpResponse = {
+            status: fakeResponse.status,
+            statusText: http.STATUS_CODES[fakeResponse.status],
+            headers: fakeResponse.headers,
+            data: fakeResponse.body
+        };
+
+        if (response.status < 200 || response.status >= 300) {
+            throw createResponseError(config, response);
+        }
+        return response;
+    }
+
+    /**
+     * An axios adapter for code which calls axios directly, for example axios.defaults.adapter = server.axiosAdapter
+     * @param config
+     * @returns {Promise<any>}
+     */
+    public axiosAdapter = async (config: any): Promise<any> => {
+        return this.request(config);
+    };
+
+    /**
+     * Starts a http server for the fake api
+     * @param {number} port - a random free port is used by default
+     * @param {string} hostname
+     * @returns {Promise<string>} the url which can be used as Session.environmentUrl
+     */
+    public async listen(port: number = 0, hostname: string = "127.0.0.1"): Promise<string> {
+        await this.setup();
+
+        this.httpServer = http.createServer((request, response) => {
+            let body = "";
+            request.setEncoding("utf8");
+            request.on("data", chunk => (body += chunk));
+            request.on("end", async () => {
+                try {
+                    const fakeResponse = await this.handle({
+                        method: request.method,
+                        url: request.url,
+                        headers: request.headers as any,
+                        body: body
+                    });
+
+                    response.writeHead(fakeResponse.status, fakeResponse.headers);
+                    response.end(fakeResponse.body);
+                } catch (error) {
+                    response.writeHead(500);
+                    response.end();
+                }
+            });
+        });
+
+        await new Promise(resolve => this.httpServer.listen(port, hostname, resolve));
+
+        this.url = `http://${hostname}:${this.httpServer.address().port}`;
+        return this.url;
+    }
+
+    /**
+     * Stops the http server started with listen()
+     * @returns {Promise<void>}
+     */
+    public async close(): Promise<void> {
+        if (!this.httpServer) return;
+
+        const httpServer = this.httpServer;
+        this.httpServer = null;
+        await new Promise(resolve => httpServer.close(resolve));
+    }
+
+    /**
+     * @param {string} method
+     * @param {string} url
+     * @param headers - lowercase header keys
+     * @param {string} rawBody
+     * @returns {FakeBunqResult}
+     */
+    private route(method: string, url: string, headers: any, rawBody: string | undefined): FakeBunqResult {
+        const parsedUrl = Url.parse(url, true);
+        const path = parsedUrl.pathname.replace(/\/+$/, "");
+
+        const pathRoutes = this.routes.filter(route => route.pattern.test(path));
+        if (pathRoutes.length === 0) {
+            throw new FakeBunqError(404, "Route not found.");
+        }
+        const route = pathRoutes.find(pathRoute => pathRoute.method === method);
+        if (!route) {
+            throw new FakeBunqError(405, "Method not allowed.");
+        }
+
+        let body: any = {};
+        if (rawBody) {
+            try {
+                body = JSON.parse(rawBody);
+            } catch (error) {
+                throw new FakeBunqError(400, "Invalid JSON body.");
+            }
+        }
+
+        const token = headers[BUNQ_REQUEST_AUTHENTICATION_HEADER_KEY.toLowerCase()];
+        let session = null;
+        if (route.authentication === "installation" && !this.state.installations[token]) {
+            throw new FakeBunqError(401, "Insufficient authentication.");
+        }
+        if (route.authentication === "session") {
+            session = this.state.sessions[token];
+            if (!session) {
+                throw new FakeBunqError(401, "Insufficient authentication.");
+            }
+        }
+
+        const params = route.pattern.exec(path).slice(1);
+
+        // users can only access their own data
+        if (session && path.startsWith("/v1/user/") && parseInt(params[0]) !== session.user_id) {
+            throw new FakeBunqError(404, "User not found.");
+        }
+
+        return route.handler({
+            params: params,
+            query: parsedUrl.query,
+            path: path,
+            body: body,
+            token: token,
+            session: session
+        });
+    }
+
+    /**
+     * @param {FakeBunqResult} result
+     * @param {string} requestId
+     * @returns {Promise<FakeBunqResponse>}
+     */
+    private async createResponse(result: FakeBunqResult, requestId: string | undefined): Promise<FakeBunqResponse> {
+        const body = JSON.stringify(result.body);
+        const headers: { [key: string]: string } = {
+            "content-type": "application/json",
+            "x-bunq-client-response-id": this.state.createToken().substring(0, 36)
+        };
+        if (requestId) headers["x-bunq-client-request-id"] = requestId;
+
+        // sign the response the same way VerifyResponseHandler checks it
+        const headerStrings = Object.keys(headers)
+            .map(fixHeaderCase)
+            .filter(headerKey => headerKey.includes("X-Bunq"))
+            .map(headerKey => `${headerKey}: ${headers[headerKey.toLowerCase()]}`);
+        const template = `${result.status}\n${headerStrings.sort().join("\n")}\n\n${body}`;
+
+        headers[BUNQ_SERVER_SIGNATURE_HEADER_KEY.toLowerCase()] = await signString(template, this.privateKey);
+
+        return { status: result.status, headers: headers, body: body };
+    }
+
+    /**
+     * @returns {FakeBunqRoute[]}
+     */
+    private createRoutes(): FakeBunqRoute[] {
+        const state = this.state;
+        const monetaryAccountPath = "/v1/user/(\\d+)/monetary-account(?:-bank)?/(\\d+)";
+
+        const route = (
+            method: string,
+            path: string,
+            authentication: FakeBunqRoute["authentication"],
+            handler: FakeBunqRoute["handler"]
+        ): FakeBunqRoute => ({
+            method: method,
+            pattern: new RegExp(`^${path}$`),
+            authentication: authentication,
+            handler: handler
+        });
+
+        return [
+            route("POST", "/v1/installation", "none", ({ body }) => {
+                if (!body.client_public_key) {
+                    throw new FakeBunqError(400, "Field client_public_key is required.");
+                }
+                const token = state.createToken();
+                const id = state.nextId();
+                state.installations[token] = { id: id, client_public_key: body.client_public_key };
+
+                return this.ok([
+                    { Id: { id: id } },
+                    { Token: this.createTokenObject(token) },
+                    { ServerPublicKey: { server_public_key: this.publicKeyPem } }
+                ]);
+            }),
+            route("POST", "/v1/device-server", "installation", ({ body, token }) => {
+                if (state.apiKeys[body.secret] === undefined) {
+                    throw new FakeBunqError(400, "User credentials are incorrect. Incorrect API key or IP address.");
+                }
+                const id = state.nextId();
+                state.devices[id] = { id: id, description: body.description, installation_token: token };
+
+                return this.ok([{ Id: { id: id } }]);
+            }),
+            route("POST", "/v1/session-server", "installation", ({ body }) => {
+                const userId = state.apiKeys[body.secret];
+                if (userId === undefined) {
+                    throw new FakeBunqError(400, "User credentials are incorrect. Incorrect API key or IP address.");
+                }
+                const token = state.createToken();
+                const id = state.nextId();
+                state.sessions[token] = { id: id, user_id: userId };
+
+                return this.ok([
+                    { Id: { id: id } },
+                    { Token: this.createTokenObject(token) },
+                    { UserPerson: state.getUser(userId) }
+                ]);
+            }),
+            route("DELETE", "/v1/session/(\\d+)", "session", ({ token }) => {
+                delete state.sessions[token];
+                return this.ok([]);
+            }),
+            route("GET", "/v1/user", "session", ({ session }) => {
+                return this.ok([{ UserPerson: state.getUser(session.user_id) }]);
+            }),
+            route("GET", "/v1/user/(\\d+)", "session", ({ session }) => {
+                return this.ok([{ UserPerson: state.getUser(session.user_id) }]);
+            }),
+            route("GET", "/v1/user/(\\d+)/monetary-account(?:-bank)?", "session", ({ params, query, path }) => {
+                const userId = parseInt(params[0]);
+                const monetaryAccounts = state.monetaryAccounts.filter(item => item.user_id === userId);
+
+                return this.paginate("MonetaryAccountBank", monetaryAccounts, query, path);
+            }),
+            route("POST", "/v1/user/(\\d+)/monetary-account-bank", "session", ({ params, body }) => {
+                if (!body.description) {
+                    throw new FakeBunqError(400, "Field description is required.");
+                }
+                const monetaryAccount = state.createMonetaryAccount(parseInt(params[0]), body.description);
+                if (body.daily_limit) monetaryAccount.daily_limit = body.daily_limit;
+                if (body.setting) monetaryAccount.setting = { ...monetaryAccount.setting, ...body.setting };
+
+                return this.ok([{ Id: { id: monetaryAccount.id } }]);
+            }),
+            route("GET", monetaryAccountPath, "session", ({ params }) => {
+                return this.ok([{ MonetaryAccountBank: this.getMonetaryAccount(params) }]);
+            }),
+            route("PUT", monetaryAccountPath, "session", ({ params, body }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+                ["description", "daily_limit", "status", "sub_status"].forEach(field => {
+                    if (body[field] !== undefined) monetaryAccount[field] = body[field];
+                });
+                if (body.setting) monetaryAccount.setting = { ...monetaryAccount.setting, ...body.setting };
+                monetaryAccount.updated = formatBunqDate();
+
+                return this.ok([{ Id: { id: monetaryAccount.id } }]);
+            }),
+            route("GET", `${monetaryAccountPath}/payment`, "session", ({ params, query, path }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+                const payments = state.payments.filter(item => item.monetary_account_id === monetaryAccount.id);
+
+                return this.paginate("Payment", payments, query, path);
+            }),
+            route("POST", `${monetaryAccountPath}/payment`, "session", ({ params, body }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+                this.validateAmount(body.amount);
+                if (!body.counterparty_alias) {
+                    throw new FakeBunqError(400, "Field counterparty_alias is required.");
+                }
+                if (Money.fromAmount(monetaryAccount.balance).lessThan(body.amount)) {
+                    throw new FakeBunqError(400, "Insufficient balance.");
+                }
+
+                const payment = state.createPayment(
+                    monetaryAccount.id,
+                    body.amount,
+                    body.counterparty_alias,
+                    body.description || "",
+                    body.merchant_reference || null
+                );
+
+                return this.ok([{ Id: { id: payment.id } }]);
+            }),
+            route("GET", `${monetaryAccountPath}/payment/(\\d+)`, "session", ({ params }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+
+                return this.ok([{ Payment: this.findItem(state.payments, monetaryAccount.id, params[2], "Payment") }]);
+            }),
+            route("GET", `${monetaryAccountPath}/request-inquiry`, "session", ({ params, query, path }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+                const requestInquiries = state.requestInquiries.filter(
+                    item => item.monetary_account_id === monetaryAccount.id
+                );
+
+                return this.paginate("RequestInquiry", requestInquiries, query, path);
+            }),
+            route("POST", `${monetaryAccountPath}/request-inquiry`, "session", ({ params, body }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+                this.validateAmount(body.amount_inquired);
+                if (!body.counterparty_alias) {
+                    throw new FakeBunqError(400, "Field counterparty_alias is required.");
+                }
+
+                const requestInquiry = state.createRequestInquiry(
+                    monetaryAccount.id,
+                    body.amount_inquired,
+                    body.counterparty_alias,
+                    body.description || "",
+                    body.merchant_reference || null
+                );
+
+                return this.ok([{ Id: { id: requestInquiry.id } }]);
+            }),
+            route("GET", `${monetaryAccountPath}/request-inquiry/(\\d+)`, "session", ({ params }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+                const requestInquiry = this.findItem(
+                    state.requestInquiries,
+                    monetaryAccount.id,
+                    params[2],
+                    "RequestInquiry"
+                );
+
+                return this.ok([{ RequestInquiry: requestInquiry }]);
+            }),
+            route("PUT", `${monetaryAccountPath}/request-inquiry/(\\d+)`, "session", ({ params, body }) => {
+                const monetaryAccount = this.getMonetaryAccount(params);
+                const requestInquiry = this.findItem(
+                    state.requestInquiries,
+                    monetaryAccount.id,
+                    params[2],
+                    "RequestInquiry"
+                );
+                if (body.status !== "REVOKED" || requestInquiry.status !== "PENDING") {
+                    throw new FakeBunqError(400, "Only pending requests can be revoked.");
+                }
+                requestInquiry.status = "REVOKED";
+                requestInquiry.updated = formatBunqDate();
+
+                return this.ok([{ RequestInquiry: requestInquiry }]);
+            }),
+            route("GET", "/v1/user/(\\d+)/event", "session", ({ params, query, path }) => {
+                const userId = parseInt(params[0]);
+                const events = state.events.filter(
+                    item =>
+                        item.user_id === userId &&
+                        (!query.monetary_account_id ||
+                            item.monetary_account_id === parseInt(query.monetary_account_id)) &&
+                        (!query.status || item.status === query.status)
+                );
+
+                return this.paginate("Event", events, query, path);
+            })
+        ];
+    }
+
+    /**
+     * Returns a page of items, newest first, with the Pagination object bunq sends with list responses
+     * @param {string} objectType
+     * @param {any[]} items
+     * @param query
+     * @param {string} path
+     * @returns {FakeBunqResult}
+     */
+    private paginate(objectType: string, items: any[], query: any, path: string): FakeBunqResult {
+        const count = Math.min(parseInt(query.count) || DEFAULT_PAGE_COUNT, MAX_PAGE_COUNT);
+        const sortedItems = items.slice().sort((a, b) => b.id - a.id);
+
+        let pageItems: any[];
+        if (query.newer_id) {
+            // the items directly after the cursor
+            pageItems = sortedItems.filter(item => item.id > parseInt(query.newer_id)).slice(-count);
+        } else if (query.older_id) {
+            pageItems = sortedItems.filter(item => item.id < parseInt(query.older_id)).slice(0, count);
+        } else {
+            pageItems = sortedItems.slice(0, count);
+        }
+
+        const newestId = pageItems.length > 0 ? pageItems[0].id : parseInt(query.newer_id) || 0;
+        const oldestId = pageItems.length > 0 ? pageItems[pageItems.length - 1].id : false;
+        const hasNewer = sortedItems.some(item => item.id > newestId);
+        const hasOlder = oldestId !== false && sortedItems.some(item => item.id < oldestId);
+
+        return {
+            status: 200,
+            body: {
+                Response: pageItems.map(item => ({ [objectType]: item })),
+                Pagination: {
+                    future_url: hasNewer ? null : `${path}?count=${count}&newer_id=${newestId}`,
+                    newer_url: hasNewer ? `${path}?count=${count}&newer_id=${newestId}` : null,
+                    older_url: hasOlder ? `${path}?count=${count}&older_id=${oldestId}` : null
+                }
+            }
+        };
+    }
+
+    /**
+     * @param {any[]} response
+     * @returns {FakeBunqResult}
+     */
+    private ok(response: any[]): FakeBunqResult {
+        return { status: 200, body: { Response: response } };
+    }
+
+    /**
+     * @param {string} token
+     * @returns {any}
+     */
+    private createTokenObject(token: string): any {
+        const now = formatBunqDate();
+
+        return { id: this.state.nextId(), created: now, updated: now, token: token };
+    }
+
+    /**
+     * @param {string[]} params - the user id and monetary account id from the url
+     * @returns {any}
+     */
+    private getMonetaryAccount(params: string[]): any {
+        const monetaryAccount = this.state.getMonetaryAccount(parseInt(params[1]));
+        if (!monetaryAccount || monetaryAccount.user_id !== parseInt(params[0])) {
+            throw new FakeBunqError(404, "Monetary account not found.");
+        }
+        return monetaryAccount;
+    }
+
+    /**
+     * @param {any[]} items
+     * @param {number} monetaryAccountId
+     * @param {string} itemId
+     * @param {string} objectType
+     * @returns {any}
+     */
+    private findItem(items: any[], monetaryAccountId: number, itemId: string, objectType: string): any {
+        const item = items.find(
+            listItem => listItem.monetary_account_id === monetaryAccountId && listItem.id === parseInt(itemId)
+        );
+        if (!item) {
+            throw new FakeBunqError(404, `${objectType} not found.`);
+        }
+        return item;
+    }
+
+    /**
+     * @param amount
+     */
+    private validateAmount(amount: any): void {
+        if (!amount || !Money.isValidValue(amount.value) || parseFloat(amount.value) <= 0) {
+            throw new FakeBunqError(400, "Field amount should be a positive amount.");
+        }
+    }
+}
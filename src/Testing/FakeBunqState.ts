@@ -0,0 +1,300 @@
+import Money from "../Helpers/Money";
+import { createIban } from "../Helpers/AliasValidator";
+import Amount from "../Types/Amount";
+import CounterpartyAlias from "../Types/CounterpartyAlias";
+
+/**
+ * Formats a date the way bunq does, for example "2018-01-01 12:00:00.000000"
+ * @param {Date} date
+ * @returns {string}
+ */
+export const formatBunqDate = (date: Date = new Date()): string => {
+    return `${date
+        .toISOString()
+        .replace("T", " ")
+        .replace("Z", "")}000`;
+};
+
+/**
+ * The in-memory data of the fake bunq server, the objects are stored in the format the api returns them
+ */
+export default class FakeBunqState {
+    public installations: { [token: string]: { id: number; client_public_key: string } } = {};
+    public devices: { [id: number]: { id: number; description: string; installation_token: string } } = {};
+    public sessions: { [token: string]: { id: number; user_id: number } } = {};
+    public apiKeys: { [apiKey: string]: number } = {};
+
+    public users: any[] = [];
+    public monetaryAccounts: any[] = [];
+    public payments: any[] = [];
+    public requestInquiries: any[] = [];
+    public events: any[] = [];
+
+    private lastId: number = 0;
+
+    /**
+     * @returns {number} a new unique id, ids are shared between all objects like on the real api
+     */
+    public nextId(): number {
+        return ++this.lastId;
+    }
+
+    /**
+     * @returns {string}
+     */
+    public createToken(): string {
+        let token = "";
+        while (token.length < 64) {
+            token += Math.random()
+                .toString(16)
+                .substring(2);
+        }
+        return token.substring(0, 64);
+    }
+
+    /**
+     * Creates a user which can be used by sending the api key to session-server
+     * @param {string} apiKey
+     * @param {string} displayName
+     * @returns {any}
+     */
+    public createUser(apiKey: string, displayName: string = "Bravo"): any {
+        const id = this.nextId();
+        const now = formatBunqDate();
+        const user = {
+            id: id,
+            created: now,
+            updated: now,
+            public_uuid: `fake-user-${id}`,
+            first_name: displayName,
+            last_name: "",
+            display_name: displayName,
+            public_nick_name: displayName,
+            legal_name: displayName,
+            alias: [{ type: "EMAIL", value: `user${id}@example.com`, name: displayName }],
+            avatar: null,
+            status: "ACTIVE",
+            sub_status: "NONE",
+            session_timeout: 604800,
+            language: "en_US",
+            region: "nl_NL"
+        };
+
+        this.users.push(user);
+        this.apiKeys[apiKey] = id;
+
+        return user;
+    }
+
+    /**
+     * @param {number} userId
+     * @param {string} description
+     * @param {Amount | Money} balance
+     * @returns {any}
+     */
+    public createMonetaryAccount(userId: number, description: string, balance: Amount | Money = Money.fromCents(0)) {
+        const id = this.nextId();
+        const now = formatBunqDate();
+        const user = this.getUser(userId);
+        const monetaryAccount = {
+            id: id,
+            created: now,
+            updated: now,
+            user_id: userId,
+            description: description,
+            currency: "EUR",
+            balance: Money.fromAmount(balance).toAmount(),
+            daily_limit: { value: "1000.00", currency: "EUR" },
+            status: "ACTIVE",
+            sub_status: "NONE",
+            alias: [
+                {
+                    type: "IBAN",
+                    value: createIban("NL", `BUNQ${`${id}`.padStart(10, "0")}`),
+                    name: user ? user.display_name : description
+                }
+            ],
+            setting: { color: "#1daeef", default_avatar_status: "AVATAR_DEFAULT", restriction_chat: "ALLOW_INCOMING" }
+        };
+
+        this.monetaryAccounts.push(monetaryAccount);
+        return monetaryAccount;
+    }
+
+    /**
+     * Creates an outgoing payment, when the counterparty is one of the fake accounts the incoming payment is created too
+     * @param {number} monetaryAccountId
+     * @param {Amount} amount
+     * @param {CounterpartyAlias} counterpartyAlias
+     * @param {string} description
+     * @param {string | null} merchantReference
+     * @returns {any}
+     */
+    public createPayment(
+        monetaryAccountId: number,
+        amount: Amount,
+        counterpartyAlias: CounterpartyAlias,
+        description: string,
+        merchantReference: string | null = null
+    ): any {
+        const monetaryAccount = this.getMonetaryAccount(monetaryAccountId);
+        const paymentAmount = Money.fromAmount(amount);
+        const counterpartyAccount = this.findMonetaryAccountByAlias(counterpartyAlias);
+
+        const payment = this.addPayment(
+            monetaryAccount,
+            paymentAmount.negate(),
+            this.getPaymentAlias(monetaryAccount),
+            counterpartyAccount ? this.getPaymentAlias(counterpartyAccount) : { ...counterpartyAlias },
+            description,
+            merchantReference
+        );
+
+        if (counterpartyAccount) {
+            this.addPayment(
+                counterpartyAccount,
+                paymentAmount,
+                this.getPaymentAlias(counterpartyAccount),
+                this.getPaymentAlias(monetaryAccount),
+                description,
+                merchantReference
+            );
+        }
+
+        return payment;
+    }
+
+    /**
+     * @param {number} monetaryAccountId
+     * @param {Amount} amountInquired
+     * @param {CounterpartyAlias} counterpartyAlias
+     * @param {string} description
+     * @param {string | null} merchantReference
+     * @returns {any}
+     */
+    public createRequestInquiry(
+        monetaryAccountId: number,
+        amountInquired: Amount,
+        counterpartyAlias: CounterpartyAlias,
+        description: string,
+        merchantReference: string | null = null
+    ): any {
+        const monetaryAccount = this.getMonetaryAccount(monetaryAccountId);
+        const now = formatBunqDate();
+        const requestInquiry = {
+            id: this.nextId(),
+            created: now,
+            updated: now,
+            monetary_account_id: monetaryAccount.id,
+            amount_inquired: Money.fromAmount(amountInquired).toAmount(),
+            amount_responded: null,
+            user_alias_created: this.getPaymentAlias(monetaryAccount),
+            counterparty_alias: { ...counterpartyAlias },
+            description: description,
+            merchant_reference: merchantReference,
+            status: "PENDING"
+        };
+
+        this.requestInquiries.push(requestInquiry);
+        this.addEvent(monetaryAccount, { RequestInquiry: requestInquiry });
+
+        return requestInquiry;
+    }
+
+    public getUser(userId: number): any {
+        return this.users.find(user => user.id === userId);
+    }
+
+    public getMonetaryAccount(monetaryAccountId: number): any {
+        return this.monetaryAccounts.find(monetaryAccount => monetaryAccount.id === monetaryAccountId);
+    }
+
+    /**
+     * @param {CounterpartyAlias} counterpartyAlias
+     * @returns {any}
+     */
+    public findMonetaryAccountByAlias(counterpartyAlias: CounterpartyAlias): any {
+        if (!counterpartyAlias) return undefined;
+
+        return this.monetaryAccounts.find(monetaryAccount =>
+            monetaryAccount.alias.some(
+                alias => alias.type === counterpartyAlias.type && alias.value === counterpartyAlias.value
+            )
+        );
+    }
+
+    /**
+     * @param monetaryAccount
+     * @param {Money} amount
+     * @param alias
+     * @param counterpartyAlias
+     * @param {string} description
+     * @param {string | null} merchantReference
+     * @returns {any}
+     */
+    private addPayment(
+        monetaryAccount: any,
+        amount: Money,
+        alias: any,
+        counterpartyAlias: any,
+        description: string,
+        merchantReference: string | null
+    ): any {
+        const balance = Money.fromAmount(monetaryAccount.balance).add(amount);
+        monetaryAccount.balance = balance.toAmount();
+
+        const now = formatBunqDate();
+        const payment = {
+            id: this.nextId(),
+            created: now,
+            updated: now,
+            monetary_account_id: monetaryAccount.id,
+            amount: amount.toAmount(),
+            alias: alias,
+            counterparty_alias: counterpartyAlias,
+            description: description,
+            type: "BUNQ",
+            sub_type: "PAYMENT",
+            merchant_reference: merchantReference,
+            balance_after_mutation: balance.toAmount()
+        };
+
+        this.payments.push(payment);
+        this.addEvent(monetaryAccount, { Payment: payment });
+
+        return payment;
+    }
+
+    /**
+     * @param monetaryAccount
+     * @param object
+     */
+    private addEvent(monetaryAccount: any, object: any): void {
+        const now = formatBunqDate();
+
+        this.events.push({
+            id: this.nextId(),
+            created: now,
+            updated: now,
+            action: "CREATE",
+            user_id: monetaryAccount.user_id,
+            monetary_account_id: monetaryAccount.id,
+            object: object,
+            status: "FINALIZED"
+        });
+    }
+
+    /**
+     * @param monetaryAccount
+     * @returns {any}
+     */
+    private getPaymentAlias(monetaryAccount: any): any {
+        const ibanAlias = monetaryAccount.alias.find(alias => alias.type === "IBAN");
+
+        return {
+            iban: ibanAlias.value,
+            display_name: ibanAlias.name,
+            country: "NL"
+        };
+    }
+}
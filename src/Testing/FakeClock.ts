@@ -0,0 +1,95 @@
+import ClockInterface from "../Interfaces/ClockInterface";
+
+type FakeTimer = {
+    id: number;
+    callback: () => void;
+    runAt: number;
+    // set for intervals
+    interval: number | false;
+};
+
+/**
+ * A clock which only moves forward when tick() is called, so timers and expiry times can be tested without waiting
+ */
+export default class FakeClock implements ClockInterface {
+    private time: number;
+    private timers: FakeTimer[] = [];
+    private lastTimerId: number = 0;
+
+    /**
+     * @param {number} time - the start time in milliseconds
+     */
+    constructor(time: number = Date.now()) {
+        this.time = time;
+    }
+
+    public now(): number {
+        return this.time;
+    }
+
+    public setTimeout(callback: () => void, milliseconds: number): number {
+        return this.addTimer(callback, milliseconds, false);
+    }
+
+    public clearTimeout(handle: number): void {
+        this.timers = this.timers.filter(timer => timer.id !== handle);
+    }
+
+    public setInterval(callback: () => void, milliseconds: number): number {
+        return this.addTimer(callback, milliseconds, milliseconds);
+    }
+
+    public clearInterval(handle: number): void {
+        this.clearTimeout(handle);
+    }
+
+    /**
+     * @returns {number} the amount of timers which haven't run yet
+     */
+    get pendingTimers(): number {
+        return this.timers.length;
+    }
+
+    /**
+     * Moves the time forward and runs the timers which are due in order
+     * @param {number} milliseconds
+     */
+    public tick(milliseconds: number): void {
+        const targetTime = this.time + milliseconds;
+
+        while (true) {
+            const dueTimers = this.timers
+                .filter(timer => timer.runAt <= targetTime)
+                .sort((timerA, timerB) => timerA.runAt - timerB.runAt || timerA.id - timerB.id);
+            if (dueTimers.length === 0) break;
+
+            const timer = dueTimers[0];
+            this.time = Math.max(this.time, timer.runAt);
+            if (timer.interval === false) {
+                this.clearTimeout(timer.id);
+            } else {
+                timer.runAt += Math.max(timer.interval, 1);
+            }
+            timer.callback();
+        }
+
+        this.time = targetTime;
+    }
+
+    /**
+     * @param {() => void} callback
+     * @param {number} milliseconds
+     * @param {number | false} interval
+     * @returns {number}
+     */
+    private addTimer(callback: () => void, milliseconds: number, interval: number | false): number {
+        const id = ++this.lastTimerId;
+        this.timers.push({
+            id: id,
+            callback: callback,
+            runAt: this.time + Math.max(milliseconds || 0, 0),
+            interval: interval
+        });
+        return id;
+    }
+}
@@ -1,3 +1,6 @@
+import RetryPolicy from "./RetryPolicy";
+import RequestLimiter from "../RequestLimiter";
+
 type ApiAdapterOptions = {
     axiosOptions?: any;
     isEncrypted?: boolean;
@@ -6,6 +9,9 @@ type ApiAdapterOptions = {
     disableAuthentication?: boolean;
     disableSigning?: boolean;
     skipSessionCheck?: boolean;
+    retryPolicy?: Partial<RetryPolicy> | false;
+    // each attempt waits for a slot of this limiter, so retries count towards the limit of the endpoint
+    limiter?: RequestLimiter;
 };
 
 export default ApiAdapterOptions;
@@ -0,0 +1,14 @@
+export type Image = {
+    attachment_public_uuid: string;
+    content_type: string;
+    height: number;
+    width: number;
+};
+
+type Avatar = {
+    uuid: string;
+    anchor_uuid: string | null;
+    image: Image[];
+};
+
+export default Avatar;
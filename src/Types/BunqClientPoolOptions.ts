@@ -0,0 +1,21 @@
+import BunqJSClient from "../BunqJSClient";
+import ClockInterface from "../Interfaces/ClockInterface";
+
+type BunqClientPoolOptions = {
+    environment?: string;
+    // used for tenants without their own encryption key
+    encryption_key?: string | false;
+    device_name?: string;
+    // the maximum amount of requests which are sent at the same time by all clients together
+    max_concurrent_requests?: number;
+    // clients which haven't sent a request for this amount of milliseconds are removed from memory
+    idle_timeout?: number;
+    // bunq rate limits per ip address so all clients share the same request limiters by default
+    share_request_limits?: boolean;
+    // used by the clients, the shared request limiters and the idle check, defaults to the system clock
+    clock?: ClockInterface;
+    // called after the client loaded its stored session and before it sends any request, for example to set a transport
+    setup_client?: (client: BunqJSClient, tenantId: string) => Promise<void> | void;
+};
+
+export default BunqClientPoolOptions;
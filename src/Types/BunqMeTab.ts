@@ -0,0 +1,32 @@
+import Amount from "./Amount";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+
+export type BunqMeTabStatus = "WAITING_FOR_PAYMENT" | "CANCELLED" | "EXPIRED";
+
+export type BunqMeTabEntry = {
+    uuid: string;
+    amount_inquired: Amount;
+    alias: LabelMonetaryAccount;
+    description: string;
+    status: string;
+    redirect_url: string | null;
+    merchant_available: { merchant_type: string; available: boolean }[];
+};
+
+export interface BunqMeTab {
+    id: number;
+    created: string;
+    updated: string;
+    time_expiry: string;
+    monetary_account_id: number;
+    status: BunqMeTabStatus;
+    bunqme_tab_share_url: string;
+    bunqme_tab_entry: BunqMeTabEntry;
+    result_inquiries: any[];
+}
+
+export type BunqMeTabResponse = {
+    BunqMeTab: BunqMeTab;
+};
+
+export default BunqMeTab;
@@ -0,0 +1,35 @@
+import CardType from "./CardType";
+import CountryPermission from "./CountryPermission";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+import MagStripePermission from "./MagStripePermission";
+import PinCodeAssignment from "./PinCodeAssignment";
+import { Limit } from "./Limit";
+import ExclusiveUnion from "./ExclusiveUnion";
+
+export interface Card {
+    id: number;
+    created: string;
+    updated: string;
+    public_uuid: string;
+    type: CardType;
+    sub_type: string;
+    second_line: string;
+    status: string;
+    sub_status?: string;
+    order_status: string;
+    expiry_date: string;
+    name_on_card: string;
+    primary_account_number_four_digit: string;
+    limit: Limit[];
+    mag_stripe_permission: MagStripePermission;
+    country_permission: CountryPermission[];
+    label_monetary_account_ordered: LabelMonetaryAccount;
+    label_monetary_account_current: LabelMonetaryAccount;
+    pin_code_assignment: PinCodeAssignment[];
+    monetary_account_id_fallback: number | null;
+    country: string;
+}
+
+export type CardResponse = ExclusiveUnion<{ CardDebit: Card } | { CardCredit: Card }>;
+
+export default Card;
@@ -0,0 +1,15 @@
+export interface CardGeneratedCvc2 {
+    id: number;
+    created: string;
+    updated: string;
+    type: "STATIC" | "GENERATED";
+    cvc2: string;
+    status: string;
+    expiry_time: string;
+}
+
+export type CardGeneratedCvc2Response = {
+    CardGeneratedCvc2: CardGeneratedCvc2;
+};
+
+export default CardGeneratedCvc2;
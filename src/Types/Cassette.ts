@@ -0,0 +1,30 @@
+export type CassetteMode = "off" | "record" | "replay";
+
+export type CassetteRequest = {
+    method: string;
+    // the path without the environment url, for example /v1/user/1/monetary-account
+    path: string;
+    params: { [key: string]: string };
+    body: any;
+};
+
+export type CassetteResponse = {
+    status: number;
+    headers: { [key: string]: string };
+    // parsed json for json responses so cassettes stay readable
+    body: any;
+    // true if the body was a binary response like an attachment, stored as a binary string
+    binary?: boolean;
+};
+
+export type CassetteInteraction = {
+    request: CassetteRequest;
+    response: CassetteResponse;
+};
+
+type Cassette = {
+    version: number;
+    interactions: CassetteInteraction[];
+};
+
+export default Cassette;
@@ -0,0 +1,15 @@
+type ConnectOptions = {
+    // an api key or the access token of an OAuth connection
+    api_key: string;
+    // required to store the session, without it a new installation is created for every connect
+    encryption_key?: string | false;
+    allowed_ips?: string[];
+    environment?: string;
+    device_name?: string;
+    // changes the keep alive setting before connecting, see BunqJSClient.setKeepAlive
+    keep_alive?: boolean;
+    // called once after the stored session was loaded and before any request is sent, for example to set a transport
+    after_run?: () => Promise<void> | void;
+};
+
+export default ConnectOptions;
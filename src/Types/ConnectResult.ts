@@ -0,0 +1,21 @@
+// stored steps were loaded from storage, created steps sent a request to the api
+export type ConnectStepResult = "stored" | "created";
+
+export type ConnectRecovery =
+    // a different api key was used than the one of the current session
+    | "api_key_changed"
+    // the stored session expired and a new one was created
+    | "expired_session"
+    // the stored installation or device was rejected so a new installation was created
+    | "stale_installation"
+    // the installation already had a session which wasn't stored so a new installation was created
+    | "installation_has_session";
+
+type ConnectResult = {
+    installation: ConnectStepResult;
+    device: ConnectStepResult;
+    session: ConnectStepResult;
+    recovered: ConnectRecovery[];
+};
+
+export default ConnectResult;
@@ -1,7 +1,76 @@
+import { isValidEmail, isValidIban, normalizeIban, normalizePhoneNumber } from "../Helpers/AliasValidator";
+
+export type CounterpartyAliasType = "IBAN" | "EMAIL" | "PHONE_NUMBER";
+
 type CounterpartyAlias = {
     type: string;
     value: string;
     name?: string;
 };
 
+/**
+ * @param {CounterpartyAliasType} type
+ * @param {string} value
+ * @param {string | false} name
+ * @returns {CounterpartyAlias}
+ */
+const createAlias = (type: CounterpartyAliasType, value: string, name: string | false): CounterpartyAlias => {
+    const counterpartyAlias: CounterpartyAlias = { type: type, value: value };
+    if (name !== false) counterpartyAlias.name = name;
+
+    return counterpartyAlias;
+};
+
+const CounterpartyAlias = {
+    /**
+     * @param {string} iban
+     * @param {string} name - the name of the account holder, required by bunq for IBAN aliases
+     * @returns {CounterpartyAlias}
+     */
+    iban: (iban: string, name: string): CounterpartyAlias => {
+        const normalizedIban = normalizeIban(iban);
+        if (!isValidIban(normalizedIban)) {
+            throw new Error(`Invalid IBAN given: "${iban}"`);
+        }
+        if (!name || `${name}`.trim().length === 0) {
+            throw new Error("A name is required for IBAN aliases");
+        }
+
+        return createAlias("IBAN", normalizedIban, name);
+    },
+
+    /**
+     * @param {string} email
+     * @param {string | false} name
+     * @returns {CounterpartyAlias}
+     */
+    email: (email: string, name: string | false = false): CounterpartyAlias => {
+        const trimmedEmail = `${email}`.trim();
+        if (!isValidEmail(trimmedEmail)) {
+            throw new Error(`Invalid email address given: "${email}"`);
+        }
+
+        return createAlias("EMAIL", trimmedEmail, name);
+    },
+
+    /**
+     * @param {string} phoneNumber
+     * @param {string | false} name
+     * @param {string | false} countryCallingCode - used for numbers without an international prefix, for example "31"
+     * @returns {CounterpartyAlias}
+     */
+    phone: (
+        phoneNumber: string,
+        name: string | false = false,
+        countryCallingCode: string | false = false
+    ): CounterpartyAlias => {
+        const normalizedPhoneNumber = normalizePhoneNumber(phoneNumber, countryCallingCode);
+        if (normalizedPhoneNumber === false) {
+            throw new Error(`Invalid phone number given: "${phoneNumber}"`);
+        }
+
+        return createAlias("PHONE_NUMBER", normalizedPhoneNumber, name);
+    }
+};
+
 export default CounterpartyAlias;
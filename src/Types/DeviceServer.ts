@@ -0,0 +1,14 @@
+export interface DeviceServer {
+    id: number;
+    created: string;
+    updated: string;
+    description: string;
+    ip: string;
+    status: "ACTIVE" | "BLOCKED" | "NEEDS_CONFIRMATION" | "OBSOLETE";
+}
+
+export type DeviceServerResponse = {
+    DeviceServer: DeviceServer;
+};
+
+export default DeviceServer;
@@ -0,0 +1,37 @@
+import Amount from "./Amount";
+import LabelUser from "./LabelUser";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+import { PaymentResponse } from "./Payment";
+import { PaymentBatchResponse } from "./PaymentBatch";
+
+export type DraftPaymentStatus = "PENDING" | "ACCEPTED" | "REJECTED" | "CANCELLED";
+
+export type DraftPaymentEntry = {
+    id: number;
+    amount: Amount;
+    alias: LabelMonetaryAccount;
+    counterparty_alias: LabelMonetaryAccount;
+    description: string;
+    merchant_reference: string | null;
+    type: string;
+    attachment: { id: number; monetary_account_id?: number }[];
+};
+
+export interface DraftPayment {
+    id: number;
+    monetary_account_id: number;
+    user_alias_created: LabelUser;
+    responses: { status: string; user_alias_created: LabelUser }[];
+    status: DraftPaymentStatus;
+    type: string;
+    entries: DraftPaymentEntry[];
+    // the payment or payment batch which was created when the draft payment was accepted
+    object: PaymentResponse | PaymentBatchResponse | null;
+    request_reference_split_the_bill: any[];
+}
+
+export type DraftPaymentResponse = {
+    DraftPayment: DraftPayment;
+};
+
+export default DraftPayment;
@@ -0,0 +1,13 @@
+type Environment = {
+    // the base url for all api requests, without a trailing slash
+    api_url: string;
+    // users are sent here to authorize an OAuth client
+    oauth_authorize_url: string;
+    // used to exchange an OAuth authorization code for an access token
+    oauth_token_url: string;
+    // used to create and check credential password ip requests
+    credential_request_url: string;
+    sandbox: boolean;
+};
+
+export default Environment;
@@ -0,0 +1,28 @@
+import { PaymentResponse } from "./Payment";
+import { RequestInquiryResponse } from "./RequestInquiry";
+import { MasterCardActionResponse } from "./MasterCardAction";
+
+export type EventObject =
+    | PaymentResponse
+    | RequestInquiryResponse
+    | MasterCardActionResponse
+    | {
+          [objectType: string]: any;
+      };
+
+export interface Event {
+    id: number;
+    created: string;
+    updated: string;
+    action: string;
+    user_id: number;
+    monetary_account_id: number | null;
+    object: EventObject;
+    status: "AWAITING_REPLY" | "FINALIZED";
+}
+
+export type EventResponse = {
+    Event: Event;
+};
+
+export default Event;
@@ -0,0 +1,18 @@
+type EventStreamOptions = {
+    // the delay between polls while new items keep coming in
+    interval?: number;
+    // the maximum delay between polls when nothing new was found
+    max_interval?: number;
+    // the delay is multiplied by this factor after every poll without new items
+    backoff_factor?: number;
+    // the amount of items requested per page
+    count?: number;
+    // also poll the payments for these monetary accounts
+    monetary_account_ids?: number[];
+    // used to store the cursors, streams with the same name continue where the previous one stopped
+    name?: string;
+    // emit the most recent items on the first poll instead of only the ones created after it
+    emit_existing?: boolean;
+};
+
+export default EventStreamOptions;
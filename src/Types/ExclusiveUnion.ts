@@ -0,0 +1,11 @@
+type AllKeys<T> = T extends any ? keyof T : never;
+
+/**
+ * Adds the wrapper keys of the other members to each member of a union of wrapped bunq objects as optional
+ * properties, so callers can check which object they received with for example account.MonetaryAccountBank
+ */
+type ExclusiveUnion<T, K extends PropertyKey = AllKeys<T>> = T extends any
+    ? T & { [P in Exclude<K, keyof T>]?: undefined }
+    : never;
+
+export default ExclusiveUnion;
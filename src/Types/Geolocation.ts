@@ -0,0 +1,8 @@
+type Geolocation = {
+    latitude: number;
+    longitude: number;
+    altitude: number;
+    radius: number;
+};
+
+export default Geolocation;
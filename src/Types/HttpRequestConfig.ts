@@ -0,0 +1,20 @@
+import { Method } from "./Method";
+import Headers from "./Headers";
+
+type HttpRequestConfig = {
+    url: string;
+    method: Method;
+    headers: Headers;
+    // plain objects are sent as json, strings and buffers are sent as is
+    data?: any;
+    // appended to the url as query parameters
+    params?: { [key: string]: any };
+    // binary responses like attachments use "arraybuffer", other responses are returned as a string
+    responseType?: "text" | "arraybuffer";
+    // in milliseconds, 0 disables the timeout
+    timeout?: number;
+    // other options are passed along to transports which support them
+    [option: string]: any;
+};
+
+export default HttpRequestConfig;
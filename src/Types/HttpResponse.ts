@@ -0,0 +1,10 @@
+type HttpResponse = {
+    status: number;
+    statusText?: string;
+    // header keys are lowercase
+    headers: { [key: string]: string };
+    // the raw body, a string or an ArrayBuffer when the arraybuffer responseType was used
+    data: any;
+};
+
+export default HttpResponse;
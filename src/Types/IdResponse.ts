@@ -0,0 +1,8 @@
+// returned by bunq after creating or updating an object
+type IdResponse = {
+    Id: {
+        id: number;
+    };
+};
+
+export default IdResponse;
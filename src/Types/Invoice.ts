@@ -0,0 +1,43 @@
+import Amount from "./Amount";
+import AddressDetails from "./AddressDetails";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+
+export type InvoiceItem = {
+    id: number;
+    billing_date: string;
+    type_description: string;
+    type_description_translated: string;
+    unit_vat_exclusive: Amount;
+    unit_vat_inclusive: Amount;
+    vat: number;
+    quantity: number;
+    total_vat_exclusive: Amount;
+    total_vat_inclusive: Amount;
+};
+
+export interface Invoice {
+    id: number;
+    created: string;
+    updated: string;
+    invoice_date: string;
+    invoice_number: string;
+    status: string;
+    category: string;
+    group: { type: string; type_description: string; product_vat_exclusive: Amount; item: InvoiceItem[] }[];
+    total_vat_inclusive: Amount;
+    total_vat_exclusive: Amount;
+    total_vat: Amount;
+    alias: LabelMonetaryAccount;
+    address: AddressDetails;
+    counterparty_alias: LabelMonetaryAccount;
+    counterparty_address: AddressDetails;
+    chamber_of_commerce_number: string;
+    vat_number: string;
+    request_reference_split_the_bill: any[];
+}
+
+export type InvoiceResponse = {
+    Invoice: Invoice;
+};
+
+export default Invoice;
@@ -0,0 +1,18 @@
+import Avatar from "./Avatar";
+import LabelUser from "./LabelUser";
+
+type LabelMonetaryAccount = {
+    iban: string | null;
+    display_name: string;
+    avatar: Avatar | null;
+    label_user: LabelUser;
+    country: string;
+    is_light?: boolean;
+    swift_bic?: string | null;
+    swift_account_number?: string | null;
+    transferwise_account_number?: string | null;
+    transferwise_bank_code?: string | null;
+    merchant_category_code?: string | null;
+};
+
+export default LabelMonetaryAccount;
@@ -0,0 +1,11 @@
+import Avatar from "./Avatar";
+
+type LabelUser = {
+    uuid: string | null;
+    display_name: string;
+    country: string;
+    avatar: Avatar | null;
+    public_nick_name: string;
+};
+
+export default LabelUser;
@@ -0,0 +1,53 @@
+export type LifecycleEventType =
+    | "installationCreated"
+    | "deviceRegistered"
+    | "sessionCreated"
+    | "sessionRefreshed"
+    | "sessionExpired"
+    | "sessionDestroyed"
+    | "storageDecryptFailed"
+    | "keepAliveFailed";
+
+// why the session data was removed
+export type SessionDestroyedReason = "destroyed" | "api_key_changed" | "environment_changed" | "installation_reset";
+
+interface LifecycleEventBase<Type extends LifecycleEventType> {
+    type: Type;
+    environment: string;
+}
+
+export type InstallationCreatedEvent = LifecycleEventBase<"installationCreated">;
+export type DeviceRegisteredEvent = LifecycleEventBase<"deviceRegistered"> & { device_id: number };
+export type SessionCreatedEvent = LifecycleEventBase<"sessionCreated"> & { session_id: number; expiry_time: Date };
+export type SessionRefreshedEvent = LifecycleEventBase<"sessionRefreshed"> & { expiry_time: Date };
+export type SessionExpiredEvent = LifecycleEventBase<"sessionExpired"> & { expiry_time: Date };
+export type SessionDestroyedEvent = LifecycleEventBase<"sessionDestroyed"> & { reason: SessionDestroyedReason };
+export type StorageDecryptFailedEvent = LifecycleEventBase<"storageDecryptFailed"> & { error: Error };
+export type KeepAliveFailedEvent = LifecycleEventBase<"keepAliveFailed"> & { error: Error };
+
+export type LifecycleEvent =
+    | InstallationCreatedEvent
+    | DeviceRegisteredEvent
+    | SessionCreatedEvent
+    | SessionRefreshedEvent
+    | SessionExpiredEvent
+    | SessionDestroyedEvent
+    | StorageDecryptFailedEvent
+    | KeepAliveFailedEvent;
+
+// maps the types which can be listened to onto their event, "*" receives all events
+export type LifecycleEventMap = {
+    installationCreated: InstallationCreatedEvent;
+    deviceRegistered: DeviceRegisteredEvent;
+    sessionCreated: SessionCreatedEvent;
+    sessionRefreshed: SessionRefreshedEvent;
+    sessionExpired: SessionExpiredEvent;
+    sessionDestroyed: SessionDestroyedEvent;
+    storageDecryptFailed: StorageDecryptFailedEvent;
+    keepAliveFailed: KeepAliveFailedEvent;
+    "*": LifecycleEvent;
+};
+
+export type LifecycleListener<Event extends LifecycleEvent = LifecycleEvent> = (event: Event) => Promise<any> | void;
+
+export default LifecycleEvent;
@@ -0,0 +1,51 @@
+import Amount from "./Amount";
+import CardType from "./CardType";
+import LabelUser from "./LabelUser";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+
+export type LabelCard = {
+    uuid: string;
+    type: CardType;
+    second_line: string;
+    expiry_date: string;
+    status: string;
+    label_user: LabelUser;
+};
+
+export interface MasterCardAction {
+    id: number;
+    created: string;
+    updated: string;
+    monetary_account_id: number;
+    card_id: number;
+    amount_local: Amount;
+    amount_billing: Amount;
+    amount_original_local: Amount;
+    amount_original_billing: Amount;
+    amount_fee: Amount;
+    decision: string;
+    decision_description: string;
+    decision_description_translated: string;
+    description: string;
+    authorisation_status: string;
+    authorisation_type: string;
+    pan_entry_mode_user: string;
+    city: string;
+    alias: LabelMonetaryAccount;
+    counterparty_alias: LabelMonetaryAccount;
+    label_card: LabelCard;
+    token_status: string | null;
+    reservation_expiry_time: string | null;
+    applied_limit: string | null;
+    allow_chat: boolean;
+    eligible_whitelist_id: number | null;
+    secure_code_id: number | null;
+    wallet_provider_id: string | null;
+    request_reference_split_the_bill: any[];
+}
+
+export type MasterCardActionResponse = {
+    MasterCardAction: MasterCardAction;
+};
+
+export default MasterCardAction;
@@ -0,0 +1,26 @@
+import Request from "../HTTP/Request";
+import ApiAdapterOptions from "./ApiAdapterOptions";
+import HttpResponse from "./HttpResponse";
+import { Method } from "./Method";
+
+type MiddlewareContext = {
+    // the request which is sent, headers and data can still be changed before it is signed
+    request: Request;
+    // the url and data as given to the ApiAdapter, before the url is completed or the data is encrypted
+    url: string;
+    method: Method;
+    data: any;
+    options: ApiAdapterOptions;
+    // the attempt this context belongs to, starting at 1 and increased for each retry
+    attempt: number;
+    // unix timestamp in milliseconds when the attempt was started
+    startTime: number;
+    // milliseconds the request waited in the RequestLimiter queue, 0 for retries
+    queueDuration: number;
+    // the response with the raw body, setting it in beforeSend skips the request
+    response: HttpResponse | null;
+    // the error in onError, setting it to null while a response is set recovers from the error
+    error: any;
+};
+
+export default MiddlewareContext;
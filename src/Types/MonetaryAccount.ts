@@ -0,0 +1,70 @@
+import Amount from "./Amount";
+import Avatar from "./Avatar";
+import Pointer from "./Pointer";
+import LabelUser from "./LabelUser";
+import NotificationFilter from "./NotificationFilter";
+import ExclusiveUnion from "./ExclusiveUnion";
+
+export type MonetaryAccountStatus = "ACTIVE" | "BLOCKED" | "CANCELLED" | "PENDING_REOPEN";
+
+export type MonetaryAccountSetting = {
+    color: string;
+    default_avatar_status: "AVATAR_DEFAULT" | "AVATAR_CUSTOM" | "AVATAR_UNDETERMINED";
+    restriction_chat: "ALLOW_INCOMING" | "BLOCK_INCOMING";
+};
+
+export type CoOwner = {
+    alias: LabelUser;
+    status: "ACCEPTED" | "REJECTED" | "PENDING" | "REVOKED";
+};
+
+export interface MonetaryAccountBase {
+    id: number;
+    created: string;
+    updated: string;
+    avatar: Avatar;
+    currency: string;
+    description: string;
+    daily_limit: Amount;
+    daily_spent?: Amount;
+    overdraft_limit?: Amount;
+    balance: Amount;
+    alias: Pointer[];
+    public_uuid: string;
+    status: MonetaryAccountStatus;
+    sub_status: string;
+    reason: string | null;
+    reason_description: string | null;
+    user_id: number;
+    monetary_account_profile: any | null;
+    notification_filters: NotificationFilter[];
+    setting: MonetaryAccountSetting;
+}
+
+export interface MonetaryAccountBank extends MonetaryAccountBase {
+    display_name?: string;
+}
+
+export interface MonetaryAccountJoint extends MonetaryAccountBase {
+    all_co_owner: CoOwner[];
+}
+
+export interface MonetaryAccountSavings extends MonetaryAccountBase {
+    savings_goal: Amount;
+    savings_goal_progress: number;
+    all_co_owner?: CoOwner[];
+}
+
+export type MonetaryAccountBankResponse = {
+    MonetaryAccountBank: MonetaryAccountBank;
+};
+export type MonetaryAccountJointResponse = {
+    MonetaryAccountJoint: MonetaryAccountJoint;
+};
+export type MonetaryAccountSavingsResponse = {
+    MonetaryAccountSavings: MonetaryAccountSavings;
+};
+
+export type MonetaryAccountResponse = ExclusiveUnion<
+    MonetaryAccountBankResponse | MonetaryAccountJointResponse | MonetaryAccountSavingsResponse
+>;
@@ -1,16 +1,17 @@
 import Amount from "./Amount";
+import Money from "../Helpers/Money";
 import NotificationFilter from "./NotificationFilter";
 
 export interface MonetaryAccountPutRequest {
     description?: string;
-    daily_limit?: Amount;
+    daily_limit?: Amount | Money;
     avatar_uuid?: string;
     reason_description?: string;
     notification_filters?: NotificationFilter[];
     status?: "ACTIVE" | "CANCELLED" | "PENDING_REOPEN";
     sub_status?: "REDEMPTION_VOLUNTARY";
     reason?: "OTHER";
-    savings_goal?: Amount;
+    savings_goal?: Amount | Money;
     setting?: {
         color?: string;
         default_avatar_status?: "AVATAR_DEFAULT";
@@ -0,0 +1,24 @@
+import Amount from "./Amount";
+import { CoOwner, MonetaryAccountBase, MonetaryAccountStatus } from "./MonetaryAccount";
+
+export type MonetaryAccountType = "MonetaryAccountBank" | "MonetaryAccountJoint" | "MonetaryAccountSavings";
+
+type NormalizedMonetaryAccount = {
+    id: number;
+    type: MonetaryAccountType;
+    user_id: number;
+    status: MonetaryAccountStatus;
+    sub_status: string;
+    balance: Amount;
+    iban: string | null;
+    iban_name: string | null;
+    description: string;
+    color: string | null;
+    savings_goal: Amount | null;
+    savings_goal_progress: number | null;
+    co_owners: CoOwner[];
+    // the original object as returned by the api
+    account: MonetaryAccountBase;
+};
+
+export default NormalizedMonetaryAccount;
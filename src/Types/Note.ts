@@ -0,0 +1,26 @@
+import LabelUser from "./LabelUser";
+
+export interface NoteText {
+    id: number;
+    created: string;
+    updated: string;
+    label_user_creator: LabelUser;
+    content: string;
+}
+
+export interface NoteAttachment {
+    id: number;
+    created: string;
+    updated: string;
+    label_user_creator: LabelUser;
+    description: string;
+    attachment: { id: number; monetary_account_id?: number }[];
+}
+
+// the wrapper key depends on the event type, for example NoteTextPayment or NoteAttachmentMasterCardAction
+export type NoteTextResponse = {
+    [objectType: string]: NoteText;
+};
+export type NoteAttachmentResponse = {
+    [objectType: string]: NoteAttachment;
+};
@@ -23,4 +23,6 @@ type NotificationFilter = {
         | "USER_APPROVAL";
 };
 
+export type NotificationCategory = NotificationFilter["category"];
+
 export default NotificationFilter;
@@ -0,0 +1,17 @@
+import { NotificationCategory } from "./NotificationFilter";
+
+export type NotificationFilterPushObject = {
+    category: NotificationCategory;
+};
+
+export interface NotificationFilterPush extends NotificationFilterPushObject {
+    id: number;
+    created: string;
+    updated: string;
+}
+
+export type NotificationFilterPushResponse = {
+    NotificationFilterPush: NotificationFilterPush;
+};
+
+export default NotificationFilterPush;
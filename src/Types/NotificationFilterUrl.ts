@@ -0,0 +1,18 @@
+import { NotificationCategory } from "./NotificationFilter";
+
+export type NotificationFilterUrlObject = {
+    category: NotificationCategory;
+    notification_target: string;
+};
+
+export interface NotificationFilterUrl extends NotificationFilterUrlObject {
+    id: number;
+    created: string;
+    updated: string;
+}
+
+export type NotificationFilterUrlResponse = {
+    NotificationFilterUrl: NotificationFilterUrl;
+};
+
+export default NotificationFilterUrl;
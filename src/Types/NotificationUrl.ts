@@ -0,0 +1,16 @@
+import { NotificationCategory } from "./NotificationFilter";
+
+export interface NotificationUrl {
+    target_url: string;
+    category: NotificationCategory;
+    event_type: string;
+    object: {
+        [objectType: string]: any;
+    };
+}
+
+export type NotificationUrlResponse = {
+    NotificationUrl: NotificationUrl;
+};
+
+export default NotificationUrl;
@@ -0,0 +1,8 @@
+type OAuthAuthorization = {
+    // the url the user should be sent to
+    url: string;
+    state: string;
+    code_verifier: string | false;
+};
+
+export default OAuthAuthorization;
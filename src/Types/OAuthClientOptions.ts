@@ -0,0 +1,15 @@
+type OAuthClientOptions = {
+    client_id: string;
+    client_secret: string;
+    redirect_uri: string;
+    // the name of a registered environment, also used when running a client with the access token
+    environment?: string;
+    // sends a S256 code challenge, only enable this for OAuth servers which support PKCE
+    use_pkce?: boolean;
+    // the amount of milliseconds a user has to complete the authorization
+    state_timeout?: number;
+    // stored access tokens are encrypted with this key when it is set
+    encryption_key?: string | false;
+};
+
+export default OAuthClientOptions;
@@ -0,0 +1,9 @@
+type OAuthToken = {
+    // can be used as an api key
+    access_token: string;
+    token_type: string;
+    user_id: string;
+    created: string;
+};
+
+export default OAuthToken;
@@ -0,0 +1,11 @@
+type Pagination = {
+    older_url: string | null;
+    newer_url: string | null;
+    future_url: string | null;
+    older_id: number | false;
+    newer_id: number | false;
+    future_id: number | false;
+    count: number | false;
+};
+
+export default Pagination;
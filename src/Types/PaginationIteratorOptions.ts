@@ -0,0 +1,14 @@
+import PaginationOptions from "./PaginationOptions";
+
+type PaginationIteratorOptions = PaginationOptions & {
+    // walk towards older items (default) or towards newer items
+    direction?: "older" | "newer";
+    // stop after this amount of items have been returned
+    max_items?: number | false;
+    // stop once an item is created before (or after when walking newer) this date
+    date_cutoff?: Date | string | false;
+    // stop once this item id is reached, the item itself isn't returned
+    id_cutoff?: number | false;
+};
+
+export default PaginationIteratorOptions;
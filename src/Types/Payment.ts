@@ -0,0 +1,38 @@
+import Amount from "./Amount";
+import AddressDetails from "./AddressDetails";
+import Geolocation from "./Geolocation";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+
+export interface Payment {
+    id: number;
+    created: string;
+    updated: string;
+    monetary_account_id: number;
+    amount: Amount;
+    description: string;
+    type: string;
+    sub_type: string;
+    merchant_reference: string | null;
+    alias: LabelMonetaryAccount;
+    counterparty_alias: LabelMonetaryAccount;
+    attachment: { id: number; monetary_account_id?: number }[];
+    geolocation: Geolocation | null;
+    batch_id: number | null;
+    scheduled_id: number | null;
+    address_billing: AddressDetails | null;
+    address_shipping: AddressDetails | null;
+    bunqto_status: string | null;
+    bunqto_sub_status: string | null;
+    bunqto_share_url: string | null;
+    bunqto_expiry: string | null;
+    bunqto_time_responded: string | null;
+    allow_chat: boolean;
+    balance_after_mutation?: Amount;
+    request_reference_split_the_bill: any[];
+}
+
+export type PaymentResponse = {
+    Payment: Payment;
+};
+
+export default Payment;
@@ -0,0 +1,14 @@
+import { Payment } from "./Payment";
+
+export interface PaymentBatch {
+    id: number;
+    payments: {
+        Payment: Payment[];
+    };
+}
+
+export type PaymentBatchResponse = {
+    PaymentBatch: PaymentBatch;
+};
+
+export default PaymentBatch;
@@ -1,9 +1,10 @@
 import CounterpartyAlias from "./CounterpartyAlias";
 import Amount from "./Amount";
+import Money from "../Helpers/Money";
 
 export type PaymentRequestObject = {
     description: string;
-    amount: Amount;
+    amount: Amount | Money;
     counterparty_alias: CounterpartyAlias;
     attachment?: any[];
     merchant_reference?: string;
@@ -0,0 +1,11 @@
+export interface PermittedIp {
+    id: number;
+    ip: string;
+    status: "ACTIVE" | "INACTIVE";
+}
+
+export type PermittedIpResponse = {
+    PermittedIp: PermittedIp;
+};
+
+export default PermittedIp;
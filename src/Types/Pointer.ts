@@ -0,0 +1,9 @@
+export type PointerType = "EMAIL" | "PHONE_NUMBER" | "IBAN" | "URL";
+
+type Pointer = {
+    type: PointerType;
+    value: string;
+    name?: string;
+};
+
+export default Pointer;
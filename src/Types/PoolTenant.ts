@@ -0,0 +1,10 @@
+type PoolTenant = {
+    // an api key or the access token of an OAuth connection
+    api_key: string;
+    // falls back to the encryption key of the pool, sessions are only stored when one is set
+    encryption_key?: string;
+    allowed_ips?: string[];
+    device_name?: string;
+};
+
+export default PoolTenant;
@@ -0,0 +1,16 @@
+// inactive tenants haven't been started yet or were evicted after being idle
+export type PoolTenantStatus = "inactive" | "starting" | "ready" | "failed";
+
+type PoolTenantHealth = {
+    tenant_id: string;
+    status: PoolTenantStatus;
+    last_used: Date | null;
+    session_expiry_time: Date | null;
+    active_requests: number;
+    total_requests: number;
+    failed_requests: number;
+    // the message of the last failed request or setup
+    last_error: string | null;
+};
+
+export default PoolTenantHealth;
@@ -0,0 +1,12 @@
+// a pattern is replaced with the mask unless a replacement is given, patterns should use the global flag
+export type RedactionPattern = RegExp | { pattern: RegExp; replacement: string };
+
+type RedactionOptions = {
+    // values of these fields are masked completely, compared case-insensitive and without - and _
+    fields: string[];
+    // replaced in all strings, including error messages and stack traces
+    patterns: RedactionPattern[];
+    mask: string;
+};
+
+export default RedactionOptions;
@@ -0,0 +1,28 @@
+import { Method } from "./Method";
+
+type RequestEvent = {
+    // the X-Bunq-Client-Request-Id header, the same for the started and finished event of an attempt
+    requestId: string;
+    // the url without the query and with ids replaced, for example /v1/user/{id}/monetary-account/{id}/payment
+    endpoint: string;
+    url: string;
+    method: Method;
+    // the attempt starting at 1, higher attempts are retries
+    attempt: number;
+    // unix timestamp in milliseconds when the attempt was started
+    startTime: number;
+    // milliseconds the request waited in the RequestLimiter queue before it was started
+    queueDuration: number;
+    // the values below are only set once the request has finished
+    duration: number;
+    status: number | null;
+    requestBytes: number;
+    responseBytes: number;
+    // the X-Bunq-Client-Response-Id header which bunq support can use to look up a request
+    responseId: string | null;
+    error: Error | null;
+    // true if the signature of the response couldn't be verified
+    verificationFailed: boolean;
+};
+
+export default RequestEvent;
@@ -0,0 +1,41 @@
+import Amount from "./Amount";
+import AddressDetails from "./AddressDetails";
+import Geolocation from "./Geolocation";
+import LabelUser from "./LabelUser";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+
+export type RequestInquiryStatus = "PENDING" | "ACCEPTED" | "REJECTED" | "REVOKED" | "EXPIRED";
+
+export interface RequestInquiry {
+    id: number;
+    created: string;
+    updated: string;
+    time_responded: string | null;
+    time_expiry: string | null;
+    monetary_account_id: number;
+    amount_inquired: Amount;
+    amount_responded: Amount | null;
+    user_alias_created: LabelUser;
+    user_alias_revoked: LabelUser | null;
+    counterparty_alias: LabelMonetaryAccount;
+    description: string;
+    merchant_reference: string | null;
+    attachment: { id: number }[];
+    status: RequestInquiryStatus;
+    batch_id: number | null;
+    scheduled_id: number | null;
+    minimum_age: number | null;
+    require_address: string | null;
+    bunqme_share_url: string | null;
+    redirect_url: string | null;
+    address_billing: AddressDetails | null;
+    address_shipping: AddressDetails | null;
+    geolocation: Geolocation | null;
+    allow_chat: boolean;
+}
+
+export type RequestInquiryResponse = {
+    RequestInquiry: RequestInquiry;
+};
+
+export default RequestInquiry;
@@ -0,0 +1,39 @@
+import Amount from "./Amount";
+import AddressDetails from "./AddressDetails";
+import Geolocation from "./Geolocation";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+
+export type RequestResponseStatus = "ACCEPTED" | "PENDING" | "REJECTED" | "REFUND_REQUESTED" | "REFUNDED" | "REVOKED";
+
+export interface RequestResponse {
+    id: number;
+    created: string;
+    updated: string;
+    time_responded: string | null;
+    time_expiry: string | null;
+    monetary_account_id: number;
+    amount_inquired: Amount;
+    amount_responded: Amount | null;
+    status: RequestResponseStatus;
+    description: string;
+    alias: LabelMonetaryAccount;
+    counterparty_alias: LabelMonetaryAccount;
+    attachment: { id: number }[];
+    minimum_age: number | null;
+    require_address: string | null;
+    geolocation: Geolocation | null;
+    type: string;
+    sub_type: string;
+    redirect_url: string | null;
+    address_billing: AddressDetails | null;
+    address_shipping: AddressDetails | null;
+    allow_chat: boolean;
+    eligible_whitelist_id: number | null;
+    request_reference_split_the_bill: any[];
+}
+
+export type RequestResponseResponse = {
+    RequestResponse: RequestResponse;
+};
+
+export default RequestResponse;
@@ -1,8 +1,9 @@
 import Amount from "./Amount";
+import Money from "../Helpers/Money";
 import AddressDetails from "./AddressDetails";
 
 type RequestResponsePutOptions = {
-    amount_responded?: Amount;
+    amount_responded?: Amount | Money;
     address_shipping?: AddressDetails;
     address_billing?: AddressDetails;
 };
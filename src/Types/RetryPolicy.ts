@@ -0,0 +1,15 @@
+type RetryPolicy = {
+    // total amount of attempts including the first request
+    max_attempts: number;
+    // delay in milliseconds before the first retry, doubled for each following attempt
+    base_delay: number;
+    // the longest delay between two attempts, also when a longer Retry-After is received
+    max_delay: number;
+    // 0 disables jitter, 1 picks a random delay between 0 and the calculated delay
+    jitter: number;
+    retry_statuses: number[];
+    retry_network_errors: boolean;
+    respect_retry_after: boolean;
+};
+
+export default RetryPolicy;
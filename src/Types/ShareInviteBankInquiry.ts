@@ -1,4 +1,6 @@
 import Amount from "./Amount";
+import LabelUser from "./LabelUser";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
 
 export type ShareInviteBankInquiryPostOptions = {
     share_type?: "STANDARD" | "MUTUAL";
@@ -47,3 +49,24 @@ export type ShareInviteBankInquiryPostStatus =
     | "CANCELLATION_PENDING"
     | "CANCELLATION_ACCEPTED"
     | "CANCELLATION_REJECTED";
+
+export interface ShareInviteBankInquiry {
+    id: number;
+    created: string;
+    updated: string;
+    alias: LabelMonetaryAccount;
+    user_alias_created: LabelUser;
+    user_alias_revoked: LabelUser | null;
+    counter_user_alias: LabelUser;
+    monetary_account_id: number;
+    draft_share_invite_bank_id: number | null;
+    share_detail: ShareInviteBankInquiryPostShareDetail;
+    status: ShareInviteBankInquiryPostStatus;
+    share_type: "STANDARD" | "MUTUAL";
+    start_date: string | null;
+    end_date: string | null;
+}
+
+export type ShareInviteBankInquiryResponse = {
+    ShareInviteBankInquiry: ShareInviteBankInquiry;
+};
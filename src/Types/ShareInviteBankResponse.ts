@@ -1,3 +1,7 @@
+import LabelUser from "./LabelUser";
+import LabelMonetaryAccount from "./LabelMonetaryAccount";
+import { ShareInviteBankInquiryPostShareDetail } from "./ShareInviteBankInquiry";
+
 export type ShareInviteBankResponsePutStatus =
     | "REVOKED"
     | "ACCEPTED"
@@ -5,3 +9,23 @@ export type ShareInviteBankResponsePutStatus =
     | "CANCELLATION_PENDING"
     | "CANCELLATION_ACCEPTED"
     | "CANCELLATION_REJECTED";
+
+export interface ShareInviteBankResponse {
+    id: number;
+    created: string;
+    updated: string;
+    counter_alias: LabelMonetaryAccount;
+    user_alias_cancelled: LabelUser | null;
+    monetary_account_id: number | null;
+    draft_share_invite_bank_id: number | null;
+    share_detail: ShareInviteBankInquiryPostShareDetail;
+    status: ShareInviteBankResponsePutStatus | "PENDING";
+    share_type: "STANDARD" | "MUTUAL";
+    start_date: string | null;
+    end_date: string | null;
+    description: string;
+}
+
+export type ShareInviteBankResponseResponse = {
+    ShareInviteBankResponse: ShareInviteBankResponse;
+};
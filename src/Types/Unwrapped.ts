@@ -0,0 +1,9 @@
+/**
+ * Turns a (union of) wrapped bunq objects like { Payment: {...} } into a discriminated
+ * union of the inner objects with the wrapper key set as objectType, undefined wrapper keys are left out
+ */
+type Unwrapped<T> = T extends any
+    ? { [K in keyof T]-?: T[K] extends undefined ? never : T[K] & { objectType: K } }[keyof T]
+    : never;
+
+export default Unwrapped;
@@ -0,0 +1,85 @@
+import Amount from "./Amount";
+import Avatar from "./Avatar";
+import Pointer from "./Pointer";
+import AddressDetails from "./AddressDetails";
+import NotificationFilter from "./NotificationFilter";
+import ExclusiveUnion from "./ExclusiveUnion";
+
+export interface UserBase {
+    id: number;
+    created: string;
+    updated: string;
+    alias: Pointer[];
+    avatar: Avatar;
+    status: string;
+    sub_status: string;
+    public_uuid: string;
+    display_name: string;
+    public_nick_name: string;
+    language: string;
+    region: string;
+    session_timeout: number;
+    daily_limit_without_confirmation_login: Amount;
+    notification_filters: NotificationFilter[];
+    address_main?: AddressDetails;
+    address_postal?: AddressDetails;
+}
+
+export interface UserPerson extends UserBase {
+    first_name: string;
+    middle_name: string;
+    last_name: string;
+    legal_name: string;
+    document_type: string;
+    document_number: string;
+    document_country_of_issuance: string;
+    date_of_birth: string;
+    place_of_birth: string;
+    country_of_birth: string;
+    nationality: string;
+    gender: string;
+}
+
+export interface UserLight extends UserPerson {}
+
+export interface UserCompany extends UserBase {
+    name: string;
+    chamber_of_commerce_number: string;
+    type_of_business_entity: string;
+    sector_of_industry: string;
+    counter_bank_iban: string;
+    ubo: { name: string; date_of_birth: string; nationality: string }[];
+}
+
+export interface UserApiKey {
+    id: number;
+    created: string;
+    updated: string;
+    requested_by_user: UserResponse;
+    granted_by_user: UserResponse;
+}
+
+export type UserPersonResponse = {
+    UserPerson: UserPerson;
+};
+export type UserCompanyResponse = {
+    UserCompany: UserCompany;
+};
+export type UserLightResponse = {
+    UserLight: UserLight;
+};
+export type UserApiKeyResponse = {
+    UserApiKey: UserApiKey;
+};
+
+export type UserResponse = ExclusiveUnion<
+    UserPersonResponse | UserCompanyResponse | UserLightResponse | UserApiKeyResponse
+>;
+
+// the users of the session as stored by BunqJSClient.getUsers, keyed by their type
+export type UserCollection = {
+    UserPerson?: UserPerson;
+    UserCompany?: UserCompany;
+    UserLight?: UserLight;
+    UserApiKey?: UserApiKey;
+};
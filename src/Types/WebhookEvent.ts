@@ -0,0 +1,46 @@
+import Payment from "./Payment";
+import MasterCardAction from "./MasterCardAction";
+import RequestInquiry from "./RequestInquiry";
+import NotificationUrl from "./NotificationUrl";
+import { NotificationCategory } from "./NotificationFilter";
+
+export type WebhookEventType = "payment" | "mutation" | "card_transaction" | "request" | "share" | "unknown";
+
+interface WebhookEventBase<Type extends WebhookEventType, EventObject> {
+    type: Type;
+    category: NotificationCategory;
+    event_type: string;
+    object_type: string;
+    object: EventObject;
+    notification: NotificationUrl;
+}
+
+export type PaymentWebhookEvent = WebhookEventBase<"payment", Payment>;
+export type MutationWebhookEvent = WebhookEventBase<"mutation", Payment>;
+export type CardTransactionWebhookEvent = WebhookEventBase<"card_transaction", MasterCardAction>;
+export type RequestWebhookEvent = WebhookEventBase<"request", RequestInquiry | { [key: string]: any }>;
+export type ShareWebhookEvent = WebhookEventBase<"share", { [key: string]: any }>;
+export type UnknownWebhookEvent = WebhookEventBase<"unknown", { [key: string]: any }>;
+
+export type WebhookEvent =
+    | PaymentWebhookEvent
+    | MutationWebhookEvent
+    | CardTransactionWebhookEvent
+    | RequestWebhookEvent
+    | ShareWebhookEvent
+    | UnknownWebhookEvent;
+
+// maps the types which can be listened to onto their event, "*" receives all events
+export type WebhookEventMap = {
+    payment: PaymentWebhookEvent;
+    mutation: MutationWebhookEvent;
+    card_transaction: CardTransactionWebhookEvent;
+    request: RequestWebhookEvent;
+    share: ShareWebhookEvent;
+    unknown: UnknownWebhookEvent;
+    "*": WebhookEvent;
+};
+
+export type WebhookListener<Event extends WebhookEvent = WebhookEvent> = (event: Event) => Promise<any> | void;
+
+export default WebhookEvent;
@@ -0,0 +1,27 @@
+import BunqJSClient from "../../src/BunqJSClient";
+import { signString } from "../../src/Crypto/Sha256";
+
+export const createCallbackBody = (category: string = "PAYMENT", object: any = { Payment: { id: 1 } }): string => {
+    return JSON.stringify({
+        NotificationUrl: {
+            target_url: "https://example.com/callback",
+            category: category,
+            event_type: `${category}_CREATED`,
+            object: object
+        }
+    });
+};
+
+/**
+ * Uses the app's own key pair as the server key pair so callbacks can be signed in the tests
+ * @param {BunqJSClient} bunqApp
+ * @param {string} body
+ * @returns {Promise<any>}
+ */
+export const signCallback = async (bunqApp: BunqJSClient, body: string) => {
+    bunqApp.Session.serverPublicKey = bunqApp.Session.publicKey;
+
+    return {
+        "x-bunq-server-signature": await signString(body, bunqApp.Session.privateKey)
+    };
+};
@@ -43,6 +43,24 @@ describe("API", () => {
             expect(response).not.toBeNull();
         });
 
+        it("#GET - returns the device server", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const deviceServer = { id: 1, description: "SomeDeviceName", ip: "1.1.1.1", status: "ACTIVE" };
+
+            const request = bunqApp.api.deviceRegistration.get({ deviceId: 1 });
+            await new Promise(resolve => {
+                moxios.wait(() => {
+                    moxios.requests
+                        .mostRecent()
+                        .respondWith({ status: 200, response: { Response: [{ DeviceServer: deviceServer }] } })
+                        .then(resolve);
+                });
+            });
+            const response = await request;
+
+            expect(response.DeviceServer.description).toBe("SomeDeviceName");
+        });
+
         it("#GET - with default options", async () => {
             const bunqApp: BunqJSClient = await SetupApp();
 
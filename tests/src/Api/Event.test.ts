@@ -30,6 +30,16 @@ describe("API", () => {
             expect(response).not.toBeNull();
         });
 
+        it("#LIST - all pages", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.event.listAll(1, { status: "AWAITING_REPLY" });
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response.length).toBe(3);
+        });
+
         it("#LIST - with pagination options", async () => {
             const bunqApp: BunqJSClient = await SetupApp();
 
@@ -0,0 +1,55 @@
+import * as moxios from "moxios";
+
+import BunqJSClient from "../../../src/BunqJSClient";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+import { defaultResponse } from "../../TestHelpers/DefaultResponses";
+
+describe("API", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    describe("NotificationFilterPushUser", () => {
+        it("#LIST", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterPushUser.list(1);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+
+        it("#REPLACE", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterPushUser.replace(1, [{ category: "PAYMENT" }]);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+
+        it("#ADD", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterPushUser.add(1, [{ category: "PAYMENT" }]);
+            await defaultResponse(moxios);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+
+        it("#REMOVE", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterPushUser.remove(1, [{ category: "PAYMENT" }]);
+            await defaultResponse(moxios);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+    });
+});
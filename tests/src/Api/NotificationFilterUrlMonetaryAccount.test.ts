@@ -0,0 +1,61 @@
+import * as moxios from "moxios";
+
+import BunqJSClient from "../../../src/BunqJSClient";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+import { defaultResponse } from "../../TestHelpers/DefaultResponses";
+
+describe("API", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    describe("NotificationFilterUrlMonetaryAccount", () => {
+        it("#LIST", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlMonetaryAccount.list(1, 2);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+
+        it("#REPLACE", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlMonetaryAccount.replace(1, 2, [
+                { category: "PAYMENT", notification_target: "https://example.com" }
+            ]);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+
+        it("#ADD", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlMonetaryAccount.add(1, 2, [
+                { category: "PAYMENT", notification_target: "https://example.com" }
+            ]);
+            await defaultResponse(moxios);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+
+        it("#REMOVE", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlMonetaryAccount.remove(1, 2, [
+                { category: "PAYMENT", notification_target: "https://example.com" }
+            ]);
+            await defaultResponse(moxios);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+        });
+    });
+});
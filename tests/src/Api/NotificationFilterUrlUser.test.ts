@@ -0,0 +1,106 @@
+import * as moxios from "moxios";
+
+import BunqJSClient from "../../../src/BunqJSClient";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+import { defaultResponse } from "../../TestHelpers/DefaultResponses";
+
+const filterListResponse = async moxios => {
+    await new Promise((resolve, reject) => {
+        moxios.wait(() => {
+            moxios.requests
+                .mostRecent()
+                .respondWith({
+                    status: 200,
+                    response: {
+                        Response: [
+                            {
+                                NotificationFilterUrl: {
+                                    id: 1,
+                                    category: "PAYMENT",
+                                    notification_target: "https://example.com/payment"
+                                }
+                            },
+                            {
+                                NotificationFilterUrl: {
+                                    id: 2,
+                                    category: "MUTATION",
+                                    notification_target: "https://example.com/mutation"
+                                }
+                            }
+                        ]
+                    },
+                    headers: {
+                        "Content-Type": "application/json"
+                    }
+                })
+                .then(resolve)
+                .catch(reject);
+        });
+    });
+};
+
+const getSentFilters = moxios => JSON.parse(moxios.requests.mostRecent().config.data).notification_filters;
+
+describe("API", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    describe("NotificationFilterUrlUser", () => {
+        it("#LIST", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlUser.list(1);
+            await filterListResponse(moxios);
+            const response = await request;
+
+            expect(response.length).toBe(2);
+        });
+
+        it("#REPLACE", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlUser.replace(1, [
+                { category: "PAYMENT", notification_target: "https://example.com/payment" }
+            ]);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response).not.toBeNull();
+            expect(getSentFilters(moxios)).toEqual([
+                { category: "PAYMENT", notification_target: "https://example.com/payment" }
+            ]);
+        });
+
+        it("#ADD - merges with the existing filters", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlUser.add(1, [
+                { category: "PAYMENT", notification_target: "https://example.com/payment" },
+                { category: "CARD_TRANSACTION_SUCCESSFUL", notification_target: "https://example.com/card" }
+            ]);
+            await filterListResponse(moxios);
+            await defaultResponse(moxios);
+            await request;
+
+            expect(getSentFilters(moxios)).toEqual([
+                { category: "PAYMENT", notification_target: "https://example.com/payment" },
+                { category: "MUTATION", notification_target: "https://example.com/mutation" },
+                { category: "CARD_TRANSACTION_SUCCESSFUL", notification_target: "https://example.com/card" }
+            ]);
+        });
+
+        it("#REMOVE - keeps the other filters", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.notificationFilterUrlUser.remove(1, [{ category: "PAYMENT" }]);
+            await filterListResponse(moxios);
+            await defaultResponse(moxios);
+            await request;
+
+            expect(getSentFilters(moxios)).toEqual([
+                { category: "MUTATION", notification_target: "https://example.com/mutation" }
+            ]);
+        });
+    });
+});
@@ -30,6 +30,16 @@ describe("API", () => {
             expect(response).not.toBeNull();
         });
 
+        it("#LIST - all pages", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.payment.listAll(1, 2);
+            await defaultResponse(moxios);
+            const response = await request;
+
+            expect(response.length).toBe(3);
+        });
+
         it("#LIST - with pagination options", async () => {
             const bunqApp: BunqJSClient = await SetupApp();
 
@@ -65,5 +75,34 @@ describe("API", () => {
 
             expect(response).not.toBeNull();
         });
+
+        it("#POST - rejects an invalid alias before sending", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const requestCount = moxios.requests.count();
+
+            let error = null;
+            try {
+                await bunqApp.api.payment.post(
+                    1,
+                    2,
+                    "description",
+                    {
+                        value: "12.00",
+                        currency: "EUR"
+                    },
+                    {
+                        type: "iban",
+                        value: "NL91ABNA0417164300",
+                        name: "Bravo"
+                    }
+                );
+            } catch (exception) {
+                error = exception;
+            }
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error.message).toContain("Invalid alias type");
+            expect(moxios.requests.count()).toBe(requestCount);
+        });
     });
 });
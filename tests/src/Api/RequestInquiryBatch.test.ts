@@ -86,6 +86,33 @@ describe("API", () => {
             expect(response2).not.toBeNull();
         });
 
+        it("#POST - calculates the exact total amount", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const requestInquiry = (value: string) => ({
+                amount_inquired: {
+                    value: value,
+                    currency: "EUR"
+                },
+                counterparty_alias: {
+                    type: "EMAIL",
+                    value: "bravo@bunq.com"
+                },
+                description: "Please pay for your candy",
+                allow_bunqme: false
+            });
+
+            const request = bunqApp.api.requestInquiryBatch.post(5, 12, [
+                requestInquiry("0.10"),
+                requestInquiry("0.20")
+            ]);
+            await defaultResponse(moxios);
+            await request;
+
+            const requestData = JSON.parse(moxios.requests.mostRecent().config.data);
+            expect(requestData.total_amount_inquired).toEqual({ value: "0.30", currency: "EUR" });
+        });
+
         it("#POST - with invalid minimum age", async () => {
             const bunqApp: BunqJSClient = await SetupApp();
 
@@ -0,0 +1,139 @@
+import * as moxios from "moxios";
+
+import BunqJSClient from "../../../src/BunqJSClient";
+import UnifiedMonetaryAccount from "../../../src/Api/UnifiedMonetaryAccount";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+import { defaultResponse } from "../../TestHelpers/DefaultResponses";
+
+const accountInfo = (id: number, extraInfo: any = {}) => {
+    return {
+        id: id,
+        user_id: 1,
+        status: "ACTIVE",
+        sub_status: "NONE",
+        description: `Account ${id}`,
+        balance: { value: "10.00", currency: "EUR" },
+        alias: [
+            { type: "EMAIL", value: "bravo@bunq.com" },
+            { type: "IBAN", value: `NL00BUNQ000000000${id}`, name: "Bravo" }
+        ],
+        setting: { color: "#ffffff" },
+        ...extraInfo
+    };
+};
+
+const accountListResponse = async moxios => {
+    await new Promise((resolve, reject) => {
+        moxios.wait(() => {
+            moxios.requests
+                .mostRecent()
+                .respondWith({
+                    status: 200,
+                    response: {
+                        Response: [
+                            { MonetaryAccountBank: accountInfo(1) },
+                            {
+                                MonetaryAccountJoint: accountInfo(2, {
+                                    all_co_owner: [{ alias: { display_name: "Alfa" }, status: "ACCEPTED" }]
+                                })
+                            },
+                            {
+                                MonetaryAccountSavings: accountInfo(3, {
+                                    savings_goal: { value: "100.00", currency: "EUR" },
+                                    savings_goal_progress: 0.1
+                                })
+                            }
+                        ]
+                    },
+                    headers: {
+                        "Content-Type": "application/json"
+                    }
+                })
+                .then(resolve)
+                .catch(reject);
+        });
+    });
+};
+
+describe("API", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    describe("UnifiedMonetaryAccount", () => {
+        it("#LIST - normalizes all account types", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.unifiedMonetaryAccount.list(1);
+            await accountListResponse(moxios);
+            const accounts = await request;
+
+            expect(accounts.map(account => account.type)).toEqual([
+                "MonetaryAccountBank",
+                "MonetaryAccountJoint",
+                "MonetaryAccountSavings"
+            ]);
+            expect(accounts[0].iban).toBe("NL00BUNQ0000000001");
+            expect(accounts[0].iban_name).toBe("Bravo");
+            expect(accounts[0].color).toBe("#ffffff");
+            expect(accounts[0].savings_goal).toBe(null);
+            expect(accounts[1].co_owners.length).toBe(1);
+            expect(accounts[2].savings_goal.value).toBe("100.00");
+            expect(accounts[2].savings_goal_progress).toBe(0.1);
+        });
+
+        it("#RENAME - routes to the endpoint for the account type", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const listRequest = bunqApp.api.unifiedMonetaryAccount.list(1);
+            await accountListResponse(moxios);
+            await listRequest;
+
+            const request = bunqApp.api.unifiedMonetaryAccount.rename(1, 3, "New description");
+            await defaultResponse(moxios);
+            await request;
+
+            const putRequest = moxios.requests.mostRecent();
+            expect(putRequest.config.method).toBe("put");
+            expect(putRequest.url).toContain("/v1/user/1/monetary-account-savings/3");
+            expect(JSON.parse(putRequest.config.data)).toEqual({ description: "New description" });
+        });
+
+        it("#CANCEL - fetches the account type when it is unknown", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.unifiedMonetaryAccount.cancel(1, 2, "No longer needed");
+            await new Promise((resolve, reject) => {
+                moxios.wait(() => {
+                    moxios.requests
+                        .mostRecent()
+                        .respondWith({
+                            status: 200,
+                            response: { Response: [{ MonetaryAccountJoint: accountInfo(2) }] },
+                            headers: { "Content-Type": "application/json" }
+                        })
+                        .then(resolve)
+                        .catch(reject);
+                });
+            });
+            await defaultResponse(moxios);
+            await request;
+
+            const putRequest = moxios.requests.mostRecent();
+            expect(putRequest.url).toContain("/v1/user/1/monetary-account-joint/2");
+            expect(JSON.parse(putRequest.config.data).status).toBe("CANCELLED");
+        });
+    });
+
+    describe("UnifiedMonetaryAccount.normalize()", () => {
+        it("should handle accounts without an IBAN alias", () => {
+            const account = UnifiedMonetaryAccount.normalize({
+                MonetaryAccountBank: { ...accountInfo(4), alias: [], setting: undefined }
+            } as any);
+
+            expect(account.iban).toBe(null);
+            expect(account.color).toBe(null);
+            expect(account.co_owners).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,227 @@
+import * as moxios from "moxios";
+import BunqJSClient from "../../src/BunqJSClient";
+import MiddlewareContext from "../../src/Types/MiddlewareContext";
+import BunqNotFoundError from "../../src/Errors/BunqNotFoundError";
+import BunqAuthenticationError from "../../src/Errors/BunqAuthenticationError";
+import FakeBunqServer from "../../src/Testing/FakeBunqServer";
+import HttpRequestConfig from "../../src/Types/HttpRequestConfig";
+import { BUNQ_REQUEST_SIGNATURE_HEADER_KEY } from "../../src/ApiAdapter";
+
+import SetupApp from "../TestHelpers/SetupApp";
+import CustomDb from "../TestHelpers/CustomDb";
+import { randomHex } from "../TestHelpers/RandomData";
+
+const respond = async (moxios, status: number, response: any) => {
+    await new Promise(resolve => {
+        moxios.wait(() => {
+            moxios.requests.mostRecent().respondWith({
+                status: status,
+                response: response,
+                headers: { "content-type": "application/json" }
+            });
+            resolve();
+        });
+    });
+};
+
+describe("ApiAdapter", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    describe("#addMiddleware()", () => {
+        it("should call the middlewares before and after signing in order", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const calls = [];
+
+            bunqApp.addMiddleware({
+                name: "header",
+                beforeSend: (context: MiddlewareContext) => {
+                    calls.push(["header", context.request.getHeader(BUNQ_REQUEST_SIGNATURE_HEADER_KEY)]);
+                    context.request.setHeader("X-Bunq-Custom-Header", "value");
+                },
+                afterReceive: () => {
+                    calls.push(["header-response"]);
+                }
+            });
+            bunqApp.addMiddleware(
+                {
+                    name: "audit",
+                    beforeSend: (context: MiddlewareContext) => {
+                        calls.push(["audit", !!context.request.getHeader(BUNQ_REQUEST_SIGNATURE_HEADER_KEY)]);
+                    },
+                    afterReceive: (context: MiddlewareContext) => {
+                        calls.push(["audit-response", context.response.status, context.attempt]);
+                    }
+                },
+                "after_signing"
+            );
+
+            const request = bunqApp.ApiAdapter.post("/v1/user/1/note", { content: "note" });
+            await respond(moxios, 200, { Response: [{ Id: { id: 1 } }] });
+            const response = await request;
+
+            expect(response).toEqual({ Response: [{ Id: { id: 1 } }] });
+            expect(moxios.requests.mostRecent().headers["X-Bunq-Custom-Header"]).toBe("value");
+            expect(calls).toEqual([
+                ["header", undefined],
+                ["audit", true],
+                ["audit-response", 200, 1],
+                ["header-response"]
+            ]);
+        });
+
+        it("should skip the request when a middleware sets a response", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const signRequest = jest.spyOn(bunqApp.ApiAdapter.SignRequestHandler, "signRequest");
+
+            bunqApp.addMiddleware({
+                name: "cache",
+                beforeSend: (context: MiddlewareContext) => {
+                    context.response = { status: 200, headers: {}, data: JSON.stringify({ Response: [] }) };
+                }
+            });
+
+            const response = await bunqApp.ApiAdapter.get("/v1/user");
+
+            expect(response).toEqual({ Response: [] });
+            expect(signRequest).not.toHaveBeenCalled();
+            expect(moxios.requests.count()).toBe(0);
+        });
+
+        it("should call onError and allow middlewares to recover", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            bunqApp.setRetryPolicy("GET", false);
+            const errors = [];
+
+            bunqApp.addMiddleware({
+                name: "fallback",
+                onError: (context: MiddlewareContext) => {
+                    errors.push(context.error);
+                    context.response = { status: 200, headers: {}, data: JSON.stringify({ Response: [] }) };
+                    context.error = null;
+                }
+            });
+
+            const request = bunqApp.ApiAdapter.get("/v1/user/1");
+            respond(moxios, 404, { Error: [{ error_description: "User not found." }] });
+            const response = await request;
+
+            expect(response).toEqual({ Response: [] });
+            expect(errors[0]).toBeInstanceOf(BunqNotFoundError);
+        });
+
+        it("should throw the error when no middleware recovers", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            bunqApp.setRetryPolicy("GET", false);
+            const onError = jest.fn();
+            bunqApp.addMiddleware({ name: "logger", onError: onError });
+
+            const request = bunqApp.ApiAdapter.get("/v1/user/1");
+            respond(moxios, 404, { Error: [{ error_description: "User not found." }] });
+            try {
+                await request;
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqNotFoundError);
+            }
+
+            expect(onError).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("#removeMiddleware()", () => {
+        it("should remove a middleware by name", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const beforeSend = jest.fn();
+            bunqApp.addMiddleware({ name: "removed", beforeSend: beforeSend }, "after_signing");
+            bunqApp.removeMiddleware("removed");
+
+            const request = bunqApp.ApiAdapter.get("/v1/user");
+            await respond(moxios, 200, { Response: [] });
+            await request;
+
+            expect(beforeSend).not.toHaveBeenCalled();
+            expect(bunqApp.ApiAdapter.middlewares.after_signing).toEqual([]);
+        });
+    });
+
+    describe("#request()", () => {
+        let server: FakeBunqServer;
+        let bunqApp: BunqJSClient;
+        const apiKey = randomHex(64);
+
+        beforeEach(async () => {
+            server = new FakeBunqServer({ privateKeyPem: process.env.CI_PRIVATE_KEY_PEM });
+            server.state.createUser(apiKey, "Recovery");
+
+            bunqApp = new BunqJSClient(new CustomDb(randomHex(32)));
+            bunqApp.setHttpTransport(server);
+            await bunqApp.connect({ api_key: apiKey, encryption_key: randomHex(32), keep_alive: false });
+        });
+
+        it("should create a new session and replay the request when the session is rejected", async () => {
+            const oldSessionToken = bunqApp.Session.sessionToken;
+            const expiredListener = jest.fn();
+            bunqApp.on("sessionExpired", expiredListener);
+            server.state.sessions = {};
+
+            const users = await bunqApp.getUsers(true);
+
+            expect(users.UserPerson.display_name).toBe("Recovery");
+            expect(bunqApp.Session.sessionToken).not.toBe(oldSessionToken);
+            expect(Object.keys(server.state.sessions).length).toBe(1);
+            expect(expiredListener).toHaveBeenCalledTimes(1);
+        });
+
+        it("should only create one new session for concurrent requests", async () => {
+            const userId = bunqApp.Session.userInfo.UserPerson.id;
+            server.state.sessions = {};
+
+            await Promise.all([
+                bunqApp.api.user.get(userId),
+                bunqApp.api.user.get(userId),
+                bunqApp.api.monetaryAccount.list(userId)
+            ]);
+
+            expect(Object.keys(server.state.sessions).length).toBe(1);
+            expect(bunqApp.fetchingNewSession).toBe(false);
+        });
+
+        it("should stop after creating a new session once", async () => {
+            const sessionRequests = [];
+            bunqApp.setHttpTransport({
+                request: async (config: HttpRequestConfig) => {
+                    if (config.url.endsWith("/v1/session-server")) sessionRequests.push(config);
+
+                    // only the installation and session requests are accepted
+                    if (config.url.includes("/v1/user")) {
+                        server.state.sessions = {};
+                    }
+                    return server.request(config);
+                }
+            });
+            server.state.sessions = {};
+
+            try {
+                await bunqApp.getUsers(true);
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqAuthenticationError);
+            }
+            expect(sessionRequests.length).toBe(1);
+        });
+
+        it("should not create a new session when recovery is disabled", async () => {
+            bunqApp.ApiAdapter.maxSessionRecoveries = 0;
+            server.state.sessions = {};
+
+            try {
+                await bunqApp.getUsers(true);
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.status).toBe(401);
+            }
+            expect(Object.keys(server.state.sessions).length).toBe(0);
+        });
+    });
+});
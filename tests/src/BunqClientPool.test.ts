@@ -0,0 +1,203 @@
+import BunqClientPool from "../../src/BunqClientPool";
+import Session from "../../src/Session";
+import FakeBunqServer from "../../src/Testing/FakeBunqServer";
+import FakeClock from "../../src/Testing/FakeClock";
+import BunqValidationError from "../../src/Errors/BunqValidationError";
+import HttpRequestConfig from "../../src/Types/HttpRequestConfig";
+
+import Prepare from "../TestHelpers/Prepare";
+import CustomDb from "../TestHelpers/CustomDb";
+import { randomHex } from "../TestHelpers/RandomData";
+
+const loggerMock: any = {
+    log: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    trace: jest.fn(),
+    debug: jest.fn()
+};
+
+describe("BunqClientPool", () => {
+    let server: FakeBunqServer;
+    let storage: CustomDb;
+    let pool: BunqClientPool;
+    let concurrentRequests: number;
+    let maxConcurrentRequests: number;
+
+    const apiKeys = { alpha: randomHex(64), bravo: randomHex(64) };
+
+    beforeEach(() => {
+        Prepare();
+        server = new FakeBunqServer({ privateKeyPem: process.env.CI_PRIVATE_KEY_PEM });
+        server.state.createUser(apiKeys.alpha, "Alpha");
+        server.state.createUser(apiKeys.bravo, "Bravo");
+
+        concurrentRequests = 0;
+        maxConcurrentRequests = 0;
+        storage = new CustomDb(randomHex(32));
+        pool = new BunqClientPool(storage, loggerMock, {
+            encryption_key: randomHex(32),
+            max_concurrent_requests: 1,
+            setup_client: client => {
+                client.setHttpTransport({
+                    request: async (config: HttpRequestConfig) => {
+                        concurrentRequests++;
+                        maxConcurrentRequests = Math.max(maxConcurrentRequests, concurrentRequests);
+                        await new Promise(resolve => setTimeout(resolve, 5));
+                        try {
+                            return await server.request(config);
+                        } finally {
+                            concurrentRequests--;
+                        }
+                    }
+                });
+            }
+        });
+        pool.addTenant("alpha", { api_key: apiKeys.alpha });
+        pool.addTenant("bravo", { api_key: apiKeys.bravo });
+    });
+    afterEach(() => pool.close());
+
+    describe("#getClient()", () => {
+        it("should install a client for each tenant within the concurrency limit", async () => {
+            const [alphaClient, bravoClient] = await Promise.all([pool.getClient("alpha"), pool.getClient("bravo")]);
+
+            const alphaUsers = await alphaClient.getUsers(true);
+            const bravoUsers = await bravoClient.getUsers(true);
+
+            expect(alphaUsers.UserPerson.display_name).toBe("Alpha");
+            expect(bravoUsers.UserPerson.display_name).toBe("Bravo");
+            expect(maxConcurrentRequests).toBe(1);
+            expect(alphaClient.ApiAdapter.RequestLimitFactory).toBe(bravoClient.ApiAdapter.RequestLimitFactory);
+            expect(await pool.getClient("alpha")).toBe(alphaClient);
+        });
+
+        it("should call setup_client after the client ran", async () => {
+            const sessionSetup = jest.spyOn(Session.prototype, "setup");
+            const setupClient = jest.fn();
+            const otherPool = new BunqClientPool(storage, loggerMock, {
+                encryption_key: randomHex(32),
+                setup_client: (client, tenantId) => {
+                    setupClient(client.Session.apiKey, tenantId);
+                    client.setHttpTransport(server);
+                }
+            });
+            otherPool.addTenant("alpha", { api_key: apiKeys.alpha });
+
+            const client = await otherPool.getClient("alpha");
+            otherPool.close();
+            sessionSetup.mockRestore();
+
+            expect(setupClient).toHaveBeenCalledWith(apiKeys.alpha, "alpha");
+            // the client only runs once so the changes made by setup_client are kept
+            expect(sessionSetup).toHaveBeenCalledTimes(1);
+            expect(client.Session.verifySessionInstallation()).toBe(true);
+        });
+
+        it("should start again when the tenant changes while connecting", async () => {
+            const newApiKey = randomHex(64);
+            server.state.createUser(newApiKey, "Alpha refreshed");
+
+            const request = pool.getClient("alpha");
+            pool.addTenant("alpha", { api_key: newApiKey });
+            const client = await request;
+
+            expect(client.Session.apiKey).toBe(newApiKey);
+            expect((await client.getUsers(true)).UserPerson.display_name).toBe("Alpha refreshed");
+            expect(await pool.getClient("alpha")).toBe(client);
+        });
+
+        it("should store the sessions in a namespace per tenant", async () => {
+            const client = await pool.getClient("alpha");
+
+            expect(await storage.get(`alpha_${client.Session.storageKeyLocation}`)).toBeTruthy();
+            expect(await storage.get(client.Session.storageKeyLocation)).toBeNull();
+        });
+
+        it("should mark the tenant as failed when the setup fails", async () => {
+            pool.addTenant("unknown", { api_key: randomHex(64) });
+
+            try {
+                await pool.getClient("unknown");
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqValidationError);
+            }
+
+            const health = pool.getHealth("unknown");
+            expect(health.status).toBe("failed");
+            expect(health.failed_requests).toBe(1);
+            expect(health.last_error).toBeTruthy();
+        });
+
+        it("should throw an error for unknown tenants", async () => {
+            try {
+                await pool.getClient("charlie");
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.message).toBe("No tenant found with id charlie");
+            }
+        });
+    });
+
+    describe("#evictIdleClients()", () => {
+        it("should evict idle clients and reuse their stored session", async () => {
+            pool.options.idle_timeout = 0;
+            const client = await pool.getClient("alpha");
+            const sessionCount = Object.keys(server.state.sessions).length;
+
+            expect(pool.evictIdleClients()).toBe(1);
+            expect(pool.getHealth("alpha").status).toBe("inactive");
+
+            const newClient = await pool.getClient("alpha");
+            expect(newClient).not.toBe(client);
+            expect(newClient.Session.sessionToken).toBe(client.Session.sessionToken);
+            expect(Object.keys(server.state.sessions).length).toBe(sessionCount);
+        });
+
+        it("should evict idle clients with the idle timer of the pool clock", async () => {
+            const clock = new FakeClock();
+            const clockPool = new BunqClientPool(storage, loggerMock, {
+                encryption_key: randomHex(32),
+                idle_timeout: 60 * 1000,
+                clock: clock,
+                setup_client: client => client.setHttpTransport({ request: server.request.bind(server) })
+            });
+            clockPool.addTenant("alpha", { api_key: apiKeys.alpha });
+
+            const client = await clockPool.getClient("alpha");
+            expect(client.clock).toBe(clock);
+            expect(clockPool.getHealth("alpha").last_used.getTime()).toBe(clock.now());
+
+            clock.tick(59 * 1000);
+            expect(clockPool.getHealth("alpha").status).toBe("ready");
+
+            clock.tick(60 * 1000);
+            expect(clockPool.getHealth("alpha").status).toBe("inactive");
+            clockPool.close();
+        });
+    });
+
+    describe("#getAllHealth()", () => {
+        it("should return the health of all tenants", async () => {
+            await pool.getClient("alpha");
+
+            const [alphaHealth, bravoHealth] = pool.getAllHealth();
+            expect(alphaHealth.tenant_id).toBe("alpha");
+            expect(alphaHealth.status).toBe("ready");
+            expect(alphaHealth.total_requests).toBe(3);
+            expect(alphaHealth.session_expiry_time).toBeInstanceOf(Date);
+            expect(bravoHealth.status).toBe("inactive");
+            expect(bravoHealth.last_used).toBeNull();
+        });
+    });
+
+    describe("#removeTenant()", () => {
+        it("should remove the tenant", async () => {
+            await pool.getClient("alpha");
+            await pool.removeTenant("alpha");
+
+            expect(pool.hasTenant("alpha")).toBe(false);
+        });
+    });
+});
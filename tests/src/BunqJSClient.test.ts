@@ -1,5 +1,11 @@
 import * as moxios from "moxios";
 import BunqJSClient from "../../src/BunqJSClient";
+import FakeBunqServer from "../../src/Testing/FakeBunqServer";
+import FakeClock from "../../src/Testing/FakeClock";
+import BunqValidationError from "../../src/Errors/BunqValidationError";
+import CustomError from "../../src/Interfaces/CustomError";
+import ErrorCodes from "../../src/Helpers/ErrorCodes";
+import { registerEnvironment } from "../../src/Helpers/Environments";
 
 import CustomDb from "../TestHelpers/CustomDb";
 import { randomHex } from "../TestHelpers/RandomData";
@@ -27,6 +33,18 @@ const FAKE_API_KEY = randomHex(64);
 const FAKE_ENCRYPTION_KEY = randomHex(32);
 const FAKE_ENCRYPTION_KEY2 = randomHex(32);
 
+/**
+ * Creates a client which sends its requests to the fake server
+ * @param {FakeBunqServer} server
+ * @param {string} storageName - clients with the same storage name share their stored session
+ * @returns {BunqJSClient}
+ */
+const createFakeServerClient = (server: FakeBunqServer, storageName: string = randomHex(32)): BunqJSClient => {
+    const app = new BunqJSClient(new CustomDb(storageName, false));
+    app.setHttpTransport(server);
+    return app;
+};
+
 describe("BunqJSClient", () => {
     beforeAll(async done => {
         await Prepare();
@@ -75,6 +93,287 @@ describe("BunqJSClient", () => {
         });
     });
 
+    describe("#connect()", () => {
+        let server: FakeBunqServer;
+        const connectOptions = { api_key: FAKE_API_KEY, encryption_key: FAKE_ENCRYPTION_KEY, keep_alive: false };
+
+        beforeEach(() => {
+            server = new FakeBunqServer({ privateKeyPem: process.env.CI_PRIVATE_KEY_PEM });
+            server.state.createUser(FAKE_API_KEY, "Connect");
+        });
+
+        it("should only create the installation, device and session once", async () => {
+            const storageName = randomHex(32);
+            const app = createFakeServerClient(server, storageName);
+
+            const result = await app.connect(connectOptions);
+            const secondResult = await app.connect(connectOptions);
+            const storedResult = await createFakeServerClient(server, storageName).connect(connectOptions);
+
+            expect(result).toEqual({ installation: "created", device: "created", session: "created", recovered: [] });
+            expect(secondResult).toEqual({
+                installation: "stored",
+                device: "stored",
+                session: "stored",
+                recovered: []
+            });
+            expect(storedResult).toEqual(secondResult);
+            expect(Object.keys(server.state.sessions).length).toBe(1);
+            expect(app.keepAlive).toBe(false);
+        });
+
+        it("should call after_run before the first request is sent", async () => {
+            const app = new BunqJSClient(new CustomDb(randomHex(32), false));
+            const afterRun = jest.fn(() => {
+                expect(app.Session.apiKey).toBe(FAKE_API_KEY);
+                app.setHttpTransport(server);
+            });
+
+            const result = await app.connect({ ...connectOptions, after_run: afterRun });
+
+            expect(afterRun).toHaveBeenCalledTimes(1);
+            expect(result.session).toBe("created");
+        });
+
+        it("should create a new session when the stored session expired", async () => {
+            const app = createFakeServerClient(server);
+            await app.connect(connectOptions);
+            app.Session.sessionExpiryTime = new Date(0);
+            await app.Session.storeSession();
+
+            const result = await app.connect(connectOptions);
+
+            expect(result).toEqual({
+                installation: "stored",
+                device: "stored",
+                session: "created",
+                recovered: ["expired_session"]
+            });
+        });
+
+        it("should report an expired session stored by another client", async () => {
+            const storageName = randomHex(32);
+            const app = createFakeServerClient(server, storageName);
+            await app.connect(connectOptions);
+            app.Session.sessionExpiryTime = new Date(0);
+            await app.Session.storeSession();
+
+            const result = await createFakeServerClient(server, storageName).connect(connectOptions);
+
+            expect(result).toEqual({
+                installation: "stored",
+                device: "stored",
+                session: "created",
+                recovered: ["expired_session"]
+            });
+        });
+
+        it("should create a new installation when the stored installation is rejected", async () => {
+            const app = createFakeServerClient(server);
+            await app.connect(connectOptions);
+            await app.Session.destroyApiSession(true);
+            await app.Session.destroyApiDeviceInstallation(true);
+            server.state.installations = {};
+
+            const result = await app.connect(connectOptions);
+
+            expect(result).toEqual({
+                installation: "created",
+                device: "created",
+                session: "created",
+                recovered: ["stale_installation"]
+            });
+            expect((await app.getUsers(true)).UserPerson.display_name).toBe("Connect");
+        });
+
+        it("should create a new installation when the installation already has a session", async () => {
+            const app = createFakeServerClient(server);
+            const error = new CustomError("Installation has a session", false, ErrorCodes.INSTALLATION_HAS_SESSION);
+            jest.spyOn(app.api.sessionServer, "add").mockImplementationOnce(() => Promise.reject(error));
+
+            const result = await app.connect(connectOptions);
+
+            expect(result.recovered).toEqual(["installation_has_session"]);
+            expect(app.Session.verifySessionInstallation()).toBe(true);
+            expect(Object.keys(server.state.installations).length).toBe(2);
+        });
+
+        it("should create a new installation when the api key changed", async () => {
+            const otherApiKey = randomHex(64);
+            server.state.createUser(otherApiKey, "Other");
+            const app = createFakeServerClient(server);
+            await app.connect(connectOptions);
+
+            const result = await app.connect({ ...connectOptions, api_key: otherApiKey });
+
+            expect(result).toEqual({
+                installation: "created",
+                device: "created",
+                session: "created",
+                recovered: ["api_key_changed"]
+            });
+            expect((await app.getUsers(true)).UserPerson.display_name).toBe("Other");
+        });
+
+        it("should report a changed api key for a session stored by another client", async () => {
+            // the storage location is derived from the start of the api key so both keys share the stored session
+            const otherApiKey = FAKE_API_KEY.substring(0, 16) + randomHex(48);
+            server.state.createUser(otherApiKey, "Other");
+            const storageName = randomHex(32);
+            await createFakeServerClient(server, storageName).connect(connectOptions);
+
+            const app = createFakeServerClient(server, storageName);
+            const result = await app.connect({ ...connectOptions, api_key: otherApiKey });
+
+            expect(result).toEqual({
+                installation: "created",
+                device: "created",
+                session: "created",
+                recovered: ["api_key_changed"]
+            });
+            expect((await app.getUsers(true)).UserPerson.display_name).toBe("Other");
+        });
+
+        it("should throw errors for a new installation", async () => {
+            const app = createFakeServerClient(server);
+
+            try {
+                await app.connect({ ...connectOptions, api_key: randomHex(64) });
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqValidationError);
+            }
+        });
+    });
+
+    describe("#on()", () => {
+        let server: FakeBunqServer;
+        const connectOptions = { api_key: FAKE_API_KEY, encryption_key: FAKE_ENCRYPTION_KEY, keep_alive: false };
+
+        beforeEach(() => {
+            server = new FakeBunqServer({ privateKeyPem: process.env.CI_PRIVATE_KEY_PEM });
+            server.state.createUser(FAKE_API_KEY, "Lifecycle");
+        });
+
+        it("should emit events when the installation, device and session are created and destroyed", async () => {
+            const app = createFakeServerClient(server);
+            const types = [];
+            app.on("*", event => {
+                types.push(event.type);
+            });
+
+            await app.connect(connectOptions);
+            await app.destroySession();
+
+            expect(types).toEqual(["installationCreated", "deviceRegistered", "sessionCreated", "sessionDestroyed"]);
+        });
+
+        it("should emit an event when a stored session has expired", async () => {
+            const storageName = randomHex(32);
+            const app = createFakeServerClient(server, storageName);
+            await app.connect(connectOptions);
+            app.Session.sessionExpiryTime = new Date(0);
+            await app.Session.storeSession();
+
+            const listener = jest.fn();
+            const reloadedApp = createFakeServerClient(server, storageName).on("sessionExpired", listener);
+            await reloadedApp.run(FAKE_API_KEY, [], "SANDBOX", FAKE_ENCRYPTION_KEY);
+
+            expect(listener).toHaveBeenCalledWith({
+                type: "sessionExpired",
+                environment: "SANDBOX",
+                expiry_time: new Date(0)
+            });
+        });
+
+        it("should emit events when stored data is discarded", async () => {
+            const storageName = randomHex(32);
+            await createFakeServerClient(server, storageName).connect(connectOptions);
+
+            const decryptListener = jest.fn();
+            const wrongKeyApp = createFakeServerClient(server, storageName).on("storageDecryptFailed", decryptListener);
+            await wrongKeyApp.run(FAKE_API_KEY, [], "SANDBOX", FAKE_ENCRYPTION_KEY2);
+
+            const destroyListener = jest.fn();
+            const otherKeyApp = createFakeServerClient(server, storageName).on("sessionDestroyed", destroyListener);
+            // the storage location is derived from the start of the api key
+            await otherKeyApp.run(FAKE_API_KEY.substring(0, 16) + randomHex(24), [], "SANDBOX", FAKE_ENCRYPTION_KEY);
+
+            expect(decryptListener).toHaveBeenCalledTimes(1);
+            expect(destroyListener.mock.calls[0][0].reason).toBe("api_key_changed");
+        });
+
+        it("should emit an event when the keep alive request succeeds or fails", async () => {
+            const app: any = createFakeServerClient(server);
+            await app.connect({ ...connectOptions, keep_alive: true });
+            const refreshListener = jest.fn();
+            const failedListener = jest.fn();
+            app.on("sessionRefreshed", refreshListener).on("keepAliveFailed", failedListener);
+
+            app.expiryTimerCallback();
+            await new Promise(resolve => setTimeout(resolve, 50));
+            app.setHttpTransport({ request: () => Promise.reject(new Error("Network Error")) });
+            app.setRetryPolicy("GET", false);
+            app.expiryTimerCallback();
+            await new Promise(resolve => setTimeout(resolve, 50));
+            app.clearExpiryTimer();
+
+            expect(refreshListener).toHaveBeenCalledTimes(1);
+            expect(failedListener.mock.calls[0][0].error.message).toBe("Network Error");
+        });
+
+        it("should not break the client when a listener fails", async () => {
+            const app = createFakeServerClient(server);
+            const errorSpy = jest.spyOn(app.logger, "error").mockImplementation(() => {});
+            app.on("sessionCreated", () => {
+                throw new Error("Listener failed");
+            });
+
+            const result = await app.connect(connectOptions);
+
+            expect(result.session).toBe("created");
+            expect(errorSpy).toHaveBeenCalledWith("Lifecycle listener for sessionCreated failed");
+        });
+    });
+
+    describe("#setClock()", () => {
+        let server: FakeBunqServer;
+
+        beforeEach(() => {
+            server = new FakeBunqServer({ privateKeyPem: process.env.CI_PRIVATE_KEY_PEM });
+            server.state.createUser(FAKE_API_KEY, "Clock");
+        });
+
+        it("should keep the session alive using the clock", async () => {
+            const clock = new FakeClock();
+            const app = createFakeServerClient(server);
+            await app.connect({ api_key: FAKE_API_KEY, encryption_key: FAKE_ENCRYPTION_KEY });
+            const refreshListener = jest.fn();
+            app.on("sessionRefreshed", refreshListener);
+
+            app.setClock(clock);
+            clock.tick(app.calculateSessionExpiry() - 15000);
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            // the refresh request extends the session by five minutes at most
+            expect(refreshListener).toHaveBeenCalledTimes(1);
+            expect(app.Session.sessionExpiryTime.getTime()).toBe(clock.now() + 300000);
+            expect(clock.pendingTimers).toBe(1);
+            app.clearExpiryTimer();
+        });
+
+        it("should use the clock to check if the session expired", async () => {
+            const clock = new FakeClock();
+            const app = createFakeServerClient(server);
+            await app.connect({ api_key: FAKE_API_KEY, encryption_key: FAKE_ENCRYPTION_KEY, keep_alive: false });
+            app.setClock(clock);
+
+            expect(app.Session.verifySessionInstallation()).toBe(true);
+            clock.tick(app.calculateSessionExpiry());
+            expect(app.Session.verifySessionInstallation()).toBe(false);
+        });
+    });
+
     describe("#setKeepAlive()", () => {
         it("should be false and true after using the function", async () => {
             const app = new BunqJSClient(new CustomDb("setKeepAlive"));
@@ -474,6 +773,22 @@ describe("BunqJSClient", () => {
             // wait for credential status
             await checkCredentialStatus;
         });
+
+        it("should use the credential request url of the environment", async () => {
+            registerEnvironment("CREDENTIALS_MOCK", {
+                api_url: "http://localhost:4010",
+                credential_request_url: "http://localhost:4010/v1/credential-password-ip-request",
+                sandbox: true
+            });
+            const bunqApp: BunqJSClient = await SetupApp("CreateCredentialsEnvironment");
+            bunqApp.Session.environmentType = "CREDENTIALS_MOCK";
+
+            const checkCredentialStatus = bunqApp.createCredentials();
+            await defaultResponse(moxios);
+            await checkCredentialStatus;
+
+            expect(moxios.requests.mostRecent().url).toBe("http://localhost:4010/v1/credential-password-ip-request");
+        });
     });
 
     describe("#checkCredentialStatus()", () => {
@@ -562,6 +877,21 @@ describe("BunqJSClient", () => {
             expect(response).not.toBeNull();
         });
 
+        it("should send the client secret in the body instead of the url", async () => {
+            const app = await SetupApp("exchangeOAuthToken5");
+
+            const request = app.exchangeOAuthToken("clientId", "client&Secret", "redirectUri", "codeValue");
+            await oauthUserAuthorization(moxios);
+            await request;
+
+            const sentRequest = moxios.requests.mostRecent();
+            expect(sentRequest.url).toBe("https://api.oauth.bunq.com/v1/token");
+            expect(sentRequest.config.data).toBe(
+                "grant_type=authorization_code&code=codeValue&redirect_uri=redirectUri&" +
+                    "client_id=clientId&client_secret=client%26Secret"
+            );
+        });
+
         it("should check the state if set", async () => {
             const app = await SetupApp("exchangeOAuthToken2");
 
@@ -650,6 +980,20 @@ describe("BunqJSClient", () => {
 
             expect(string).toBe(expectedUrl);
         });
+
+        it("should return the url of a registered environment", async () => {
+            registerEnvironment("OAUTH_MOCK", {
+                api_url: "http://localhost:4010",
+                oauth_authorize_url: "http://localhost:4010/oauth/auth"
+            });
+            const app = await SetupApp("formatOAuthAuthorizationRequestUrl5");
+
+            const string = app.formatOAuthAuthorizationRequestUrl("clientId", "redirectUri", false, "OAUTH_MOCK");
+
+            expect(string).toBe(
+                "http://localhost:4010/oauth/auth?response_type=code&client_id=clientId&redirect_uri=redirectUri"
+            );
+        });
     });
 
     describe("#formatOAuthKeyExchangeUrl()", () => {
@@ -0,0 +1,26 @@
+import { createCodeChallenge, createCodeVerifier, createRandomToken } from "../../../src/Crypto/Pkce";
+
+describe("Pkce", () => {
+    describe("#createRandomToken()", () => {
+        it("should return a random hex string", () => {
+            const token = createRandomToken(16);
+
+            expect(token).toMatch(/^[0-9a-f]{32}$/);
+            expect(token).not.toBe(createRandomToken(16));
+        });
+    });
+
+    describe("#createCodeVerifier()", () => {
+        it("should return a url safe string of 43 characters", () => {
+            expect(createCodeVerifier()).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        });
+    });
+
+    describe("#createCodeChallenge()", () => {
+        it("should return the S256 challenge from the specification", () => {
+            const challenge = createCodeChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk");
+
+            expect(challenge).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+        });
+    });
+});
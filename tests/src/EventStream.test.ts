@@ -0,0 +1,108 @@
+import * as moxios from "moxios";
+
+import BunqJSClient from "../../src/BunqJSClient";
+import EventStream from "../../src/EventStream";
+
+import SetupApp from "../TestHelpers/SetupApp";
+
+const listResponse = async (moxios, items: any[]) => {
+    await new Promise((resolve, reject) => {
+        moxios.wait(() => {
+            moxios.requests
+                .mostRecent()
+                .respondWith({
+                    status: 200,
+                    response: { Response: items },
+                    headers: { "Content-Type": "application/json" }
+                })
+                .then(resolve)
+                .catch(reject);
+        });
+    });
+};
+
+const eventItem = (id: number) => ({ Event: { id: id, action: "CREATE" } });
+
+describe("EventStream", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    describe("#poll()", () => {
+        it("should only emit items created after the first poll", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const stream: EventStream = bunqApp.createEventStream(1);
+            const listener = jest.fn();
+            stream.on("event", listener);
+
+            const firstPoll = stream.poll();
+            await listResponse(moxios, [eventItem(10)]);
+            expect(await firstPoll).toEqual([]);
+
+            const secondPoll = stream.poll();
+            await listResponse(moxios, [eventItem(12), eventItem(11)]);
+            const items = await secondPoll;
+
+            expect(moxios.requests.mostRecent().config.params.newer_id).toBe(10);
+            expect(items.map(item => item.type === "event" && item.event.id)).toEqual([11, 12]);
+            expect(listener).toHaveBeenCalledTimes(2);
+            expect(stream.cursors).toEqual({ events: 12, payments: {} });
+        });
+
+        it("should continue from the stored cursor and skip duplicates", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const stream: EventStream = bunqApp.createEventStream(1, { emit_existing: true });
+
+            const firstPoll = stream.poll();
+            await listResponse(moxios, [eventItem(5)]);
+            expect((await firstPoll).length).toBe(1);
+
+            // a new stream with the same name continues with the stored cursor
+            const nextStream: EventStream = bunqApp.createEventStream(1);
+            const nextPoll = nextStream.poll();
+            await listResponse(moxios, []);
+            await nextPoll;
+            expect(moxios.requests.mostRecent().config.params.newer_id).toBe(5);
+
+            const duplicatePoll = stream.poll();
+            await listResponse(moxios, [eventItem(5)]);
+            expect(await duplicatePoll).toEqual([]);
+        });
+
+        it("should poll the payments for the given monetary accounts", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const stream: EventStream = bunqApp.createEventStream(1, {
+                emit_existing: true,
+                monetary_account_ids: [2]
+            });
+            const listener = jest.fn();
+            stream.on("payment", listener);
+
+            const poll = stream.poll();
+            await listResponse(moxios, []);
+            await listResponse(moxios, [{ Payment: { id: 3 } }]);
+            await poll;
+
+            expect(listener).toHaveBeenCalledWith({ id: 3 }, 2);
+            expect(stream.cursors).toEqual({ events: 0, payments: { 2: 3 } });
+        });
+    });
+
+    describe("asyncIterator", () => {
+        it("should yield the emitted items until the loop ends", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const stream: EventStream = bunqApp.createEventStream(1);
+
+            stream.poll = jest.fn().mockImplementation(async () => {
+                stream.emit("event", { id: 1 });
+                return [];
+            });
+
+            for await (const item of stream) {
+                expect(item).toEqual({ type: "event", event: { id: 1 } });
+                break;
+            }
+
+            expect(stream.isRunning).toBe(false);
+        });
+    });
+});
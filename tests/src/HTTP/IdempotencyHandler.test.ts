@@ -0,0 +1,283 @@
+import * as moxios from "moxios";
+import BunqJSClient from "../../../src/BunqJSClient";
+import IdempotencyHandler, { findReference } from "../../../src/HTTP/IdempotencyHandler";
+import BunqServerError from "../../../src/Errors/BunqServerError";
+import BunqSignatureError from "../../../src/Errors/BunqSignatureError";
+import FakeClock from "../../../src/Testing/FakeClock";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+import { defaultResponse } from "../../TestHelpers/DefaultResponses";
+
+const createdResponse = { Response: [{ Id: { id: 42 } }] };
+const noExisting = async () => [];
+
+describe("IdempotencyHandler", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    it("sends the request without a request id when no key is given", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+
+        const response = await bunqApp.ApiAdapter.IdempotencyHandler.send(
+            false,
+            "",
+            "/payment",
+            {},
+            noExisting,
+            sendRequest
+        );
+
+        expect(response).toBe(createdResponse);
+        expect(sendRequest).toHaveBeenCalledWith({});
+    });
+
+    it("sends the key as request id and only sends a completed request once", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+
+        const firstResponse = await handler.send("key-1", "key-1", "/payment", { a: 1 }, noExisting, sendRequest);
+        const secondResponse = await handler.send("key-1", "key-1", "/payment", { a: 1 }, noExisting, sendRequest);
+
+        expect(firstResponse).toEqual(createdResponse);
+        expect(secondResponse).toEqual(createdResponse);
+        expect(sendRequest).toHaveBeenCalledTimes(1);
+        expect(sendRequest).toHaveBeenCalledWith({ "X-Bunq-Client-Request-Id": "key-1" });
+    });
+
+    it("shares a single request between parallel calls with the same key", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+
+        await Promise.all([
+            handler.send("key-1", "key-1", "/payment", {}, noExisting, sendRequest),
+            handler.send("key-1", "key-1", "/payment", {}, noExisting, sendRequest)
+        ]);
+
+        expect(sendRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws an error when a key is reused for a different request", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+
+        await handler.send("key-1", "key-1", "/payment", { a: 1 }, noExisting, sendRequest);
+
+        let caughtError = null;
+        try {
+            await handler.send("key-1", "key-1", "/payment", { a: 2 }, noExisting, sendRequest);
+        } catch (error) {
+            caughtError = error;
+        }
+
+        expect(caughtError).toBeInstanceOf(Error);
+        expect(sendRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns the existing item when the response of a previous attempt got lost", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const failingRequest = jest.fn().mockReturnValue(Promise.reject(new Error("Network Error")));
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+        const findExisting = async () => [{ Payment: { id: 7, merchant_reference: "key-1" } }];
+
+        try {
+            await handler.send("key-1", "key-1", "/payment", {}, findExisting, failingRequest);
+        } catch (error) {}
+
+        const record = await handler.getRecord("key-1");
+        expect(record !== false && record.status).toBe("PENDING");
+
+        const response = await handler.send("key-1", "key-1", "/payment", {}, findExisting, sendRequest);
+
+        expect(response).toEqual({ Response: [{ Id: { id: 7 } }] });
+        expect(sendRequest).not.toHaveBeenCalled();
+    });
+
+    it("only searches the items created since the first attempt", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const failingRequest = jest.fn().mockReturnValue(Promise.reject(new Error("Network Error")));
+        const findExisting = jest.fn().mockReturnValue(Promise.resolve([]));
+
+        try {
+            await handler.send("key-1", "key-1", "/payment", {}, findExisting, failingRequest);
+        } catch (error) {}
+        const record = await handler.getRecord("key-1");
+
+        try {
+            await handler.send("key-1", "key-1", "/payment", {}, findExisting, failingRequest);
+        } catch (error) {}
+
+        const searchOptions = findExisting.mock.calls[0][0];
+        expect(searchOptions.max_items).toBe(handler.searchLimit);
+        expect(searchOptions.date_cutoff).toEqual(
+            new Date((record !== false && record.created) - handler.searchMargin)
+        );
+    });
+
+    it("sends the request again when a previous attempt wasn't processed", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const failingRequest = jest.fn().mockReturnValue(Promise.reject(new Error("Network Error")));
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+
+        try {
+            await handler.send("key-1", "key-1", "/payment", {}, noExisting, failingRequest);
+        } catch (error) {}
+        const response = await handler.send("key-1", "key-1", "/payment", {}, noExisting, sendRequest);
+
+        expect(response).toEqual(createdResponse);
+        expect(sendRequest).toHaveBeenCalledWith({ "X-Bunq-Client-Request-Id": "key-1" });
+    });
+
+    it("removes the record when the server rejected the request", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const rejectedError: any = new Error("Request failed with status code 400");
+        rejectedError.response = { status: 400 };
+        const failingRequest = jest.fn().mockReturnValue(Promise.reject(rejectedError));
+
+        try {
+            await handler.send("key-1", "key-1", "/payment", {}, noExisting, failingRequest);
+        } catch (error) {}
+
+        expect(await handler.getRecord("key-1")).toBe(false);
+    });
+
+    const apiErrorDetails = (status: number) => ({
+        status: status,
+        responseId: false as false,
+        errorDescriptions: [],
+        errorDescriptionsTranslated: [],
+        endpoint: "/payment",
+        method: "POST"
+    });
+    const failedErrors = {
+        "a server error": new BunqServerError("Service unavailable", { status: 503 }, apiErrorDetails(503)),
+        "a failed signature check": new BunqSignatureError("Invalid signature", { status: 200 }, apiErrorDetails(200))
+    };
+
+    Object.keys(failedErrors).forEach(errorName => {
+        it(`keeps the record and finds the existing payment after ${errorName}`, async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+            const failingRequest = jest.fn().mockReturnValue(Promise.reject(failedErrors[errorName]));
+            const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+            const findExisting = async () => [{ Payment: { id: 8, merchant_reference: "key-1" } }];
+
+            try {
+                await handler.send("key-1", "key-1", "/payment", {}, findExisting, failingRequest);
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBe(failedErrors[errorName]);
+            }
+
+            const record = await handler.getRecord("key-1");
+            expect(record !== false && record.status).toBe("PENDING");
+
+            const response = await handler.send("key-1", "key-1", "/payment", {}, findExisting, sendRequest);
+
+            expect(response).toEqual({ Response: [{ Id: { id: 8 } }] });
+            expect(sendRequest).not.toHaveBeenCalled();
+        });
+    });
+
+    it("keeps the record when the session was rejected", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const rejectedError: any = new Error("Request failed with status code 401");
+        rejectedError.response = { status: 401 };
+
+        try {
+            await handler.send("key-1", "key-1", "/payment", {}, noExisting, () => Promise.reject(rejectedError));
+        } catch (error) {}
+
+        const record = await handler.getRecord("key-1");
+        expect(record !== false && record.status).toBe("PENDING");
+    });
+
+    it("ignores records older than the ttl", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+
+        await handler.send("key-1", "key-1", "/payment", {}, noExisting, sendRequest);
+        handler.recordTtl = -1;
+
+        expect(await handler.getRecord("key-1")).toBe(false);
+    });
+
+    it("compares the age of records with the client clock", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const clock = new FakeClock();
+        // the session has to outlive the record so the keep alive doesn't run while the clock moves forward
+        bunqApp.Session.sessionExpiryTime = new Date(clock.now() + 48 * 60 * 60 * 1000);
+        bunqApp.setClock(clock);
+        const handler: IdempotencyHandler = bunqApp.ApiAdapter.IdempotencyHandler;
+        const sendRequest = jest.fn().mockReturnValue(Promise.resolve(createdResponse));
+
+        await handler.send("key-1", "key-1", "/payment", {}, noExisting, sendRequest);
+        const record = await handler.getRecord("key-1");
+        expect(record !== false && record.created).toBe(clock.now());
+
+        clock.tick(handler.recordTtl + 1);
+        expect(await handler.getRecord("key-1")).toBe(false);
+    });
+
+    it("sets the idempotency key as request id and merchant reference for payments", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+
+        const request = bunqApp.api.payment.post(
+            1,
+            2,
+            "description",
+            { value: "12.00", currency: "EUR" },
+            { type: "EMAIL", value: "mail@example.com" },
+            { idempotencyKey: "payment-key" }
+        );
+        await defaultResponse(moxios);
+        await request;
+
+        const sentRequest = moxios.requests.mostRecent();
+        expect(sentRequest.headers["X-Bunq-Client-Request-Id"]).toBe("payment-key");
+        expect(JSON.parse(sentRequest.config.data).merchant_reference).toBe("payment-key");
+    });
+
+    it("keeps the merchant reference of the caller and uses it to find earlier attempts", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+
+        const request = bunqApp.api.paymentBatch.post(
+            1,
+            2,
+            "description",
+            { value: "12.00", currency: "EUR" },
+            [{ type: "EMAIL", value: "mail@example.com" }],
+            { idempotencyKey: "batch-key", merchant_reference: "order-1234" }
+        );
+        await defaultResponse(moxios);
+        await request;
+
+        const sentRequest = moxios.requests.mostRecent();
+        expect(sentRequest.headers["X-Bunq-Client-Request-Id"]).toBe("batch-key");
+        expect(JSON.parse(sentRequest.config.data).payments[0].merchant_reference).toBe("order-1234");
+
+        const record = await bunqApp.ApiAdapter.IdempotencyHandler.getRecord("batch-key");
+        expect(record !== false && record.reference).toBe("order-1234");
+    });
+
+    describe("findReference", () => {
+        it("finds wrapped and nested references", () => {
+            const items = [
+                { Payment: { id: 1, merchant_reference: "other" } },
+                { PaymentBatch: { id: 2, payments: { Payment: [{ id: 3, merchant_reference: "key-1" }] } } }
+            ];
+
+            expect(findReference(items, "key-1")).toBe(2);
+            expect(findReference(items, "missing")).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import * as moxios from "moxios";
+import BunqJSClient from "../../../src/BunqJSClient";
+import RequestEvent from "../../../src/Types/RequestEvent";
+import BunqSignatureError from "../../../src/Errors/BunqSignatureError";
+import RequestLimiter from "../../../src/RequestLimiter";
+import FakeClock from "../../../src/Testing/FakeClock";
+import { getEndpointTemplate } from "../../../src/HTTP/InstrumentationHandler";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+
+const respond = async (moxios, status: number, response: any, headers: any = {}) => {
+    await new Promise(resolve => {
+        moxios.wait(() => {
+            moxios.requests.mostRecent().respondWith({
+                status: status,
+                response: response,
+                headers: { "content-type": "application/json", ...headers }
+            });
+            resolve();
+        });
+    });
+};
+
+const createInstrumentation = () => {
+    const events: { started: RequestEvent[]; finished: RequestEvent[] } = { started: [], finished: [] };
+    return {
+        events: events,
+        requestStarted: (event: RequestEvent) => events.started.push(event),
+        requestFinished: (event: RequestEvent) => events.finished.push(event)
+    };
+};
+
+describe("InstrumentationHandler", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => {
+        moxios.uninstall();
+        process.env.ENV_CI = "true";
+    });
+
+    describe("#getEndpointTemplate()", () => {
+        it("should replace ids and remove the query", () => {
+            expect(getEndpointTemplate("/v1/user/12/monetary-account/345/payment?count=10")).toBe(
+                "/v1/user/{id}/monetary-account/{id}/payment"
+            );
+            expect(getEndpointTemplate("https://api.bunq.com/v1/session-server")).toBe("/v1/session-server");
+        });
+    });
+
+    it("should emit a started and finished event for a request", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const instrumentation = createInstrumentation();
+        bunqApp.addInstrumentation(instrumentation);
+
+        const request = bunqApp.ApiAdapter.post("/v1/user/1/monetary-account/2/payment", { description: "é" });
+        await respond(moxios, 200, '{"Response":[]}', { "x-bunq-client-response-id": "response-id" });
+        await request;
+
+        const started = instrumentation.events.started[0];
+        const finished = instrumentation.events.finished[0];
+        expect(started.endpoint).toBe("/v1/user/{id}/monetary-account/{id}/payment");
+        expect(started.method).toBe("POST");
+        expect(started.status).toBeNull();
+        expect(finished.requestId).toBe(started.requestId);
+        expect(finished.status).toBe(200);
+        expect(finished.attempt).toBe(1);
+        expect(finished.requestBytes).toBe(20);
+        expect(finished.responseBytes).toBe(15);
+        expect(finished.responseId).toBe("response-id");
+        expect(finished.error).toBeNull();
+        expect(finished.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should emit a finished event when a middleware answered the request", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const instrumentation = createInstrumentation();
+        bunqApp.addInstrumentation(instrumentation);
+        bunqApp.addMiddleware({
+            name: "cache",
+            beforeSend: context => {
+                context.response = { status: 200, headers: {}, data: '{"Response":[]}' };
+            }
+        });
+
+        const response = await bunqApp.ApiAdapter.get("/v1/user/1/monetary-account");
+
+        expect(response).toEqual({ Response: [] });
+        expect(moxios.requests.count()).toBe(0);
+        expect(instrumentation.events.started.length).toBe(1);
+        expect(instrumentation.events.finished.length).toBe(1);
+        expect(instrumentation.events.finished[0].requestId).toBe(instrumentation.events.started[0].requestId);
+        expect(instrumentation.events.finished[0].status).toBe(200);
+    });
+
+    it("should measure the duration with the client clock", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const instrumentation = createInstrumentation();
+        bunqApp.addInstrumentation(instrumentation);
+
+        const clock = new FakeClock();
+        bunqApp.Session.sessionExpiryTime = new Date(clock.now() + 60 * 60 * 1000);
+        bunqApp.setClock(clock);
+        bunqApp.addMiddleware({
+            name: "slow-cache",
+            beforeSend: context => {
+                clock.tick(250);
+                context.response = { status: 200, headers: {}, data: '{"Response":[]}' };
+            }
+        });
+
+        await bunqApp.ApiAdapter.get("/v1/user");
+
+        expect(instrumentation.events.started[0].startTime).toBe(clock.now() - 250);
+        expect(instrumentation.events.finished[0].duration).toBe(250);
+    });
+
+    it("should include the time spent in the request limiter queue", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const instrumentation = createInstrumentation();
+        bunqApp.addInstrumentation(instrumentation);
+
+        // allows a single request every 100 milliseconds so the second request is queued
+        const clock = new FakeClock();
+        const limiter = new RequestLimiter(1, 100, clock);
+        const queueDurations = [];
+        await limiter.run(queueDuration => queueDurations.push(queueDuration));
+
+        const request = bunqApp.ApiAdapter.get("/v1/user", {}, { limiter: limiter });
+        clock.tick(100);
+        await respond(moxios, 200, "{}");
+        await request;
+
+        expect(queueDurations).toEqual([0]);
+        expect(instrumentation.events.started[0].queueDuration).toBe(100);
+        expect(instrumentation.events.finished[0].queueDuration).toBe(100);
+    });
+
+    it("should emit failed requests and verification failures", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        bunqApp.setRetryPolicy("GET", false);
+        const instrumentation = createInstrumentation();
+        bunqApp.addInstrumentation(instrumentation);
+        process.env.ENV_CI = "false";
+
+        const request = bunqApp.ApiAdapter.get("/v1/user");
+        await respond(moxios, 200, "{}");
+        try {
+            await request;
+            expect(true).toBe(false);
+        } catch (error) {
+            expect(error).toBeInstanceOf(BunqSignatureError);
+        }
+
+        const finished = instrumentation.events.finished[0];
+        expect(finished.status).toBe(200);
+        expect(finished.error).toBeInstanceOf(BunqSignatureError);
+        expect(finished.verificationFailed).toBe(true);
+    });
+
+    it("should not break requests when an instrumentation throws", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const instrumentation = {
+            requestStarted: () => {
+                throw new Error("Instrumentation failed");
+            }
+        };
+        bunqApp.addInstrumentation(instrumentation);
+
+        const request = bunqApp.ApiAdapter.get("/v1/user");
+        await respond(moxios, 200, '{"Response":[]}');
+
+        expect(await request).toEqual({ Response: [] });
+
+        bunqApp.removeInstrumentation(instrumentation);
+        expect(bunqApp.ApiAdapter.InstrumentationHandler.instrumentations).toEqual([]);
+    });
+});
@@ -0,0 +1,58 @@
+import { EventEmitter } from "events";
+import BunqJSClient from "../../../src/BunqJSClient";
+import { createWebhookRequestListener } from "../../../src/HTTP/NodeWebhookAdapter";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+import { createCallbackBody, signCallback } from "../../TestHelpers/Callbacks";
+
+/**
+ * Sends a fake request through the listener and resolves with the returned status code
+ */
+const sendRequest = (listener, method: string, url: string, body: string, headers: any = {}): Promise<number> => {
+    return new Promise(resolve => {
+        const request: any = new EventEmitter();
+        request.method = method;
+        request.url = url;
+        request.headers = headers;
+
+        const response: any = {
+            statusCode: 200,
+            end: () => resolve(response.statusCode)
+        };
+
+        listener(request, response);
+        request.emit("data", Buffer.from(body));
+        request.emit("end");
+    });
+};
+
+describe("NodeWebhookAdapter", () => {
+    it("should respond with 200 for a verified callback", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const listener = jest.fn();
+        bunqApp.webhooks.on("payment", listener);
+
+        const body = createCallbackBody();
+        const headers = await signCallback(bunqApp, body);
+        const requestListener = createWebhookRequestListener(bunqApp.webhooks, { path: "/callback" });
+
+        expect(await sendRequest(requestListener, "POST", "/callback?source=bunq", body, headers)).toBe(200);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should respond with an error status for invalid requests", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const requestListener = createWebhookRequestListener(bunqApp.webhooks, { path: "/callback" });
+        const body = createCallbackBody();
+
+        expect(await sendRequest(requestListener, "POST", "/other", body)).toBe(404);
+        expect(await sendRequest(requestListener, "GET", "/callback", body)).toBe(405);
+        expect(await sendRequest(requestListener, "POST", "/callback", body)).toBe(401);
+
+        bunqApp.webhooks.verifySignatures = false;
+        expect(await sendRequest(requestListener, "POST", "/callback", "invalid")).toBe(400);
+
+        bunqApp.webhooks.on("*", () => Promise.reject(new Error("Listener failed")));
+        expect(await sendRequest(requestListener, "POST", "/callback", body)).toBe(500);
+    });
+});
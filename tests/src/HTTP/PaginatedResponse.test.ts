@@ -0,0 +1,116 @@
+import * as moxios from "moxios";
+import BunqJSClient from "../../../src/BunqJSClient";
+import PaginatedResponse from "../../../src/HTTP/PaginatedResponse";
+
+import Prepare from "../../TestHelpers/Prepare";
+import SetupApp from "../../TestHelpers/SetupApp";
+
+const OLDER_URL = "/v1/user/1/monetary-account/2/payment?count=25&older_id=100";
+const NEWER_URL = "/v1/user/1/monetary-account/2/payment?count=25&newer_id=150";
+const FUTURE_URL = "/v1/user/1/monetary-account/2/payment?count=25&newer_id=200";
+
+const paginatedResponse = async (moxios, pagination: any = false) => {
+    await new Promise((resolve, reject) => {
+        moxios.wait(() => {
+            moxios.requests
+                .mostRecent()
+                .respondWith({
+                    status: 200,
+                    response: {
+                        Response: [{ Payment: { id: 200 } }, { Payment: { id: 150 } }],
+                        Pagination: pagination || {
+                            older_url: OLDER_URL,
+                            newer_url: NEWER_URL,
+                            future_url: FUTURE_URL
+                        }
+                    },
+                    headers: {
+                        "Content-Type": "application/json"
+                    }
+                })
+                .then(resolve)
+                .catch(reject);
+        });
+    });
+};
+
+describe("PaginatedResponse", () => {
+    beforeAll(async done => {
+        await Prepare();
+        done();
+    });
+
+    beforeEach(function() {
+        moxios.install();
+    });
+
+    afterEach(function() {
+        moxios.uninstall();
+    });
+
+    describe("#parsePagination()", () => {
+        it("should parse the cursors from the pagination urls", () => {
+            const pagination = PaginatedResponse.parsePagination({
+                older_url: OLDER_URL,
+                newer_url: null,
+                future_url: FUTURE_URL
+            });
+
+            expect(pagination.older_id).toBe(100);
+            expect(pagination.newer_id).toBe(false);
+            expect(pagination.future_id).toBe(200);
+            expect(pagination.count).toBe(25);
+            expect(pagination.older_url).toBe(OLDER_URL);
+            expect(pagination.newer_url).toBe(null);
+        });
+
+        it("should return empty cursors without pagination", () => {
+            const pagination = PaginatedResponse.parsePagination(undefined);
+
+            expect(pagination.older_url).toBe(null);
+            expect(pagination.older_id).toBe(false);
+            expect(pagination.count).toBe(false);
+        });
+    });
+
+    describe("#older()", () => {
+        it("should return the items and fetch the next page", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.payment.listPage(1, 2);
+            await paginatedResponse(moxios);
+            const page = await request;
+
+            expect(page).toBeInstanceOf(PaginatedResponse);
+            expect(page.items.length).toBe(2);
+            expect(page.hasOlder).toBeTruthy();
+            expect(page.hasNewer).toBeTruthy();
+            expect(page.hasFuture).toBeTruthy();
+
+            const olderRequest = page.older();
+            await paginatedResponse(moxios, { older_url: null, newer_url: null, future_url: null });
+            const olderPage = await olderRequest;
+
+            expect(moxios.requests.mostRecent().url).toContain(OLDER_URL);
+            expect(olderPage).toBeInstanceOf(PaginatedResponse);
+            if (olderPage !== false) {
+                expect(olderPage.hasOlder).toBeFalsy();
+                expect(await olderPage.older()).toBe(false);
+            }
+        });
+    });
+
+    describe("#fromUrl()", () => {
+        it("should fetch a page from a stored url", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = PaginatedResponse.fromUrl(bunqApp.ApiAdapter, FUTURE_URL);
+            await paginatedResponse(moxios);
+            const page = await request;
+
+            expect(moxios.requests.mostRecent().url).toContain(FUTURE_URL);
+            expect(page.items.length).toBe(2);
+            expect(bunqApp.ApiAdapter.RequestLimitFactory.getLimiter("/payment", "LIST")).toBeTruthy();
+        });
+    });
+});
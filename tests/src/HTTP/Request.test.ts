@@ -129,7 +129,6 @@ describe("Request", () => {
             expect(request.requestConfig).toHaveProperty("method");
             expect(request.requestConfig).toHaveProperty("data");
             expect(request.requestConfig).toHaveProperty("headers");
-            expect(request.requestConfig).toHaveProperty("transformResponse");
         });
     });
 });
@@ -0,0 +1,36 @@
+import * as moxios from "moxios";
+import AxiosTransport from "../../../../src/HTTP/Transports/AxiosTransport";
+
+describe("AxiosTransport", () => {
+    beforeEach(() => moxios.install());
+    afterEach(() => moxios.uninstall());
+
+    describe("#request()", () => {
+        it("should send the request with axios and return the raw response", async () => {
+            const transport = new AxiosTransport();
+
+            const request = transport.request({
+                url: "https://api.bunq.com/v1/user",
+                method: "GET",
+                headers: { "X-Bunq-Language": "en_US" },
+                params: { count: 10 }
+            });
+            await new Promise(resolve => {
+                moxios.wait(() => {
+                    moxios.requests.mostRecent().respondWith({
+                        status: 200,
+                        responseText: '{"Response":[]}',
+                        headers: { "content-type": "application/json" }
+                    });
+                    resolve();
+                });
+            });
+            const response = await request;
+
+            expect(moxios.requests.mostRecent().url).toBe("https://api.bunq.com/v1/user?count=10");
+            expect(response.status).toBe(200);
+            expect(response.headers).toEqual({ "content-type": "application/json" });
+            expect(response.data).toBe('{"Response":[]}');
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import BunqJSClient from "../../../../src/BunqJSClient";
+import FetchTransport from "../../../../src/HTTP/Transports/FetchTransport";
+import BunqNotFoundError from "../../../../src/Errors/BunqNotFoundError";
+
+import SetupApp from "../../../TestHelpers/SetupApp";
+
+const fetchResponse = (status: number, body: string, headers: any = { "Content-Type": "application/json" }) => ({
+    status: status,
+    statusText: "",
+    headers: {
+        forEach: callback => Object.keys(headers).forEach(key => callback(headers[key], key))
+    },
+    text: async () => body,
+    arrayBuffer: async () => new Uint8Array(body.split("").map(character => character.charCodeAt(0))).buffer
+});
+
+describe("FetchTransport", () => {
+    describe("#request()", () => {
+        it("should send the request with params and a json body", async () => {
+            const fetchMock = jest.fn().mockReturnValue(Promise.resolve(fetchResponse(200, '{"Response":[]}')));
+            const transport = new FetchTransport(fetchMock);
+
+            const response = await transport.request({
+                url: "https://api.bunq.com/v1/user/1/payment",
+                method: "POST",
+                headers: { "X-Bunq-Language": "en_US" },
+                data: { description: "Lunch" },
+                params: { count: 10 }
+            });
+
+            expect(fetchMock).toHaveBeenCalledWith("https://api.bunq.com/v1/user/1/payment?count=10", {
+                method: "POST",
+                headers: { "X-Bunq-Language": "en_US" },
+                body: '{"description":"Lunch"}'
+            });
+            expect(response).toEqual({
+                status: 200,
+                statusText: "",
+                headers: { "content-type": "application/json" },
+                data: '{"Response":[]}'
+            });
+        });
+
+        it("should return binary responses as an ArrayBuffer", async () => {
+            const transport = new FetchTransport(async () => fetchResponse(200, "binary"));
+
+            const response = await transport.request({
+                url: "https://api.bunq.com/v1/attachment-public/1/content",
+                method: "GET",
+                headers: {},
+                responseType: "arraybuffer"
+            });
+
+            expect(response.data).toBeInstanceOf(ArrayBuffer);
+            expect(response.data.byteLength).toBe(6);
+        });
+
+        it("should reject failed responses with the response", async () => {
+            const transport = new FetchTransport(async () => fetchResponse(404, '{"Error":[]}'));
+
+            try {
+                await transport.request({ url: "https://api.bunq.com/v1/user/1", method: "GET", headers: {} });
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.response.status).toBe(404);
+                expect(error.response.data).toBe('{"Error":[]}');
+            }
+        });
+
+        it("should reject network errors with the request set", async () => {
+            const transport = new FetchTransport(async () => {
+                throw new Error("Connection refused");
+            });
+
+            try {
+                await transport.request({ url: "https://api.bunq.com/v1/user/1", method: "GET", headers: {} });
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.message).toBe("Connection refused");
+                expect(error.request).toBeDefined();
+                expect(error.response).toBeUndefined();
+            }
+        });
+    });
+
+    describe("BunqJSClient#setHttpTransport()", () => {
+        it("should send the client requests through the transport", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            bunqApp.setRetryPolicy("GET", false);
+            const fetchMock = jest
+                .fn()
+                .mockReturnValue(
+                    Promise.resolve(fetchResponse(404, '{"Error":[{"error_description":"User not found."}]}'))
+                );
+            bunqApp.setHttpTransport(new FetchTransport(fetchMock));
+
+            try {
+                await bunqApp.api.user.get(1);
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqNotFoundError);
+            }
+            expect(fetchMock.mock.calls[0][0]).toBe("https://public-api.sandbox.bunq.com/v1/user/1");
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import BunqJSClient from "../../../src/BunqJSClient";
+import BunqSignatureError from "../../../src/Errors/BunqSignatureError";
+import { parseNotification } from "../../../src/HTTP/WebhookHandler";
+import { INVALID_CALLBACK_RECEIVED } from "../../../src/Helpers/ErrorCodes";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+import { createCallbackBody, signCallback } from "../../TestHelpers/Callbacks";
+
+describe("WebhookHandler", () => {
+    describe("#handle()", () => {
+        it("should dispatch a verified callback to the listeners", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const paymentListener = jest.fn();
+            const allListener = jest.fn();
+            const mutationListener = jest.fn();
+
+            bunqApp.webhooks.on("payment", paymentListener);
+            bunqApp.webhooks.on("*", allListener);
+            bunqApp.webhooks.on("mutation", mutationListener);
+
+            const body = createCallbackBody("PAYMENT", { Payment: { id: 5 } });
+            const event = await bunqApp.webhooks.handle(body, await signCallback(bunqApp, body));
+
+            expect(event.type).toBe("payment");
+            expect(event.object_type).toBe("Payment");
+            expect(event.type === "payment" && event.object.id).toBe(5);
+            expect(paymentListener).toHaveBeenCalledWith(event);
+            expect(allListener).toHaveBeenCalledWith(event);
+            expect(mutationListener).not.toHaveBeenCalled();
+        });
+
+        it("should reject a callback with an invalid signature", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const listener = jest.fn();
+            bunqApp.webhooks.on("*", listener);
+
+            const body = createCallbackBody();
+            const headers = await signCallback(bunqApp, body);
+
+            let caughtError = null;
+            try {
+                await bunqApp.webhooks.handle(createCallbackBody("MUTATION"), headers);
+            } catch (error) {
+                caughtError = error;
+            }
+
+            expect(caughtError).toBeInstanceOf(BunqSignatureError);
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it("should reject a callback without a signature", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            let caughtError = null;
+            try {
+                await bunqApp.webhooks.handle(createCallbackBody(), {});
+            } catch (error) {
+                caughtError = error;
+            }
+
+            expect(caughtError).toBeInstanceOf(BunqSignatureError);
+        });
+
+        it("should stop dispatching to removed listeners", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const listener = jest.fn();
+            bunqApp.webhooks.verifySignatures = false;
+
+            bunqApp.webhooks.on("payment", listener);
+            bunqApp.webhooks.off("payment", listener);
+            await bunqApp.webhooks.handle(createCallbackBody(), {});
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("parseNotification()", () => {
+        it("should map the categories onto event types", () => {
+            expect(parseNotification(createCallbackBody("MUTATION")).type).toBe("mutation");
+            expect(parseNotification(createCallbackBody("CARD_TRANSACTION_FAILED")).type).toBe("card_transaction");
+            expect(parseNotification(createCallbackBody("REQUEST")).type).toBe("request");
+            expect(parseNotification(createCallbackBody("SHARE")).type).toBe("share");
+            expect(parseNotification(createCallbackBody("BILLING")).type).toBe("unknown");
+        });
+
+        it("should throw an error for invalid bodies", () => {
+            expect.assertions(2);
+
+            ["invalid json", JSON.stringify({ Response: [] })].forEach(body => {
+                try {
+                    parseNotification(body);
+                } catch (error) {
+                    expect(error.errorCode).toBe(INVALID_CALLBACK_RECEIVED);
+                }
+            });
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import {
+    createIban,
+    isValidIban,
+    isValidEmail,
+    normalizePhoneNumber,
+    getCounterpartyAliasError,
+    validateCounterpartyAlias
+} from "../../../src/Helpers/AliasValidator";
+
+describe("AliasValidator", () => {
+    describe("#isValidIban()", () => {
+        it("should accept valid IBANs", () => {
+            expect(isValidIban("NL91ABNA0417164300")).toBeTruthy();
+            expect(isValidIban("nl91 abna 0417 1643 00")).toBeTruthy();
+            expect(isValidIban("GB82WEST12345698765432")).toBeTruthy();
+            expect(isValidIban("DE89370400440532013000")).toBeTruthy();
+        });
+
+        it("should reject invalid checksums and lengths", () => {
+            expect(isValidIban("NL92ABNA0417164300")).toBeFalsy();
+            expect(isValidIban("NL91ABNA041716430")).toBeFalsy();
+            expect(isValidIban("XX91ABNA0417164300")).toBeFalsy();
+            expect(isValidIban("not an iban")).toBeFalsy();
+        });
+    });
+
+    describe("#createIban()", () => {
+        it("should calculate the check digits", () => {
+            expect(createIban("NL", "ABNA0417164300")).toBe("NL91ABNA0417164300");
+            expect(isValidIban(createIban("NL", "BUNQ0000000001"))).toBeTruthy();
+        });
+    });
+
+    describe("#isValidEmail()", () => {
+        it("should validate the email syntax", () => {
+            expect(isValidEmail("bravo@bunq.com")).toBeTruthy();
+            expect(isValidEmail("bravo@bunq")).toBeFalsy();
+            expect(isValidEmail("bravo bunq.com")).toBeFalsy();
+        });
+    });
+
+    describe("#normalizePhoneNumber()", () => {
+        it("should turn phone numbers into the E.164 format", () => {
+            expect(normalizePhoneNumber("+31 6 1234 5678")).toBe("+31612345678");
+            expect(normalizePhoneNumber("0031-6-12345678")).toBe("+31612345678");
+            expect(normalizePhoneNumber("06 12345678", "31")).toBe("+31612345678");
+        });
+
+        it("should return false for numbers which can't be normalized", () => {
+            expect(normalizePhoneNumber("06 12345678")).toBe(false);
+            expect(normalizePhoneNumber("+31 6")).toBe(false);
+        });
+    });
+
+    describe("#validateCounterpartyAlias()", () => {
+        it("should throw for invalid aliases", () => {
+            expect(() =>
+                validateCounterpartyAlias({ type: "iban", value: "NL91ABNA0417164300", name: "Bravo" })
+            ).toThrow();
+            expect(() => validateCounterpartyAlias({ type: "IBAN", value: "NL91ABNA0417164300" })).toThrow();
+            expect(() => validateCounterpartyAlias([{ type: "PHONE_NUMBER", value: "0612345678" }])).toThrow();
+        });
+
+        it("should accept valid aliases", () => {
+            expect(getCounterpartyAliasError({ type: "IBAN", value: "NL91ABNA0417164300", name: "Bravo" })).toBe(false);
+            expect(getCounterpartyAliasError({ type: "EMAIL", value: "bravo@bunq.com" })).toBe(false);
+            expect(getCounterpartyAliasError({ type: "PHONE_NUMBER", value: "+31612345678" })).toBe(false);
+        });
+    });
+});
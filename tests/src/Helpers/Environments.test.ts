@@ -0,0 +1,84 @@
+import {
+    ALLOWED_ENVIROMENTS,
+    ENVIRONMENTS,
+    getEnvironment,
+    getOAuthEnvironment,
+    registerEnvironment,
+    URL_ENVIROMENTS
+} from "../../../src/Helpers/Environments";
+import Session from "../../../src/Session";
+import Logger from "../../../src/Helpers/Logger";
+import CustomDb from "../../TestHelpers/CustomDb";
+import { randomHex } from "../../TestHelpers/RandomData";
+
+describe("Environments", () => {
+    describe("#registerEnvironment()", () => {
+        it("should register an environment with the defaults of the sandbox", () => {
+            const environment = registerEnvironment("LOCAL_MOCK", {
+                api_url: "http://localhost:4010/",
+                sandbox: true
+            });
+
+            expect(environment).toEqual({
+                ...ENVIRONMENTS.SANDBOX,
+                api_url: "http://localhost:4010",
+                sandbox: true
+            });
+            expect(ALLOWED_ENVIROMENTS).toContain("LOCAL_MOCK");
+            expect(URL_ENVIROMENTS.LOCAL_MOCK).toBe("http://localhost:4010");
+        });
+
+        it("should use the defaults of production without the sandbox flag", () => {
+            const environment = registerEnvironment("PRODUCTION_PROXY", {
+                api_url: "https://bunq-proxy.example.com",
+                oauth_token_url: "https://bunq-proxy.example.com/oauth/token"
+            });
+
+            expect(environment.sandbox).toBe(false);
+            expect(environment.oauth_authorize_url).toBe(ENVIRONMENTS.PRODUCTION.oauth_authorize_url);
+            expect(environment.oauth_token_url).toBe("https://bunq-proxy.example.com/oauth/token");
+        });
+
+        it("should overwrite an existing environment", () => {
+            registerEnvironment("OVERWRITTEN", { api_url: "http://localhost:4010" });
+            registerEnvironment("OVERWRITTEN", { api_url: "http://localhost:4020" });
+
+            expect(getEnvironment("OVERWRITTEN").api_url).toBe("http://localhost:4020");
+            expect(ALLOWED_ENVIROMENTS.filter(name => name === "OVERWRITTEN").length).toBe(1);
+        });
+
+        it("should throw an error without an api url", () => {
+            expect(() => registerEnvironment("NO_URL", { sandbox: true })).toThrow(
+                "No api_url given for environment NO_URL"
+            );
+        });
+    });
+
+    describe("#getEnvironment()", () => {
+        it("should throw an error for unknown environments", () => {
+            expect(() => getEnvironment("UNKNOWN")).toThrow("Invalid enviroment given.");
+        });
+    });
+
+    describe("#getOAuthEnvironment()", () => {
+        it("should accept a sandbox flag or an environment name", () => {
+            registerEnvironment("OAUTH_PROXY", { api_url: "http://localhost:4010" });
+
+            expect(getOAuthEnvironment(true)).toBe(ENVIRONMENTS.SANDBOX);
+            expect(getOAuthEnvironment(false)).toBe(ENVIRONMENTS.PRODUCTION);
+            expect(getOAuthEnvironment("OAUTH_PROXY")).toBe(ENVIRONMENTS.OAUTH_PROXY);
+        });
+    });
+
+    describe("Session", () => {
+        it("should use the url and a separate storage key for a registered environment", () => {
+            registerEnvironment("SESSION_MOCK", { api_url: "http://localhost:4010", sandbox: true });
+            const session = new Session(new CustomDb(randomHex(32)), Logger);
+
+            session.environmentType = "SESSION_MOCK";
+
+            expect(session.environmentUrl).toBe("http://localhost:4010");
+            expect(session.storageKeyLocation).toContain("BUNQJSCLIENT_SESSION_MOCK_SESSION_");
+        });
+    });
+});
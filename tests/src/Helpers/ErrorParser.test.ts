@@ -0,0 +1,119 @@
+import * as moxios from "moxios";
+
+import BunqJSClient from "../../../src/BunqJSClient";
+import BunqApiError from "../../../src/Errors/BunqApiError";
+import BunqAuthenticationError from "../../../src/Errors/BunqAuthenticationError";
+import BunqNotFoundError from "../../../src/Errors/BunqNotFoundError";
+import BunqRateLimitError from "../../../src/Errors/BunqRateLimitError";
+import BunqServerError from "../../../src/Errors/BunqServerError";
+import BunqSignatureError from "../../../src/Errors/BunqSignatureError";
+import BunqValidationError from "../../../src/Errors/BunqValidationError";
+import CustomError from "../../../src/Interfaces/CustomError";
+import { parseRequestError } from "../../../src/Helpers/ErrorParser";
+import { INSTALLATION_HAS_SESSION } from "../../../src/Helpers/ErrorCodes";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+
+const axiosError = (status: number, descriptions: string[], headers: any = {}) => {
+    const error: any = new Error(`Request failed with status code ${status}`);
+    error.response = {
+        status: status,
+        headers: headers,
+        data: JSON.stringify({
+            Error: descriptions.map(description => ({
+                error_description: description,
+                error_description_translated: `translated ${description}`
+            }))
+        })
+    };
+    return error;
+};
+
+describe("ErrorParser", () => {
+    describe("#parseRequestError()", () => {
+        it("should pick the error class based on the status", () => {
+            expect(parseRequestError(axiosError(400, ["Invalid"]), "/v1/user", "GET")).toBeInstanceOf(
+                BunqValidationError
+            );
+            expect(parseRequestError(axiosError(401, ["Denied"]), "/v1/user", "GET")).toBeInstanceOf(
+                BunqAuthenticationError
+            );
+            expect(parseRequestError(axiosError(404, ["Missing"]), "/v1/user", "GET")).toBeInstanceOf(
+                BunqNotFoundError
+            );
+            expect(parseRequestError(axiosError(429, ["Too many"]), "/v1/user", "GET")).toBeInstanceOf(
+                BunqRateLimitError
+            );
+            expect(parseRequestError(axiosError(503, ["Down"]), "/v1/user", "GET")).toBeInstanceOf(BunqServerError);
+            expect(parseRequestError(axiosError(409, ["Conflict"]), "/v1/user", "GET")).toBeInstanceOf(BunqApiError);
+            expect(
+                parseRequestError(axiosError(400, ["The request signature is invalid."]), "/v1/user", "GET")
+            ).toBeInstanceOf(BunqSignatureError);
+        });
+
+        it("should include the error details", () => {
+            const error: any = parseRequestError(
+                axiosError(429, ["Too many requests", "Slow down"], {
+                    "x-bunq-client-response-id": "response-id",
+                    "retry-after": "3"
+                }),
+                "/v1/user/1/monetary-account/2/payment",
+                "POST"
+            );
+
+            expect(error).toBeInstanceOf(CustomError);
+            expect(error.status).toBe(429);
+            expect(error.responseId).toBe("response-id");
+            expect(error.errorDescriptions).toEqual(["Too many requests", "Slow down"]);
+            expect(error.errorDescriptionsTranslated[0]).toBe("translated Too many requests");
+            expect(error.endpoint).toBe("/v1/user/1/monetary-account/2/payment");
+            expect(error.method).toBe("POST");
+            expect(error.retryAfter).toBe(3);
+            expect(error.response.data.Error.length).toBe(2);
+        });
+
+        it("should set the error code when the installation already has a session", () => {
+            const error: any = parseRequestError(
+                axiosError(400, ["Authentication token already has a user session."]),
+                "/v1/session-server",
+                "POST"
+            );
+
+            expect(error.errorCode).toBe(INSTALLATION_HAS_SESSION);
+        });
+
+        it("should return errors without a response as is", () => {
+            const error = new Error("Network Error");
+
+            expect(parseRequestError(error, "/v1/user", "GET")).toBe(error);
+        });
+    });
+
+    describe("ApiAdapter", () => {
+        beforeEach(() => moxios.install());
+        afterEach(() => moxios.uninstall());
+
+        it("should reject with a typed error", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            moxios.wait(() => {
+                moxios.requests.mostRecent().respondWith({
+                    status: 404,
+                    response: { Error: [{ error_description: "Payment not found." }] }
+                });
+            });
+
+            let error = null;
+            try {
+                await bunqApp.api.payment.get(1, 2, 3);
+            } catch (exception) {
+                error = exception;
+            }
+
+            expect(error).toBeInstanceOf(BunqNotFoundError);
+            expect(error.endpoint).toBe("/v1/user/1/monetary-account/2/payment/3");
+            expect(error.method).toBe("GET");
+            expect(error.errorDescriptions).toEqual(["Payment not found."]);
+        });
+    });
+});
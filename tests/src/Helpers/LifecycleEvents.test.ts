@@ -0,0 +1,56 @@
+import LifecycleEvents from "../../../src/Helpers/LifecycleEvents";
+
+const loggerMock: any = {
+    log: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+};
+
+describe("LifecycleEvents", () => {
+    describe("#emit()", () => {
+        it("should call the listeners for the type and all events", () => {
+            const lifecycleEvents = new LifecycleEvents(loggerMock);
+            const typeListener = jest.fn();
+            const allListener = jest.fn();
+            const otherListener = jest.fn();
+            lifecycleEvents.on("deviceRegistered", typeListener);
+            lifecycleEvents.on("*", allListener);
+            lifecycleEvents.on("sessionCreated", otherListener);
+
+            const event: any = { type: "deviceRegistered", environment: "SANDBOX", device_id: 1 };
+            lifecycleEvents.emit(event);
+
+            expect(typeListener).toHaveBeenCalledWith(event);
+            expect(allListener).toHaveBeenCalledWith(event);
+            expect(otherListener).not.toHaveBeenCalled();
+        });
+
+        it("should not call removed listeners", () => {
+            const lifecycleEvents = new LifecycleEvents(loggerMock);
+            const listener = jest.fn();
+            lifecycleEvents.on("sessionExpired", listener).off("sessionExpired", listener);
+
+            lifecycleEvents.emit({ type: "sessionExpired", environment: "SANDBOX", expiry_time: new Date() });
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it("should log listeners which throw or reject", async () => {
+            const logger: any = { error: jest.fn() };
+            const lifecycleEvents = new LifecycleEvents(logger);
+            const nextListener = jest.fn();
+            lifecycleEvents.on("keepAliveFailed", () => {
+                throw new Error("failed");
+            });
+            lifecycleEvents.on("keepAliveFailed", () => Promise.reject(new Error("rejected")));
+            lifecycleEvents.on("keepAliveFailed", nextListener);
+
+            lifecycleEvents.emit({ type: "keepAliveFailed", environment: "SANDBOX", error: new Error("timeout") });
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            expect(nextListener).toHaveBeenCalled();
+            expect(logger.error).toHaveBeenCalledWith("Lifecycle listener for keepAliveFailed failed");
+            expect(logger.error.mock.calls.length).toBe(4);
+        });
+    });
+});
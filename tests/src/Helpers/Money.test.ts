@@ -0,0 +1,95 @@
+import Money, { toAmount, toAmountValue } from "../../../src/Helpers/Money";
+
+describe("Money", () => {
+    describe("#fromValue()", () => {
+        it("should parse values with up to two decimals", () => {
+            expect(Money.fromValue("12.5").cents).toBe(1250);
+            expect(Money.fromValue("12.50").cents).toBe(1250);
+            expect(Money.fromValue("-0.99").cents).toBe(-99);
+            expect(Money.fromValue("12").cents).toBe(1200);
+            expect(Money.fromValue(1.005).cents).toBe(101);
+            expect(Money.fromValue(0.1 + 0.2).cents).toBe(30);
+        });
+
+        it("should reject invalid values", () => {
+            expect(() => Money.fromValue("12.505")).toThrow();
+            expect(() => Money.fromValue("abc")).toThrow();
+            expect(() => Money.fromValue(NaN)).toThrow();
+            expect(() => Money.fromValue("12.50", "EURO")).toThrow();
+        });
+    });
+
+    describe("#parse()", () => {
+        it("should parse formatted amounts", () => {
+            expect(Money.parse("€ 1.234,56").toAmount()).toEqual({ value: "1234.56", currency: "EUR" });
+            expect(Money.parse("1,234.56 USD").toAmount()).toEqual({ value: "1234.56", currency: "USD" });
+            expect(Money.parse("-£12").toAmount()).toEqual({ value: "-12.00", currency: "GBP" });
+            expect(Money.parse("1.234", "EUR").toValue()).toBe("1234.00");
+        });
+
+        it("should throw when no amount is found", () => {
+            expect(() => Money.parse("EUR")).toThrow();
+        });
+    });
+
+    describe("#isValidValue()", () => {
+        it("should only accept the bunq two-decimal format", () => {
+            expect(Money.isValidValue("12.50")).toBeTruthy();
+            expect(Money.isValidValue("-0.01")).toBeTruthy();
+            expect(Money.isValidValue("12.5")).toBeFalsy();
+            expect(Money.isValidValue("12")).toBeFalsy();
+            expect(Money.isValidValue(12.5)).toBeFalsy();
+        });
+    });
+
+    describe("arithmetic", () => {
+        it("should add, subtract and compare exactly", () => {
+            const total = Money.fromValue("0.10").add(Money.fromValue("0.20"));
+
+            expect(total.toValue()).toBe("0.30");
+            expect(total.subtract({ value: "0.50", currency: "EUR" }).toValue()).toBe("-0.20");
+            expect(total.compare(Money.fromValue("0.30"))).toBe(0);
+            expect(total.greaterThan(Money.fromValue("0.29"))).toBeTruthy();
+            expect(total.lessThan(Money.fromValue("0.29"))).toBeFalsy();
+            expect(Money.sum([{ value: "0.10", currency: "EUR" }, Money.fromValue("0.20")]).toValue()).toBe("0.30");
+        });
+
+        it("should not combine different currencies", () => {
+            expect(() => Money.fromValue("1.00", "EUR").add(Money.fromValue("1.00", "USD"))).toThrow();
+        });
+    });
+
+    describe("#split() and #allocate()", () => {
+        it("should split without losing cents", () => {
+            const parts = Money.fromValue("10.00").split(3);
+
+            expect(parts.map(part => part.toValue())).toEqual(["3.34", "3.33", "3.33"]);
+            expect(Money.sum(parts).toValue()).toBe("10.00");
+        });
+
+        it("should allocate based on ratios", () => {
+            expect(
+                Money.fromValue("10.00")
+                    .allocate([1, 1, 2])
+                    .map(part => part.toValue())
+            ).toEqual(["2.50", "2.50", "5.00"]);
+            expect(
+                Money.fromValue("-0.05")
+                    .allocate([1, 0, 1])
+                    .map(part => part.toValue())
+            ).toEqual(["-0.03", "0.00", "-0.02"]);
+            expect(() => Money.fromValue("1.00").allocate([])).toThrow();
+        });
+    });
+
+    describe("formatting", () => {
+        it("should format and serialize the amount", () => {
+            const money = Money.fromValue("1234.5");
+
+            expect(money.format("en-US")).toBe("€1,234.50");
+            expect(JSON.stringify({ amount: money })).toBe('{"amount":{"value":"1234.50","currency":"EUR"}}');
+            expect(toAmount({ value: "5", currency: "EUR" })).toEqual({ value: "5.00", currency: "EUR" });
+            expect(toAmountValue(7.5)).toBe("7.50");
+        });
+    });
+});
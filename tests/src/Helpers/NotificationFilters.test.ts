@@ -0,0 +1,51 @@
+import {
+    getNotificationFilters,
+    mergeNotificationFilters,
+    removeNotificationFilters
+} from "../../../src/Helpers/NotificationFilters";
+
+describe("NotificationFilters", () => {
+    describe("getNotificationFilters()", () => {
+        it("should unwrap the list items", () => {
+            const filters = getNotificationFilters([
+                { NotificationFilterUrl: { id: 1, category: "PAYMENT", notification_target: "https://example.com" } },
+                { NotificationFilterPush: { id: 2, category: "MUTATION" } }
+            ]);
+
+            expect(filters).toEqual([
+                { category: "PAYMENT", notification_target: "https://example.com" },
+                { category: "MUTATION" }
+            ]);
+        });
+    });
+
+    describe("mergeNotificationFilters()", () => {
+        it("should skip duplicate filters", () => {
+            const filters = mergeNotificationFilters(
+                [{ category: "PAYMENT", notification_target: "https://example.com/a" }],
+                [
+                    { category: "PAYMENT", notification_target: "https://example.com/a" },
+                    { category: "PAYMENT", notification_target: "https://example.com/b" }
+                ]
+            );
+
+            expect(filters.length).toBe(2);
+        });
+    });
+
+    describe("removeNotificationFilters()", () => {
+        it("should only remove the matching target", () => {
+            const existingFilters: any[] = [
+                { category: "PAYMENT", notification_target: "https://example.com/a" },
+                { category: "PAYMENT", notification_target: "https://example.com/b" }
+            ];
+
+            expect(
+                removeNotificationFilters(existingFilters, [
+                    { category: "PAYMENT", notification_target: "https://example.com/a" }
+                ])
+            ).toEqual([{ category: "PAYMENT", notification_target: "https://example.com/b" }]);
+            expect(removeNotificationFilters(existingFilters, [{ category: "PAYMENT" }])).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+import { paginate, collectAll, getItemObject, parseItemDate } from "../../../src/Helpers/Paginator";
+
+/**
+ * Creates a fake list endpoint with payments ranging from id 1 up to the given amount
+ * @param {number} amount
+ * @returns {{fetchPage: (options) => Promise<any[]>; calls: any[]}}
+ */
+const createFakeEndpoint = (amount: number) => {
+    const calls = [];
+    const items = [];
+    for (let id = amount; id > 0; id--) {
+        items.push({
+            Payment: {
+                id: id,
+                created: `2018-01-${id < 10 ? `0${id}` : id} 12:00:00.000000`
+            }
+        });
+    }
+
+    const fetchPage = async options => {
+        calls.push(options);
+
+        let filtered = items;
+        if (options.older_id) {
+            filtered = items.filter(item => item.Payment.id < options.older_id);
+        } else if (options.newer_id) {
+            filtered = items.filter(item => item.Payment.id > options.newer_id);
+            // bunq returns the items directly after the newer_id cursor
+            filtered = filtered.slice(Math.max(filtered.length - options.count, 0));
+        }
+
+        return filtered.slice(0, options.count);
+    };
+
+    return { fetchPage, calls };
+};
+
+const getIds = items => items.map(item => item.Payment.id);
+
+describe("Paginator", () => {
+    describe("#paginate()", () => {
+        it("should walk through all pages towards older items", async () => {
+            const { fetchPage, calls } = createFakeEndpoint(25);
+
+            const items = await collectAll(paginate(fetchPage, { count: 10 }));
+
+            expect(items.length).toBe(25);
+            expect(getIds(items)[0]).toBe(25);
+            expect(getIds(items)[24]).toBe(1);
+            expect(calls.length).toBe(3);
+            expect(calls[1].older_id).toBe(16);
+        });
+
+        it("should walk through all pages towards newer items", async () => {
+            const { fetchPage } = createFakeEndpoint(25);
+
+            const items = await collectAll(paginate(fetchPage, { count: 10, direction: "newer", newer_id: 3 }));
+
+            // ids 4 up to 25 in ascending order
+            expect(getIds(items)).toEqual(Array.from(Array(22).keys()).map(index => index + 4));
+        });
+
+        it("should stop after max_items", async () => {
+            const { fetchPage, calls } = createFakeEndpoint(25);
+
+            const items = await collectAll(paginate(fetchPage, { count: 10, max_items: 12 }));
+
+            expect(items.length).toBe(12);
+            expect(calls.length).toBe(2);
+        });
+
+        it("should stop at the id cutoff", async () => {
+            const { fetchPage } = createFakeEndpoint(25);
+
+            const items = await collectAll(paginate(fetchPage, { count: 10, id_cutoff: 20 }));
+
+            expect(getIds(items)).toEqual([25, 24, 23, 22, 21]);
+        });
+
+        it("should stop at the date cutoff", async () => {
+            const { fetchPage } = createFakeEndpoint(25);
+
+            const items = await collectAll(paginate(fetchPage, { count: 10, date_cutoff: "2018-01-22 00:00:00" }));
+
+            expect(getIds(items)).toEqual([25, 24, 23, 22]);
+        });
+
+        it("should stop on an empty page", async () => {
+            const { fetchPage, calls } = createFakeEndpoint(0);
+
+            const items = await collectAll(paginate(fetchPage));
+
+            expect(items.length).toBe(0);
+            expect(calls.length).toBe(1);
+        });
+    });
+
+    describe("#getItemObject()", () => {
+        it("should return the wrapped object", () => {
+            expect(getItemObject({ Payment: { id: 1 } })).toEqual({ id: 1 });
+            expect(getItemObject({ id: 2 })).toEqual({ id: 2 });
+            expect(getItemObject({})).toEqual({});
+            expect(getItemObject(null)).toEqual({});
+        });
+    });
+
+    describe("#parseItemDate()", () => {
+        it("should parse bunq dates as UTC", () => {
+            expect(parseItemDate("2018-01-01 12:00:00.000000").toISOString()).toBe("2018-01-01T12:00:00.000Z");
+            expect(parseItemDate("2018-01-01T12:00:00.000Z").toISOString()).toBe("2018-01-01T12:00:00.000Z");
+        });
+    });
+});
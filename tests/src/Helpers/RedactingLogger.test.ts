@@ -0,0 +1,55 @@
+import BunqJSClient from "../../../src/BunqJSClient";
+import RedactingLogger from "../../../src/Helpers/RedactingLogger";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+
+const TOKEN = "a4f9d888eea84f52722b9baf2f17c289d549edf6e0eccdbf868eb922be306fb6";
+
+const createLogger = (): any => ({
+    log: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    trace: jest.fn()
+});
+
+describe("RedactingLogger", () => {
+    it("should redact values before passing them to the logger", () => {
+        const logger = createLogger();
+        const redactingLogger = new RedactingLogger(logger);
+
+        redactingLogger.debug(`installToken ${TOKEN}`);
+        redactingLogger.info({ secret: "api-key" });
+
+        expect(logger.debug).toHaveBeenCalledWith("installToken [REDACTED]");
+        expect(logger.info).toHaveBeenCalledWith({ secret: "[REDACTED]" });
+    });
+
+    it("should allow redaction to be changed or disabled", () => {
+        const logger = createLogger();
+        const redactingLogger = new RedactingLogger(logger);
+
+        redactingLogger.setOptions({ mask: "***" });
+        redactingLogger.log({ token: "value" });
+        redactingLogger.setOptions(false);
+        redactingLogger.log({ token: "value" });
+
+        expect(logger.log).toHaveBeenCalledWith({ token: "***" });
+        expect(logger.log).toHaveBeenLastCalledWith({ token: "value" });
+    });
+
+    it("should redact errors logged by the session expiry timer", async () => {
+        const bunqApp: BunqJSClient = await SetupApp();
+        const error = new Error(`Failed with session token ${TOKEN}`);
+        bunqApp.getUsers = jest.fn().mockReturnValue(Promise.reject(error));
+
+        (bunqApp as any).expiryTimerCallback();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        bunqApp.clearExpiryTimer();
+
+        const loggerMock: any = bunqApp.logger.logger;
+        const loggedError = loggerMock.error.mock.calls[0][0];
+        expect(loggedError).toBeInstanceOf(Error);
+        expect(loggedError.message).toBe("Failed with session token [REDACTED]");
+    });
+});
@@ -0,0 +1,176 @@
+import * as moxios from "moxios";
+
+import BunqJSClient from "../../../src/BunqJSClient";
+import FakeClock from "../../../src/Testing/FakeClock";
+import { DEFAULT_RETRY_POLICY, getRetryAfter, getRetryDelay } from "../../../src/Helpers/Retry";
+
+import SetupApp from "../../TestHelpers/SetupApp";
+
+const NO_JITTER_POLICY = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+/**
+ * Responds to the next request without waiting for the request promise to be settled
+ */
+const respond = (moxios, status: number, response: any = {}, headers: any = {}): Promise<any> => {
+    return new Promise(resolve => {
+        moxios.wait(() => {
+            const request = moxios.requests.mostRecent();
+            request.respondWith({
+                status: status,
+                response: response,
+                headers: { "Content-Type": "application/json", ...headers }
+            });
+            resolve(request);
+        });
+    });
+};
+
+describe("Retry", () => {
+    describe("#getRetryDelay()", () => {
+        it("should use exponential backoff", () => {
+            const error = { response: { status: 503, headers: {} } };
+
+            expect(getRetryDelay(error, 1, NO_JITTER_POLICY)).toBe(1000);
+            expect(getRetryDelay(error, 2, NO_JITTER_POLICY)).toBe(2000);
+            expect(getRetryDelay(error, 3, NO_JITTER_POLICY)).toBe(false);
+            expect(getRetryDelay(error, 2, { ...NO_JITTER_POLICY, max_attempts: 10, max_delay: 1500 })).toBe(1500);
+        });
+
+        it("should apply jitter within the calculated delay", () => {
+            const retryDelay = getRetryDelay({ response: { status: 429 } }, 1, DEFAULT_RETRY_POLICY);
+
+            expect(retryDelay).toBeGreaterThanOrEqual(500);
+            expect(retryDelay).toBeLessThanOrEqual(1000);
+        });
+
+        it("should honor the Retry-After header", () => {
+            const error = { response: { status: 429, headers: { "retry-after": "4" } } };
+
+            expect(getRetryDelay(error, 1, NO_JITTER_POLICY)).toBe(4000);
+            expect(getRetryDelay(error, 1, { ...NO_JITTER_POLICY, respect_retry_after: false })).toBe(1000);
+        });
+
+        it("should not retry when Retry-After is longer than the max delay", () => {
+            const error = { response: { status: 429, headers: { "retry-after": "60" } } };
+
+            expect(getRetryDelay(error, 1, NO_JITTER_POLICY)).toBe(false);
+            expect(getRetryDelay(error, 1, { ...NO_JITTER_POLICY, max_delay: 60000 })).toBe(60000);
+            expect(getRetryDelay(error, 1, { ...NO_JITTER_POLICY, respect_retry_after: false })).toBe(1000);
+        });
+
+        it("should not retry other errors", () => {
+            expect(getRetryDelay({ response: { status: 400 } }, 1, NO_JITTER_POLICY)).toBe(false);
+            expect(getRetryDelay(new Error("Invalid input"), 1, NO_JITTER_POLICY)).toBe(false);
+            expect(getRetryDelay({ response: { status: 503 } }, 1, false)).toBe(false);
+            expect(getRetryDelay({ request: {} }, 1, NO_JITTER_POLICY)).toBe(1000);
+            expect(getRetryDelay({ request: {} }, 1, { ...NO_JITTER_POLICY, retry_network_errors: false })).toBe(false);
+        });
+    });
+
+    describe("#getRetryAfter()", () => {
+        it("should parse seconds and dates", () => {
+            expect(getRetryAfter({ "Retry-After": "2" })).toBe(2000);
+            expect(getRetryAfter({ "retry-after": new Date(Date.now() - 1000).toUTCString() })).toBe(0);
+            expect(getRetryAfter({ "retry-after": "soon" })).toBe(false);
+            expect(getRetryAfter({})).toBe(false);
+        });
+
+        it("should compare dates with the given clock", () => {
+            const clock = new FakeClock(Date.UTC(2020, 0, 1));
+            const retryDate = new Date(clock.now() + 5000).toUTCString();
+
+            expect(getRetryAfter({ "retry-after": retryDate }, clock)).toBe(5000);
+        });
+    });
+
+    describe("ApiAdapter", () => {
+        beforeEach(() => moxios.install());
+        afterEach(() => moxios.uninstall());
+
+        it("should retry a rate limited request with a new request id", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            bunqApp.setRetryPolicy("GET", { base_delay: 5, jitter: 0 });
+
+            const request = bunqApp.api.user.get(1);
+            const firstRequest = await respond(moxios, 429, { Error: [{ error_description: "Too many requests" }] });
+            const secondRequest = await respond(moxios, 200, { Response: [{ UserPerson: { id: 1 } }] });
+            const response: any = await request;
+
+            expect(response.UserPerson.id).toBe(1);
+            expect(firstRequest.headers["X-Bunq-Client-Request-Id"]).not.toBe(
+                secondRequest.headers["X-Bunq-Client-Request-Id"]
+            );
+        });
+
+        it("should wait with the client clock and count each attempt in the request limiter", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            const clock = new FakeClock();
+            bunqApp.Session.sessionExpiryTime = new Date(clock.now() + 60 * 60 * 1000);
+            bunqApp.setClock(clock);
+            bunqApp.setRetryPolicy("GET", { jitter: 0 });
+            const limiter: any = bunqApp.ApiAdapter.RequestLimitFactory.create("/user", "GET");
+
+            const request = bunqApp.api.user.get(1);
+            await respond(moxios, 429, { Error: [{ error_description: "Too many requests" }] }, { "retry-after": "2" });
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            expect(moxios.requests.count()).toBe(1);
+            clock.tick(2000);
+            await respond(moxios, 200, { Response: [{ UserPerson: { id: 1 } }] });
+            const response: any = await request;
+
+            expect(response.UserPerson.id).toBe(1);
+            expect(moxios.requests.count()).toBe(2);
+            expect(limiter.requests).toBe(2);
+        });
+
+        it("should fail when the server asks to wait longer than the max delay", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+            bunqApp.setRetryPolicy("GET", { base_delay: 5, max_delay: 1000, jitter: 0 });
+
+            const request = bunqApp.api.user.get(1);
+            await respond(
+                moxios,
+                429,
+                { Error: [{ error_description: "Too many requests" }] },
+                { "retry-after": "30" }
+            );
+
+            let error = null;
+            try {
+                await request;
+            } catch (exception) {
+                error = exception;
+            }
+
+            expect(error.status).toBe(429);
+            expect(moxios.requests.count()).toBe(1);
+        });
+
+        it("should not retry POST requests by default", async () => {
+            const bunqApp: BunqJSClient = await SetupApp();
+
+            const request = bunqApp.api.payment.post(
+                1,
+                2,
+                "description",
+                { value: "1.00", currency: "EUR" },
+                {
+                    type: "EMAIL",
+                    value: "mail@example.com"
+                }
+            );
+            await respond(moxios, 503, { Error: [{ error_description: "Service unavailable" }] });
+
+            let error = null;
+            try {
+                await request;
+            } catch (exception) {
+                error = exception;
+            }
+
+            expect(error.status).toBe(503);
+            expect(moxios.requests.count()).toBe(1);
+        });
+    });
+});
@@ -1,4 +1,5 @@
-import { ucfirst, fixHeaderCase } from "../../../src/Helpers/Utils";
+import { ucfirst, fixHeaderCase, unwrapObject } from "../../../src/Helpers/Utils";
+import { MonetaryAccountResponse } from "../../../src/Types/MonetaryAccount";
 
 describe("Util", () => {
     describe("#ucFirst()", () => {
@@ -22,4 +23,31 @@ describe("Util", () => {
             expect(fixHeaderCase(badHeader)).toBe(goodHeader);
         });
     });
+
+    describe("#unwrapObject()", () => {
+        it("should return the inner object with the wrapper key as objectType", () => {
+            const wrapped: any = {
+                MonetaryAccountSavings: { id: 5, savings_goal: { value: "100.00", currency: "EUR" } }
+            };
+            const monetaryAccount = unwrapObject(wrapped as MonetaryAccountResponse);
+
+            expect(monetaryAccount.objectType).toBe("MonetaryAccountSavings");
+            expect(monetaryAccount.id).toBe(5);
+            if (monetaryAccount.objectType === "MonetaryAccountSavings") {
+                expect(monetaryAccount.savings_goal.value).toBe("100.00");
+            }
+        });
+
+        it("should leave out the wrapper keys of the other objects", () => {
+            const wrapped: MonetaryAccountResponse = <any>{ MonetaryAccountBank: { id: 3, description: "Bank" } };
+            const monetaryAccount = unwrapObject(wrapped);
+
+            // the wrapper types can also be checked directly
+            const bankOrJoint = wrapped.MonetaryAccountBank || wrapped.MonetaryAccountJoint;
+            expect(bankOrJoint.description).toBe("Bank");
+            expect(wrapped.MonetaryAccountSavings).toBeUndefined();
+            expect(monetaryAccount.objectType).toBe("MonetaryAccountBank");
+            expect(Object.keys(monetaryAccount)).toEqual(["id", "description", "objectType"]);
+        });
+    });
 });
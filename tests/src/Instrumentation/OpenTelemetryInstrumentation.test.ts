@@ -0,0 +1,63 @@
+import OpenTelemetryInstrumentation from "../../../src/Instrumentation/OpenTelemetryInstrumentation";
+import RequestEvent from "../../../src/Types/RequestEvent";
+
+const createEvent = (values: Partial<RequestEvent> = {}): RequestEvent => ({
+    requestId: "request-id",
+    endpoint: "/v1/user/{id}",
+    url: "/v1/user/1",
+    method: "GET",
+    attempt: 1,
+    startTime: 1000,
+    queueDuration: 0,
+    duration: 0,
+    status: null,
+    requestBytes: 0,
+    responseBytes: 0,
+    responseId: null,
+    error: null,
+    verificationFailed: false,
+    ...values
+});
+
+const createTracer = () => {
+    const span = { setAttribute: jest.fn(), setStatus: jest.fn(), end: jest.fn() };
+    return { span: span, startSpan: jest.fn().mockReturnValue(span) };
+};
+
+describe("OpenTelemetryInstrumentation", () => {
+    it("should start and end a client span for a request", () => {
+        const tracer = createTracer();
+        const instrumentation = new OpenTelemetryInstrumentation(tracer);
+
+        instrumentation.requestStarted(createEvent());
+        instrumentation.requestFinished(createEvent({ status: 200, duration: 250, responseId: "response-id" }));
+
+        expect(tracer.startSpan).toHaveBeenCalledWith("bunq GET /v1/user/{id}", {
+            kind: 2,
+            startTime: 1000,
+            attributes: {
+                "http.method": "GET",
+                "http.route": "/v1/user/{id}",
+                "bunq.request_id": "request-id",
+                "bunq.attempt": 1,
+                "bunq.queue_duration_ms": 0
+            }
+        });
+        expect(tracer.span.setAttribute).toHaveBeenCalledWith("http.status_code", 200);
+        expect(tracer.span.setAttribute).toHaveBeenCalledWith("bunq.response_id", "response-id");
+        expect(tracer.span.setStatus).toHaveBeenCalledWith({ code: 1 });
+        expect(tracer.span.end).toHaveBeenCalledWith(1250);
+    });
+
+    it("should mark failed requests as errors", () => {
+        const tracer = createTracer();
+        const instrumentation = new OpenTelemetryInstrumentation(tracer);
+
+        instrumentation.requestStarted(createEvent());
+        instrumentation.requestFinished(createEvent({ error: new Error("Network Error") }));
+        instrumentation.requestFinished(createEvent({ error: new Error("Network Error") }));
+
+        expect(tracer.span.setStatus).toHaveBeenCalledWith({ code: 2, message: "Network Error" });
+        expect(tracer.span.end).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,68 @@
+import PrometheusCollector from "../../../src/Instrumentation/PrometheusCollector";
+import RequestEvent from "../../../src/Types/RequestEvent";
+
+const createEvent = (values: Partial<RequestEvent> = {}): RequestEvent => ({
+    requestId: "request-id",
+    endpoint: "/v1/user/{id}/monetary-account",
+    url: "/v1/user/1/monetary-account",
+    method: "GET",
+    attempt: 1,
+    startTime: Date.now(),
+    queueDuration: 20,
+    duration: 300,
+    status: 200,
+    requestBytes: 0,
+    responseBytes: 120,
+    responseId: "response-id",
+    error: null,
+    verificationFailed: false,
+    ...values
+});
+
+describe("PrometheusCollector", () => {
+    it("should count requests and observe durations", () => {
+        const collector = new PrometheusCollector("bunq", [0.1, 0.5]);
+        collector.requestFinished(createEvent());
+        collector.requestFinished(createEvent({ duration: 50, attempt: 2 }));
+
+        const metrics = collector.metrics();
+        const labels = 'method="GET",endpoint="/v1/user/{id}/monetary-account"';
+
+        expect(metrics).toContain("# TYPE bunq_requests_total counter");
+        expect(metrics).toContain(`bunq_requests_total{${labels},status="200"} 2`);
+        expect(metrics).toContain(`bunq_request_retries_total{${labels}} 1`);
+        expect(metrics).toContain(`bunq_response_bytes_total{${labels}} 240`);
+        expect(metrics).toContain("# TYPE bunq_request_duration_seconds histogram");
+        expect(metrics).toContain(`bunq_request_duration_seconds_bucket{${labels},le="0.1"} 1`);
+        expect(metrics).toContain(`bunq_request_duration_seconds_bucket{${labels},le="0.5"} 2`);
+        expect(metrics).toContain(`bunq_request_duration_seconds_bucket{${labels},le="+Inf"} 2`);
+        expect(metrics).toContain(`bunq_request_duration_seconds_sum{${labels}} 0.35`);
+        expect(metrics).toContain(`bunq_request_queue_duration_seconds_count{${labels}} 2`);
+    });
+
+    it("should count errors and verification failures", () => {
+        const collector = new PrometheusCollector();
+        const error = new Error("Invalid signature");
+        error.name = "BunqSignatureError";
+        collector.requestFinished(createEvent({ error: error, verificationFailed: true }));
+        collector.requestFinished(createEvent({ error: new Error("Network Error"), status: null }));
+
+        const metrics = collector.metrics();
+
+        expect(metrics).toContain(
+            'bunq_request_errors_total{method="GET",endpoint="/v1/user/{id}/monetary-account",error="BunqSignatureError"} 1'
+        );
+        expect(metrics).toContain(
+            'bunq_response_verification_failures_total{method="GET",endpoint="/v1/user/{id}/monetary-account"} 1'
+        );
+        expect(metrics).toContain('status="none"} 1');
+    });
+
+    it("should reset all metrics", () => {
+        const collector = new PrometheusCollector();
+        collector.requestFinished(createEvent());
+        collector.reset();
+
+        expect(collector.metrics()).toBe("");
+    });
+});
@@ -0,0 +1,214 @@
+import * as Url from "url";
+import OAuthClient from "../../src/OAuthClient";
+import BunqJSClient from "../../src/BunqJSClient";
+import BunqOAuthError from "../../src/Errors/BunqOAuthError";
+import ErrorCodes from "../../src/Helpers/ErrorCodes";
+import HttpRequestConfig from "../../src/Types/HttpRequestConfig";
+import { createResponseError } from "../../src/Helpers/HttpErrors";
+import { createCodeChallenge } from "../../src/Crypto/Pkce";
+
+import Prepare from "../TestHelpers/Prepare";
+import CustomDb from "../TestHelpers/CustomDb";
+import { randomHex } from "../TestHelpers/RandomData";
+
+const loggerMock: any = {
+    log: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    trace: jest.fn(),
+    debug: jest.fn()
+};
+
+const ACCESS_TOKEN = randomHex(64);
+
+describe("OAuthClient", () => {
+    let storage: CustomDb;
+    let requests: HttpRequestConfig[];
+    let oauthClient: OAuthClient;
+
+    const createClient = (options: any = {}) => {
+        const client = new OAuthClient(storage, loggerMock, {
+            client_id: "client id",
+            client_secret: "client secret",
+            redirect_uri: "https://example.com/callback?source=bunq",
+            ...options
+        });
+        client.setHttpTransport({
+            request: async (config: HttpRequestConfig) => {
+                requests.push(config);
+                return {
+                    status: 200,
+                    headers: {},
+                    data: JSON.stringify({ access_token: ACCESS_TOKEN, token_type: "bearer", state: "ignored" })
+                };
+            }
+        });
+        return client;
+    };
+
+    beforeEach(() => {
+        Prepare();
+        storage = new CustomDb(randomHex(32));
+        requests = [];
+        oauthClient = createClient();
+    });
+
+    describe("#createAuthorizationUrl()", () => {
+        it("should create an encoded url with a stored state", async () => {
+            const authorization = await oauthClient.createAuthorizationUrl("user-1");
+            const parsedUrl = Url.parse(authorization.url, true);
+
+            expect(`${parsedUrl.protocol}//${parsedUrl.host}${parsedUrl.pathname}`).toBe(
+                "https://oauth.sandbox.bunq.com/auth"
+            );
+            expect(parsedUrl.query).toEqual({
+                response_type: "code",
+                client_id: "client id",
+                redirect_uri: "https://example.com/callback?source=bunq",
+                state: authorization.state
+            });
+            expect(authorization.url).toContain("redirect_uri=https%3A%2F%2Fexample.com%2Fcallback%3Fsource%3Dbunq");
+            expect(authorization.code_verifier).toBe(false);
+            expect(await storage.get(`BUNQJSCLIENT_SANDBOX_OAUTH_STATE_${authorization.state}`)).toBeTruthy();
+        });
+
+        it("should add a code challenge when pkce is enabled", async () => {
+            oauthClient = createClient({ use_pkce: true });
+
+            const authorization = await oauthClient.createAuthorizationUrl("user-1");
+            const query = Url.parse(authorization.url, true).query;
+
+            expect(query.code_challenge).toBe(createCodeChallenge(<string>authorization.code_verifier));
+            expect(query.code_challenge_method).toBe("S256");
+        });
+    });
+
+    describe("#handleCallback()", () => {
+        it("should exchange the code with the credentials in the body and store the token", async () => {
+            oauthClient = createClient({ use_pkce: true });
+            const authorization = await oauthClient.createAuthorizationUrl("user-1");
+
+            const token = await oauthClient.handleCallback(
+                `https://example.com/callback?source=bunq&code=code%2Fvalue&state=${authorization.state}`
+            );
+
+            expect(token.access_token).toBe(ACCESS_TOKEN);
+            expect(token.user_id).toBe("user-1");
+            expect(requests.length).toBe(1);
+            expect(requests[0].url).toBe("https://api-oauth.sandbox.bunq.com/v1/token");
+            expect(requests[0].params).toBeUndefined();
+            expect(Url.parse(`?${requests[0].data}`, true).query).toEqual({
+                grant_type: "authorization_code",
+                code: "code/value",
+                redirect_uri: "https://example.com/callback?source=bunq",
+                client_id: "client id",
+                client_secret: "client secret",
+                code_verifier: authorization.code_verifier
+            });
+            expect(await oauthClient.getToken("user-1")).toEqual(token);
+        });
+
+        it("should only accept a state once", async () => {
+            const authorization = await oauthClient.createAuthorizationUrl("user-1");
+            await oauthClient.handleCallback({ code: "code", state: authorization.state });
+
+            try {
+                await oauthClient.handleCallback({ code: "code", state: authorization.state });
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqOAuthError);
+                expect(error.errorCode).toBe(ErrorCodes.INVALID_OAUTH_STATE);
+            }
+            expect(requests.length).toBe(1);
+        });
+
+        it("should reject an expired state", async () => {
+            oauthClient = createClient({ state_timeout: -1 });
+            const authorization = await oauthClient.createAuthorizationUrl("user-1");
+
+            try {
+                await oauthClient.handleCallback(`code=code&state=${authorization.state}`);
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.message).toBe("The OAuth state has expired");
+            }
+            expect(requests.length).toBe(0);
+        });
+
+        it("should throw an error when the user denied access", async () => {
+            const authorization = await oauthClient.createAuthorizationUrl("user-1");
+
+            try {
+                await oauthClient.handleCallback({ error: "access_denied", state: authorization.state });
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqOAuthError);
+                expect(error.oauthError).toBe("access_denied");
+            }
+            expect(await oauthClient.getToken("user-1")).toBe(false);
+        });
+
+        it("should throw an error when the token exchange fails", async () => {
+            oauthClient.setHttpTransport({
+                request: async (config: HttpRequestConfig) => {
+                    throw createResponseError(config, {
+                        status: 400,
+                        headers: {},
+                        data: JSON.stringify({ error: "invalid_grant", error_description: "Code was already used." })
+                    });
+                }
+            });
+            const authorization = await oauthClient.createAuthorizationUrl("user-1");
+
+            try {
+                await oauthClient.handleCallback({ code: "code", state: authorization.state });
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.message).toBe("OAuth token exchange failed: Code was already used.");
+                expect(error.oauthError).toBe("invalid_grant");
+            }
+        });
+    });
+
+    describe("#storeToken()", () => {
+        it("should encrypt tokens when an encryption key is set", async () => {
+            oauthClient = createClient({ encryption_key: randomHex(32) });
+            const token = { access_token: ACCESS_TOKEN, token_type: "bearer", user_id: "user-2", created: "now" };
+
+            await oauthClient.storeToken(token);
+
+            const storedValue = await storage.get("BUNQJSCLIENT_SANDBOX_OAUTH_TOKEN_user-2");
+            expect(JSON.stringify(storedValue)).not.toContain(ACCESS_TOKEN);
+            expect(await oauthClient.getToken("user-2")).toEqual(token);
+
+            await oauthClient.removeToken("user-2");
+            expect(await oauthClient.getToken("user-2")).toBe(false);
+        });
+    });
+
+    describe("#runClient()", () => {
+        it("should run the client with the stored access token", async () => {
+            await oauthClient.storeToken({
+                access_token: ACCESS_TOKEN,
+                token_type: "bearer",
+                user_id: "user-3",
+                created: "now"
+            });
+            const bunqJSClient = new BunqJSClient(new CustomDb(randomHex(32)), loggerMock);
+
+            await oauthClient.runClient(bunqJSClient, "user-3", [], randomHex(32));
+
+            expect(bunqJSClient.Session.apiKey).toBe(ACCESS_TOKEN);
+            expect(bunqJSClient.Session.environment).toBe("SANDBOX");
+        });
+
+        it("should throw an error without a stored token", async () => {
+            try {
+                await oauthClient.runClient(new BunqJSClient(new CustomDb(randomHex(32)), loggerMock), "unknown");
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.message).toBe("No OAuth token stored for user unknown");
+            }
+        });
+    });
+});
@@ -3,6 +3,7 @@ import Prepare from "../TestHelpers/Prepare";
 const awaiting = require("awaiting");
 import RequestLimitFactory from "../../src/RequestLimitFactory";
 import RequestLimiter from "../../src/RequestLimiter";
+import FakeClock from "../../src/Testing/FakeClock";
 
 describe("RequestLimiter", () => {
     beforeEach(function() {
@@ -35,6 +36,24 @@ describe("RequestLimiter", () => {
             await Promise.all([promise1, promise2, promise3, promise4, promise5, promise6]);
         });
 
+        it("should start queued requests when the clock reaches the next window", async () => {
+            const clock = new FakeClock();
+            const requestLimiter = new RequestLimiter(2, 1000, clock);
+            const started = [];
+
+            const promises = [1, 2, 3].map(id => requestLimiter.run(() => started.push(id)));
+
+            expect(started).toEqual([1, 2]);
+            clock.tick(999);
+            expect(started).toEqual([1, 2]);
+            clock.tick(1);
+            expect(started).toEqual([1, 2, 3]);
+
+            await Promise.all(promises);
+            clock.tick(1000);
+            expect(clock.pendingTimers).toBe(0);
+        });
+
         it("should allow for non-promise callbacks", async () => {
             const factory = new RequestLimitFactory();
 
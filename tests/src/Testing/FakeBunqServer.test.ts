@@ -0,0 +1,220 @@
+import axios from "axios";
+import * as http from "http";
+import * as Url from "url";
+
+import BunqJSClient from "../../../src/BunqJSClient";
+import FakeBunqServer from "../../../src/Testing/FakeBunqServer";
+import CounterpartyAlias from "../../../src/Types/CounterpartyAlias";
+import Money from "../../../src/Helpers/Money";
+import BunqValidationError from "../../../src/Errors/BunqValidationError";
+import BunqSignatureError from "../../../src/Errors/BunqSignatureError";
+
+import Prepare from "../../TestHelpers/Prepare";
+import CustomDb from "../../TestHelpers/CustomDb";
+import { randomHex } from "../../TestHelpers/RandomData";
+
+const FAKE_API_KEY = randomHex(64);
+
+/**
+ * Creates a client which goes through the full installation flow against the fake server
+ * @param {FakeBunqServer} server
+ * @returns {Promise<BunqJSClient>}
+ */
+const setupClient = async (server: FakeBunqServer): Promise<BunqJSClient> => {
+    const loggerMock: any = {
+        warn: jest.fn(),
+        log: jest.fn(),
+        error: jest.fn(),
+        trace: jest.fn(),
+        debug: jest.fn()
+    };
+
+    const app = new BunqJSClient(new CustomDb(randomHex(32)), loggerMock);
+    app.setKeepAlive(false);
+    app.setHttpTransport(server);
+    await app.run(FAKE_API_KEY, [], "SANDBOX", randomHex(32));
+    app.Session.environmentUrl = server.url;
+
+    // responses should be verified like they are outside of the tests
+    process.env.ENV_CI = "false";
+
+    await app.install();
+    await app.registerDevice("Fake device");
+    await app.registerSession();
+
+    return app;
+};
+
+describe("FakeBunqServer", () => {
+    let server: FakeBunqServer;
+    let userId: number;
+
+    beforeEach(() => {
+        Prepare();
+        server = new FakeBunqServer({ privateKeyPem: process.env.CI_PRIVATE_KEY_PEM });
+        userId = server.state.createUser(FAKE_API_KEY, "Bravo").id;
+    });
+    afterEach(() => {
+        process.env.ENV_CI = "true";
+    });
+
+    describe("#request()", () => {
+        it("should install, register and create a session", async () => {
+            const app = await setupClient(server);
+
+            expect(app.Session.serverPublicKeyPem).toBe(server.publicKeyPem);
+            expect(app.Session.deviceId).toBeTruthy();
+            expect(server.state.sessions[app.Session.sessionToken].user_id).toBe(userId);
+
+            const users = await app.getUsers(true);
+            expect(users.UserPerson.id).toBe(userId);
+        });
+
+        it("should reject an unknown api key", async () => {
+            server.state.apiKeys = {};
+            try {
+                await setupClient(server);
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqValidationError);
+            }
+        });
+
+        it("should create payments between monetary accounts and events for them", async () => {
+            const app = await setupClient(server);
+            const checking = server.state.createMonetaryAccount(userId, "Checking", Money.fromValue("50.00"));
+            const savings = server.state.createMonetaryAccount(userId, "Savings");
+            const savingsIban = savings.alias[0].value;
+
+            const monetaryAccounts = await app.api.monetaryAccount.list(userId);
+            expect(monetaryAccounts.length).toBe(2);
+
+            await app.api.payment.post(
+                userId,
+                checking.id,
+                "Saving up",
+                Money.fromValue("20.00"),
+                CounterpartyAlias.iban(savingsIban, "Bravo")
+            );
+
+            const payments = await app.api.payment.list(userId, checking.id);
+            expect(payments.length).toBe(1);
+            expect(payments[0].Payment.amount.value).toBe("-20.00");
+            expect(payments[0].Payment.balance_after_mutation.value).toBe("30.00");
+
+            const savingsPayments = await app.api.payment.list(userId, savings.id);
+            expect(savingsPayments[0].Payment.amount.value).toBe("20.00");
+
+            const events = await app.api.event.list(userId, { monetary_account_id: savings.id });
+            expect(events.length).toBe(1);
+            const eventObject: any = events[0].Event.object;
+            expect(eventObject.Payment.id).toBe(savingsPayments[0].Payment.id);
+        });
+
+        it("should reject payments without enough balance", async () => {
+            const app = await setupClient(server);
+            const checking = server.state.createMonetaryAccount(userId, "Checking");
+
+            try {
+                await app.api.payment.post(
+                    userId,
+                    checking.id,
+                    "Too much",
+                    Money.fromValue("20.00"),
+                    CounterpartyAlias.email("bravo@example.com")
+                );
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqValidationError);
+                expect(error.errorDescriptions).toEqual(["Insufficient balance."]);
+            }
+        });
+
+        it("should paginate list responses", async () => {
+            const app = await setupClient(server);
+            const checking = server.state.createMonetaryAccount(userId, "Checking", Money.fromValue("100.00"));
+            for (let i = 0; i < 5; i++) {
+                server.state.createPayment(
+                    checking.id,
+                    Money.fromValue("1.00").toAmount(),
+                    CounterpartyAlias.email("bravo@example.com"),
+                    `Payment ${i}`
+                );
+            }
+
+            const firstPage = await app.api.payment.listPage(userId, checking.id, { count: 2 });
+            expect(firstPage.items.map(item => item.Payment.description)).toEqual(["Payment 4", "Payment 3"]);
+            expect(firstPage.hasOlder).toBe(true);
+            expect(firstPage.hasFuture).toBe(true);
+
+            const allPayments = await app.api.payment.listAll(userId, checking.id, { count: 2 });
+            expect(allPayments.length).toBe(5);
+        });
+
+        it("should create and revoke request inquiries", async () => {
+            const app = await setupClient(server);
+            const checking = server.state.createMonetaryAccount(userId, "Checking");
+
+            const response = await app.api.requestInquiry.post(
+                userId,
+                checking.id,
+                "Lunch",
+                Money.fromValue("12.50"),
+                CounterpartyAlias.email("bravo@example.com")
+            );
+            const requestInquiryId = response[0].Id.id;
+
+            await app.api.requestInquiry.put(userId, checking.id, requestInquiryId, "REVOKED");
+
+            const requestInquiry = await app.api.requestInquiry.get(userId, checking.id, requestInquiryId);
+            expect(requestInquiry.RequestInquiry.status).toBe("REVOKED");
+        });
+
+        it("should fail verification when the response was changed after signing", async () => {
+            const app = await setupClient(server);
+            // the signature no longer matches once the body is changed after signing
+            app.setHttpTransport({
+                request: async config => {
+                    const response = await server.request(config);
+                    response.data = response.data.replace("Bravo", "Charlie");
+                    return response;
+                }
+            });
+
+            try {
+                await app.getUsers(true);
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error).toBeInstanceOf(BunqSignatureError);
+            }
+        });
+    });
+
+    describe("#axiosAdapter()", () => {
+        it("should handle requests sent with axios", async () => {
+            try {
+                await axios.request({ url: `${server.url}/v1/user`, adapter: server.axiosAdapter });
+                expect(true).toBe(false);
+            } catch (error) {
+                expect(error.response.status).toBe(401);
+            }
+        });
+    });
+
+    describe("#listen()", () => {
+        it("should handle requests as a http server", async () => {
+            const url = await server.listen();
+
+            const response: any = await new Promise((resolve, reject) => {
+                const request = http.request({ ...(Url.parse(`${url}/v1/user`) as any), method: "GET" }, resolve);
+                request.on("error", reject);
+                request.end();
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(response.headers["x-bunq-server-signature"]).toBeTruthy();
+
+            await server.close();
+        });
+    });
+});
@@ -0,0 +1,46 @@
+import FakeClock from "../../../src/Testing/FakeClock";
+
+describe("FakeClock", () => {
+    describe("#tick()", () => {
+        it("should run the timers which are due in order", () => {
+            const clock = new FakeClock(1000);
+            const calls = [];
+            clock.setTimeout(() => calls.push(["second", clock.now()]), 200);
+            clock.setTimeout(() => calls.push(["first", clock.now()]), 100);
+            clock.setTimeout(() => calls.push(["later", clock.now()]), 500);
+
+            clock.tick(300);
+
+            expect(calls).toEqual([
+                ["first", 1100],
+                ["second", 1200]
+            ]);
+            expect(clock.now()).toBe(1300);
+            expect(clock.pendingTimers).toBe(1);
+        });
+
+        it("should repeat intervals until they are cleared", () => {
+            const clock = new FakeClock(0);
+            let calls = 0;
+            const interval = clock.setInterval(() => {
+                calls++;
+                if (calls === 3) clock.clearInterval(interval);
+            }, 100);
+
+            clock.tick(1000);
+
+            expect(calls).toBe(3);
+            expect(clock.pendingTimers).toBe(0);
+        });
+
+        it("should not run cleared timeouts", () => {
+            const clock = new FakeClock();
+            const callback = jest.fn();
+            clock.clearTimeout(clock.setTimeout(callback, 10));
+
+            clock.tick(100);
+
+            expect(callback).not.toHaveBeenCalled();
+        });
+    });
+});
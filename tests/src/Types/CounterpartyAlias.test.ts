@@ -0,0 +1,27 @@
+import CounterpartyAlias from "../../../src/Types/CounterpartyAlias";
+
+describe("CounterpartyAlias", () => {
+    it("#iban()", () => {
+        expect(CounterpartyAlias.iban("nl91 abna 0417 1643 00", "Bravo")).toEqual({
+            type: "IBAN",
+            value: "NL91ABNA0417164300",
+            name: "Bravo"
+        });
+        expect(() => CounterpartyAlias.iban("NL91ABNA0417164300", "")).toThrow();
+        expect(() => CounterpartyAlias.iban("NL00ABNA0417164300", "Bravo")).toThrow();
+    });
+
+    it("#email()", () => {
+        expect(CounterpartyAlias.email(" bravo@bunq.com ")).toEqual({ type: "EMAIL", value: "bravo@bunq.com" });
+        expect(CounterpartyAlias.email("bravo@bunq.com", "Bravo").name).toBe("Bravo");
+        expect(() => CounterpartyAlias.email("bravo")).toThrow();
+    });
+
+    it("#phone()", () => {
+        expect(CounterpartyAlias.phone("06 12345678", false, "31")).toEqual({
+            type: "PHONE_NUMBER",
+            value: "+31612345678"
+        });
+        expect(() => CounterpartyAlias.phone("06 12345678")).toThrow();
+    });
+});